@@ -5,8 +5,14 @@ import {
     captureScreenshot,
     closeBrowser,
 } from './internal/screenshotCapture.js';
-import { ScreenshotOptions, TiledScreenshotResult } from './types.js';
-import { readFileSync, writeFileSync } from 'fs';
+import { buildHar } from './internal/har.js';
+import { summarizeNetwork } from './internal/networkRecorder.js';
+import {
+    BaselineOptions,
+    ScreenshotOptions,
+    TiledScreenshotResult,
+} from './types.js';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
@@ -18,6 +24,141 @@ const packageJson = JSON.parse(
     readFileSync(join(__dirname, '../package.json'), 'utf-8')
 );
 
+// --device picks a preset; the other flags describe a device at -w/-h
+function resolveDeviceOption(options: any): ScreenshotOptions['device'] {
+    if (options.device) {
+        return options.device;
+    }
+    if (
+        !options.scale &&
+        !options.mobile &&
+        !options.touch &&
+        !options.landscape
+    ) {
+        return undefined;
+    }
+    return {
+        width: Math.min(parseInt(options.width, 10), 1072),
+        height: Math.min(parseInt(options.height, 10), 1072),
+        deviceScaleFactor: options.scale ? parseFloat(options.scale) : 1,
+        isMobile: !!options.mobile,
+        hasTouch: !!options.touch,
+        isLandscape: !!options.landscape,
+    };
+}
+
+// Page options shared by capture and the baseline subcommands
+function addCaptureOptions(command: Command): Command {
+    return command
+        .option('-w, --width <pixels>', 'Viewport width (max 1072)', '1072')
+        .option('-h, --height <pixels>', 'Viewport height (max 1072)', '1072')
+        .option('--no-full-page', 'Disable full page capture and tiling')
+        .option(
+            '--max-width <pixels>',
+            'Tile wide pages in columns up to this width (default: 4 viewport widths)'
+        )
+        .option(
+            '--wait-until <event>',
+            'Wait until event: load, domcontentloaded, networkidle0, networkidle2',
+            'domcontentloaded'
+        )
+        .option('--wait-for <ms>', 'Additional wait time in milliseconds')
+        .option(
+            '--wait-for-selector <selector>',
+            'Wait for an element to become visible'
+        )
+        .option(
+            '--wait-for-hidden',
+            'Wait for --wait-for-selector to become hidden instead'
+        )
+        .option(
+            '--wait-for-function <expression>',
+            'Wait for a JavaScript expression to be truthy'
+        )
+        .option(
+            '--wait-for-network-idle <ms>',
+            'Wait until the network has been quiet this long'
+        )
+        .option('--wait-for-assets', 'Wait for fonts and images to load')
+        .option(
+            '--wait-for-stable',
+            'Wait until two consecutive frames are identical'
+        )
+        .option(
+            '--wait-timeout <ms>',
+            'Timeout for each wait condition (default: 10000)'
+        )
+        .option(
+            '--device <name>',
+            'Emulate a device preset, e.g. iphone, pixel, ipad, "iPhone 15 Pro landscape"'
+        )
+        .option('--scale <factor>', 'Device scale factor (e.g. 2 for retina)')
+        .option(
+            '--mobile',
+            'Emulate a mobile viewport (meta viewport, overlay scrollbars)'
+        )
+        .option('--touch', 'Emulate touch support')
+        .option('--landscape', 'Emulate landscape orientation')
+        .option(
+            '--dismiss-overlays',
+            'Accept or hide cookie banners and modal overlays before capture'
+        )
+        .option(
+            '--block <types>',
+            'Comma-separated resource types to block (default: font,media; "none" loads everything)'
+        )
+        .option('--allow-fonts', 'Load web fonts even when fonts are blocked');
+}
+
+function parseBlockOption(value?: string): string[] | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    return value === 'none'
+        ? []
+        : value
+              .split(',')
+              .map(type => type.trim())
+              .filter(Boolean);
+}
+
+function toScreenshotOptions(url: string, options: any): ScreenshotOptions {
+    return {
+        url,
+        viewport: {
+            width: Math.min(parseInt(options.width, 10), 1072),
+            height: Math.min(parseInt(options.height, 10), 1072),
+        },
+        fullPage: options.fullPage !== false, // Default to true unless explicitly disabled
+        maxWidth: options.maxWidth ? parseInt(options.maxWidth, 10) : undefined,
+        waitUntil: options.waitUntil,
+        waitFor: options.waitFor ? parseInt(options.waitFor, 10) : undefined,
+        waitForSelector: options.waitForSelector,
+        waitForSelectorHidden: options.waitForHidden,
+        waitForFunction: options.waitForFunction,
+        waitForNetworkIdle: options.waitForNetworkIdle
+            ? parseInt(options.waitForNetworkIdle, 10)
+            : undefined,
+        waitForAssets: options.waitForAssets,
+        waitForStable: options.waitForStable,
+        waitTimeout: options.waitTimeout
+            ? parseInt(options.waitTimeout, 10)
+            : undefined,
+        device: resolveDeviceOption(options),
+        dismissOverlays: options.dismissOverlays,
+        blockedResourceTypes: parseBlockOption(options.block),
+        allowFonts: options.allowFonts,
+    };
+}
+
+function toBaselineOptions(url: string, options: any): BaselineOptions {
+    return {
+        ...toScreenshotOptions(url, options),
+        selector: options.selector,
+        baselineDir: options.dir,
+    };
+}
+
 const program = new Command();
 
 program
@@ -27,49 +168,146 @@ program
     )
     .version(packageJson.version);
 
-program
-    .command('capture <url>')
-    .description('Capture a screenshot of a URL')
-    .option('-w, --width <pixels>', 'Viewport width (max 1072)', '1072')
-    .option('-h, --height <pixels>', 'Viewport height (max 1072)', '1072')
-    .option('--no-full-page', 'Disable full page capture and tiling')
-    .option(
-        '--wait-until <event>',
-        'Wait until event: load, domcontentloaded, networkidle0, networkidle2',
-        'domcontentloaded'
-    )
-    .option('--wait-for <ms>', 'Additional wait time in milliseconds')
+addCaptureOptions(
+    program
+        .command('capture <url>')
+        .description('Capture a screenshot of a URL')
+)
     .option(
         '-o, --output <path>',
         'Output file path (required for tiled output)'
     )
+    .option(
+        '--tile-height <pixels>',
+        'Height of full-page tiles (default: the viewport width)'
+    )
+    .option(
+        '--tile-overlap <pixels>',
+        'Pixels each tile repeats from the previous one',
+        '0'
+    )
+    .option(
+        '--fixed-elements <mode>',
+        'Fixed/sticky elements in tiles: keep, hide-after-first or hide',
+        'keep'
+    )
+    .option('--stitch', 'Save the full page as one image instead of tiles')
+    .option(
+        '--stitch-max-height <pixels>',
+        'Fail on pages taller than this when stitching'
+    )
+    .option(
+        '--stitch-downscale',
+        'Shrink pages over --stitch-max-height instead of failing'
+    )
+    .option(
+        '--har <path>',
+        'Record network requests and save them as a HAR 1.2 file'
+    )
+    .option(
+        '--auto-scroll',
+        'Scroll through the page first so lazy-loaded content renders'
+    )
+    .option(
+        '--auto-scroll-max-height <pixels>',
+        'Stop scrolling and cap the capture once the page grew this tall (default: 20000)'
+    )
+    .option(
+        '--auto-scroll-max-steps <count>',
+        'Stop scrolling after this many steps (default: 50)'
+    )
+    .option(
+        '--smart-tiling',
+        'Cut tiles in gaps between elements (variable tile heights)'
+    )
+    .option(
+        '--smart-tiling-tolerance <pixels>',
+        'How far up a smart cut may move (default: a quarter of the tile height)'
+    )
     .action(async (url: string, options) => {
         try {
             const screenshotOptions: ScreenshotOptions = {
-                url,
-                viewport: {
-                    width: Math.min(parseInt(options.width, 10), 1072),
-                    height: Math.min(parseInt(options.height, 10), 1072),
-                },
-                fullPage: options.fullPage !== false, // Default to true unless explicitly disabled
-                waitUntil: options.waitUntil,
-                waitFor: options.waitFor
-                    ? parseInt(options.waitFor, 10)
+                ...toScreenshotOptions(url, options),
+                tileHeight: options.tileHeight
+                    ? parseInt(options.tileHeight, 10)
+                    : undefined,
+                tileOverlap: parseInt(options.tileOverlap, 10),
+                fixedElements: options.fixedElements,
+                stitch: options.stitch,
+                stitchMaxHeight: options.stitchMaxHeight
+                    ? parseInt(options.stitchMaxHeight, 10)
+                    : undefined,
+                stitchDownscale: options.stitchDownscale,
+                smartTiling: options.smartTiling,
+                smartTilingTolerance: options.smartTilingTolerance
+                    ? parseInt(options.smartTilingTolerance, 10)
+                    : undefined,
+                recordNetwork: !!options.har,
+                autoScroll: options.autoScroll,
+                autoScrollMaxHeight: options.autoScrollMaxHeight
+                    ? parseInt(options.autoScrollMaxHeight, 10)
+                    : undefined,
+                autoScrollMaxSteps: options.autoScrollMaxSteps
+                    ? parseInt(options.autoScrollMaxSteps, 10)
                     : undefined,
             };
 
             console.error(`Capturing screenshot of ${url}...`);
             const result = await captureScreenshot(screenshotOptions);
+            if (options.har && result.network) {
+                const har = buildHar(
+                    {
+                        url,
+                        startedAt: result.network[0]?.startedAt ?? new Date(),
+                    },
+                    result.network,
+                    { name: packageJson.name, version: packageJson.version }
+                );
+                writeFileSync(options.har, JSON.stringify(har, null, 2));
+                const summary = summarizeNetwork(result.network);
+                console.error(
+                    `🌐 Saved ${summary.requests} requests to ${options.har} (${summary.errorResponses} error responses, ${summary.failed} failed, ${summary.blocked} blocked)`
+                );
+            }
+            if (result.dismissedOverlays.length > 0) {
+                console.error(
+                    `🧹 Dismissed overlays: ${result.dismissedOverlays.map(overlay => overlay.name).join(', ')}`
+                );
+            }
 
-            if ('tiles' in result) {
+            if ('tiles' in result && result.stitched) {
+                // One image of the whole page, like a viewport shot
+                const [image] = result.tiles;
+                if (options.output) {
+                    writeFileSync(options.output, image.screenshot);
+                    console.error(
+                        `✅ Stitched screenshot saved to: ${options.output}`
+                    );
+                    console.error(
+                        `📐 Full page dimensions: ${result.fullWidth}x${result.fullHeight}`
+                    );
+                } else {
+                    process.stdout.write(image.screenshot);
+                }
+            } else if ('tiles' in result) {
                 // Handle tiled screenshot
                 const tiledResult = result as TiledScreenshotResult;
                 console.error(`✅ Screenshot captured successfully!`);
                 console.error(
                     `📐 Full page dimensions: ${tiledResult.fullWidth}x${tiledResult.fullHeight}`
                 );
+                if (tiledResult.autoScroll?.limitReached) {
+                    console.error(
+                        `⚠️  Auto-scroll stopped at ${tiledResult.autoScroll.height}px before the bottom, raise --auto-scroll-max-height or --auto-scroll-max-steps for more`
+                    );
+                }
+                if (tiledResult.pageWidth > tiledResult.fullWidth) {
+                    console.error(
+                        `⚠️  Page is ${tiledResult.pageWidth}px wide, raise --max-width to capture all of it`
+                    );
+                }
                 console.error(
-                    `🔲 Created ${tiledResult.tiles.length} tiles of ${tiledResult.tileSize}x${tiledResult.tileSize} each`
+                    `🔲 Created ${tiledResult.tiles.length} tiles of ${tiledResult.tileSize}x${tiledResult.tileHeight} each${tiledResult.tileOverlap ? ` (${tiledResult.tileOverlap}px overlap)` : ''}`
                 );
 
                 if (options.output) {
@@ -117,6 +355,112 @@ program
         }
     });
 
+const baseline = program
+    .command('baseline')
+    .description('Save and check visual regression baselines');
+
+addCaptureOptions(
+    baseline
+        .command('save <url>')
+        .description('Capture a URL and save it as the baseline')
+)
+    .option('-s, --selector <selector>', 'Baseline an element instead')
+    .option(
+        '--dir <path>',
+        'Baseline directory (default: .screenshot-baselines)'
+    )
+    .action(async (url: string, options) => {
+        try {
+            const { saveBaseline } =
+                await import('./internal/screenshotCompare.js');
+            console.error(`Capturing baseline of ${url}...`);
+            const entry = await saveBaseline(toBaselineOptions(url, options));
+            console.error(
+                `✅ Saved baseline "${entry.key}" (${entry.tiles.length} image${entry.tiles.length === 1 ? '' : 's'})`
+            );
+            await closeBrowser();
+        } catch (error) {
+            console.error(
+                'Error:',
+                error instanceof Error ? error.message : error
+            );
+            await closeBrowser();
+            process.exit(1);
+        }
+    });
+
+addCaptureOptions(
+    baseline
+        .command('check <url>')
+        .description(
+            'Capture a URL and diff it against its baseline, exits 1 on failure'
+        )
+)
+    .option('-s, --selector <selector>', 'Check an element baseline')
+    .option(
+        '--dir <path>',
+        'Baseline directory (default: .screenshot-baselines)'
+    )
+    .option(
+        '--threshold <value>',
+        'Color difference per channel (0-1) ignored per pixel',
+        '0.1'
+    )
+    .option(
+        '--max-mismatch <percent>',
+        'Highest percentage of changed pixels that still passes',
+        '0.1'
+    )
+    .option('-o, --output <dir>', 'Save diff images of changed tiles here')
+    .action(async (url: string, options) => {
+        try {
+            const { checkBaseline } =
+                await import('./internal/screenshotCompare.js');
+            console.error(`Checking ${url} against its baseline...`);
+            const result = await checkBaseline({
+                ...toBaselineOptions(url, options),
+                threshold: parseFloat(options.threshold),
+                maxMismatchPercentage: parseFloat(options.maxMismatch),
+            });
+
+            console.error(
+                `${result.passed ? '✅ Passed' : '❌ Failed'}: ${result.mismatchPercentage.toFixed(2)}% of pixels differ (max ${result.maxMismatchPercentage}%)`
+            );
+            for (const region of result.regions) {
+                console.error(
+                    `  Changed ${region.width}x${region.height} at ${region.x},${region.y}`
+                );
+            }
+
+            if (options.output) {
+                if (!existsSync(options.output)) {
+                    mkdirSync(options.output, { recursive: true });
+                }
+                for (const tile of result.tiles) {
+                    if (tile.mismatchedPixels === 0) continue;
+                    const filename = join(
+                        options.output,
+                        `diff-tile-${tile.row}-${tile.col}.png`
+                    );
+                    writeFileSync(filename, tile.diff);
+                    console.error(`Saved diff to: ${filename}`);
+                }
+            }
+
+            await closeBrowser();
+            if (!result.passed) {
+                process.exit(1);
+            }
+        } catch (error) {
+            console.error(
+                'Error:',
+                error instanceof Error ? error.message : error
+            );
+            await closeBrowser();
+            process.exit(1);
+        }
+    });
+
 program
     .command('serve')
     .description('Run as an MCP server')
@@ -0,0 +1,453 @@
+import type { ElementHandle, Page, SerializedAXNode } from 'puppeteer';
+import type { AccessibilityIssue, AccessibilityNode } from '../types.js';
+
+const MAX_NAME_LENGTH = 200; // Longer names (usually paragraphs) are truncated in the outline
+const MAX_ISSUES_PER_RULE = 50;
+const MAX_TEXT_SAMPLES = 500; // Text elements checked for contrast
+
+// Layout wrappers that carry no meaning on their own; their children take their place
+const TRANSPARENT_ROLES = new Set(['generic', 'none', 'presentation']);
+const DROPPED_ROLES = new Set(['InlineTextBox', 'LineBreak']);
+
+// Boolean states reported when true, and those worth reporting when false too
+const FLAG_STATES = [
+    'focused',
+    'disabled',
+    'selected',
+    'required',
+    'readonly',
+    'modal',
+    'multiselectable',
+    'busy',
+] as const;
+const TRISTATE_STATES = ['expanded', 'checked', 'pressed'] as const;
+
+function nodeStates(node: SerializedAXNode): string[] {
+    const states: string[] = FLAG_STATES.filter(state => node[state] === true);
+    for (const state of TRISTATE_STATES) {
+        const value = node[state];
+        if (value === true) {
+            states.push(state);
+        } else if (value !== undefined) {
+            states.push(`${state}=${value}`);
+        }
+    }
+    if (node.level !== undefined) {
+        states.push(`level=${node.level}`);
+    }
+    if (node.invalid && node.invalid !== 'false') {
+        states.push(
+            node.invalid === 'true' ? 'invalid' : `invalid=${node.invalid}`
+        );
+    }
+    if (node.haspopup && node.haspopup !== 'false') {
+        states.push(`haspopup=${node.haspopup}`);
+    }
+    return states;
+}
+
+/**
+ * Reduce a Puppeteer accessibility snapshot to what a reader needs: roles,
+ * names, values and states. Unnamed layout wrappers are replaced by their
+ * children, and text nodes that only repeat their parent's name are dropped.
+ * Returns the nodes that take the given node's place (none, itself, or its
+ * children when it was a wrapper).
+ */
+export function pruneAccessibilityTree(
+    node: SerializedAXNode
+): AccessibilityNode[] {
+    if (DROPPED_ROLES.has(node.role)) {
+        return [];
+    }
+    const name = node.name?.trim();
+    const children = (node.children ?? [])
+        .flatMap(pruneAccessibilityTree)
+        .filter(
+            child =>
+                !(
+                    child.role === 'StaticText' &&
+                    !child.children &&
+                    name &&
+                    child.name &&
+                    name.includes(child.name)
+                )
+        );
+    if (node.role === 'StaticText' && !name) {
+        return [];
+    }
+    if (TRANSPARENT_ROLES.has(node.role) && !name) {
+        return children;
+    }
+
+    const states = nodeStates(node);
+    return [
+        {
+            role: node.role,
+            ...(name ? { name } : {}),
+            ...(node.value !== undefined && node.value !== ''
+                ? { value: node.value }
+                : {}),
+            ...(node.description ? { description: node.description } : {}),
+            ...(node.url ? { url: node.url } : {}),
+            ...(states.length ? { states } : {}),
+            ...(children.length ? { children } : {}),
+        },
+    ];
+}
+
+export function countAccessibilityNodes(nodes: AccessibilityNode[]): number {
+    return nodes.reduce(
+        (count, node) =>
+            count + 1 + countAccessibilityNodes(node.children ?? []),
+        0
+    );
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_NAME_LENGTH
+        ? `${text.slice(0, MAX_NAME_LENGTH)}…`
+        : text;
+}
+
+/**
+ * Render nodes as an indented outline, one line per node, e.g.
+ * `- checkbox "Remember me" [checked]` or `- link "Docs" -> /docs`.
+ */
+export function formatAccessibilityOutline(
+    nodes: AccessibilityNode[],
+    depth = 0
+): string {
+    return nodes
+        .map(node => {
+            const name = node.name
+                ? ` ${JSON.stringify(truncate(node.name))}`
+                : '';
+            const states = node.states ? ` [${node.states.join(', ')}]` : '';
+            const value =
+                node.value !== undefined
+                    ? `: ${JSON.stringify(truncate(String(node.value)))}`
+                    : '';
+            const url = node.url ? ` -> ${node.url}` : '';
+            const line = `${'  '.repeat(depth)}- ${node.role}${name}${states}${value}${url}`;
+            return node.children
+                ? `${line}\n${formatAccessibilityOutline(node.children, depth + 1)}`
+                : line;
+        })
+        .join('\n');
+}
+
+// Elements found in the page that may fail a rule, see collectAuditCandidates
+export interface AuditCandidates {
+    images: AuditElement[];
+    controls: AuditElement[];
+    buttons: AuditElement[];
+    texts: (AuditElement & {
+        color: string;
+        backgrounds: string[]; // Background colors from the element outwards
+        backgroundImage: boolean; // Contrast can't be computed over images
+        fontSize: number;
+        fontWeight: number;
+    })[];
+}
+
+interface AuditElement {
+    selector: string;
+    element: string;
+}
+
+/**
+ * Collect the visible elements under `scope` (or the whole document) that
+ * lack alt text, a label or a name, and the styles of elements holding text.
+ * Runs inside the page, so it must not reference anything outside its own
+ * body; the contrast math happens in Node, see findAccessibilityIssues.
+ */
+export function collectAuditCandidates(
+    scope: unknown,
+    maxPerRule: number,
+    maxTexts: number
+): AuditCandidates {
+    const doc = (globalThis as any).document;
+    const getStyle = (element: any) =>
+        (globalThis as any).getComputedStyle(element);
+    const root: any = scope ?? doc.body ?? doc.documentElement;
+    const candidates: AuditCandidates = {
+        images: [],
+        controls: [],
+        buttons: [],
+        texts: [],
+    };
+
+    const isVisible = (element: any) => {
+        const style = getStyle(element);
+        if (style.visibility === 'hidden' || style.display === 'none') {
+            return false;
+        }
+        const rect = element.getBoundingClientRect();
+        return rect.width > 0 && rect.height > 0;
+    };
+    const cssPath = (element: any): string => {
+        const parts: string[] = [];
+        for (
+            let current = element;
+            current && current.nodeType === 1 && parts.length < 5;
+            current = current.parentElement
+        ) {
+            if (current.id) {
+                parts.unshift(`#${(globalThis as any).CSS.escape(current.id)}`);
+                break;
+            }
+            const tag = current.tagName.toLowerCase();
+            const siblings = current.parentElement
+                ? Array.from(current.parentElement.children as any[]).filter(
+                      sibling => sibling.tagName === current.tagName
+                  )
+                : [];
+            parts.unshift(
+                siblings.length > 1
+                    ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})`
+                    : tag
+            );
+        }
+        return parts.join(' > ');
+    };
+    const describe = (element: any): AuditElement => {
+        const html: string = element.outerHTML;
+        const tag = html.slice(0, html.indexOf('>') + 1);
+        return {
+            selector: cssPath(element),
+            element: tag.length > 120 ? `${tag.slice(0, 119)}…` : tag,
+        };
+    };
+    const hasText = (value: unknown) =>
+        typeof value === 'string' && value.trim() !== '';
+    const hasAriaName = (element: any) =>
+        hasText(element.getAttribute('aria-label')) ||
+        hasText(element.getAttribute('title')) ||
+        (element.getAttribute('aria-labelledby') ?? '')
+            .split(/\s+/)
+            .some((id: string) => hasText(doc.getElementById(id)?.textContent));
+    const add = (list: AuditElement[], element: any) => {
+        if (list.length < maxPerRule) {
+            list.push(describe(element));
+        }
+    };
+
+    const unlabeledInputTypes = [
+        'hidden',
+        'submit',
+        'button',
+        'reset',
+        'image',
+    ];
+    const buttonInputTypes = ['submit', 'button', 'reset'];
+    for (const element of [root, ...root.querySelectorAll('*')]) {
+        if (!isVisible(element)) {
+            continue;
+        }
+        const tag = element.tagName.toLowerCase();
+        const role = element.getAttribute('role');
+        const type = (element.getAttribute('type') ?? '').toLowerCase();
+
+        if (
+            (tag === 'img' && !element.hasAttribute('alt')) ||
+            (role === 'img' && tag !== 'img') ||
+            (tag === 'input' && type === 'image' && !hasText(element.alt))
+        ) {
+            if (!hasAriaName(element)) {
+                add(candidates.images, element);
+            }
+        }
+
+        if (
+            (tag === 'input' && !unlabeledInputTypes.includes(type)) ||
+            tag === 'select' ||
+            tag === 'textarea'
+        ) {
+            const labels = Array.from((element.labels ?? []) as any[]);
+            if (
+                !hasAriaName(element) &&
+                !labels.some(label => hasText(label.textContent))
+            ) {
+                add(candidates.controls, element);
+            }
+        }
+
+        if (
+            tag === 'button' ||
+            role === 'button' ||
+            (tag === 'input' && buttonInputTypes.includes(type))
+        ) {
+            const named =
+                hasAriaName(element) ||
+                hasText(element.textContent) ||
+                (tag === 'input' &&
+                    (hasText(element.value) || type !== 'button')) ||
+                Array.from(element.querySelectorAll('img[alt]') as any[]).some(
+                    image => hasText(image.alt)
+                );
+            if (!named) {
+                add(candidates.buttons, element);
+            }
+        }
+
+        const ownsText = Array.from(element.childNodes as any[]).some(
+            child => child.nodeType === 3 && hasText(child.textContent)
+        );
+        if (ownsText && candidates.texts.length < maxTexts) {
+            const style = getStyle(element);
+            const backgrounds: string[] = [];
+            let backgroundImage = false;
+            for (
+                let current = element;
+                current && current.nodeType === 1;
+                current = current.parentElement
+            ) {
+                const currentStyle = getStyle(current);
+                backgrounds.push(currentStyle.backgroundColor);
+                if (currentStyle.backgroundImage !== 'none') {
+                    backgroundImage = true;
+                    break;
+                }
+            }
+            candidates.texts.push({
+                ...describe(element),
+                color: style.color,
+                backgrounds,
+                backgroundImage,
+                fontSize: parseFloat(style.fontSize),
+                fontWeight: parseInt(style.fontWeight, 10) || 400,
+            });
+        }
+    }
+    return candidates;
+}
+
+type Rgba = [number, number, number, number];
+
+// Computed styles report colors as rgb()/rgba(); anything else is not checked
+export function parseCssColor(color: string): Rgba | null {
+    const match = /^rgba?\(([^)]+)\)$/.exec(color.trim());
+    if (!match) {
+        return null;
+    }
+    const parts = match[1]
+        .split(/[\s,/]+/)
+        .filter(Boolean)
+        .map(Number);
+    if (parts.length < 3 || parts.some(Number.isNaN)) {
+        return null;
+    }
+    const [r, g, b, a = 1] = parts;
+    return [r, g, b, a];
+}
+
+function blend(top: Rgba, bottom: Rgba): Rgba {
+    const alpha = top[3];
+    return [
+        top[0] * alpha + bottom[0] * (1 - alpha),
+        top[1] * alpha + bottom[1] * (1 - alpha),
+        top[2] * alpha + bottom[2] * (1 - alpha),
+        1,
+    ];
+}
+
+// WCAG 2 relative luminance of an opaque sRGB color
+function luminance([r, g, b]: Rgba): number {
+    const channel = (value: number) => {
+        const c = value / 255;
+        return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/**
+ * WCAG 2 contrast ratio of text over a stack of backgrounds, listed from the
+ * element outwards; translucent layers are blended over the ones below and
+ * a white page. Returns null for colors that can't be parsed.
+ */
+export function contrastRatio(
+    color: string,
+    backgrounds: string[]
+): number | null {
+    let background: Rgba = [255, 255, 255, 1];
+    for (const layer of [...backgrounds].reverse()) {
+        const parsed = parseCssColor(layer);
+        if (!parsed) {
+            return null;
+        }
+        background = blend(parsed, background);
+    }
+    const foreground = parseCssColor(color);
+    if (!foreground) {
+        return null;
+    }
+    const [lighter, darker] = [
+        luminance(blend(foreground, background)),
+        luminance(background),
+    ].sort((a, b) => b - a);
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Turn the candidates collected in the page into issues: missing alt text,
+ * unlabeled form controls, buttons without a name and text below the WCAG AA
+ * contrast minimum (4.5:1, or 3:1 for large text).
+ */
+export function findAccessibilityIssues(
+    candidates: AuditCandidates
+): AccessibilityIssue[] {
+    const issues: AccessibilityIssue[] = [
+        ...candidates.images.map(element => ({
+            rule: 'image-alt' as const,
+            ...element,
+            message: 'Image has no alt text',
+        })),
+        ...candidates.controls.map(element => ({
+            rule: 'label' as const,
+            ...element,
+            message: 'Form control has no label',
+        })),
+        ...candidates.buttons.map(element => ({
+            rule: 'button-name' as const,
+            ...element,
+            message: 'Button has no accessible name',
+        })),
+    ];
+
+    let contrastIssues = 0;
+    for (const text of candidates.texts) {
+        if (text.backgroundImage || contrastIssues >= MAX_ISSUES_PER_RULE) {
+            continue;
+        }
+        const ratio = contrastRatio(text.color, text.backgrounds);
+        const large =
+            text.fontSize >= 24 ||
+            (text.fontSize >= 18.66 && text.fontWeight >= 700);
+        const minimum = large ? 3 : 4.5;
+        if (ratio !== null && ratio < minimum) {
+            contrastIssues++;
+            issues.push({
+                rule: 'color-contrast',
+                selector: text.selector,
+                element: text.element,
+                message: `Text contrast ${ratio.toFixed(2)}:1 is below ${minimum}:1 (${text.color} on ${text.backgrounds.find(layer => parseCssColor(layer)?.[3] !== 0) ?? 'white'})`,
+                contrastRatio: Math.round(ratio * 100) / 100,
+            });
+        }
+    }
+    return issues;
+}
+
+// Audit the visible elements of the page, or of the subtree under root
+export async function auditAccessibility(
+    page: Page,
+    root?: ElementHandle
+): Promise<AccessibilityIssue[]> {
+    const candidates = await page.evaluate(
+        collectAuditCandidates,
+        root ?? null,
+        MAX_ISSUES_PER_RULE,
+        MAX_TEXT_SAMPLES
+    );
+    return findAccessibilityIssues(candidates);
+}
@@ -0,0 +1,109 @@
+import type { Page } from 'puppeteer';
+import type { AutoScrollResult } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+export interface AutoScrollOptions {
+    maxHeight: number; // Stop once the page grew this tall, in CSS pixels
+    maxSteps: number; // Stop after this many scroll steps
+    idleTimeout?: number; // Longest wait for the network after each step
+}
+
+export const DEFAULT_AUTO_SCROLL_MAX_HEIGHT = 20000;
+export const DEFAULT_AUTO_SCROLL_MAX_STEPS = 50;
+const DEFAULT_IDLE_TIMEOUT_MS = 3000;
+const NETWORK_IDLE_MS = 500; // Quiet period counted as idle
+
+function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Scroll down by distance and report where the viewport now ends
+function scrollBy(page: Page, distance: number) {
+    return page.evaluate((distance: number) => {
+        const win = globalThis as any;
+        const doc = win.document;
+        win.scrollBy(0, distance);
+        return {
+            height: Math.max(
+                doc.documentElement.scrollHeight,
+                doc.body.scrollHeight
+            ),
+            bottom: win.scrollY + win.innerHeight,
+            viewportHeight: win.innerHeight,
+        };
+    }, distance);
+}
+
+// Let lazy content triggered by the last step load and decode
+async function waitForLazyContent(page: Page, timeout: number): Promise<void> {
+    try {
+        await page.waitForNetworkIdle({ idleTime: NETWORK_IDLE_MS, timeout });
+    } catch (error) {
+        // Long polling and analytics beacons keep some pages busy for good
+        logger.debug(
+            `Network not idle after scroll step: ${getErrorMessage(error)}`
+        );
+    }
+    await page.evaluate((timeout: number) => {
+        const images = Array.from(
+            (globalThis as any).document.images as any[]
+        ).filter(image => image.src && image.getBoundingClientRect().height);
+        return Promise.race([
+            Promise.all(images.map(image => image.decode().catch(() => {}))),
+            new Promise(resolve => setTimeout(resolve, timeout)),
+        ]);
+    }, timeout);
+}
+
+/**
+ * Scroll to the bottom a viewport at a time so lazy-loaded images and
+ * infinite-scroll content load, then return to the top. Each step waits for
+ * the network to go idle and visible images to decode. Feeds that keep
+ * growing stop at maxHeight or after maxSteps. Pages already taller than
+ * maxHeight before scrolling are scrolled through whole, only growth past
+ * their initial height is capped there.
+ */
+export async function autoScroll(
+    page: Page,
+    options: AutoScrollOptions
+): Promise<AutoScrollResult> {
+    const idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT_MS;
+    let position = await scrollBy(page, 0);
+    let steps = 0;
+    const initialHeight = position.height;
+    const maxHeight = Math.max(options.maxHeight, initialHeight);
+
+    while (position.bottom < position.height) {
+        if (
+            (position.height > initialHeight && position.height >= maxHeight) ||
+            steps >= options.maxSteps
+        ) {
+            logger.info(
+                `Stopped auto-scroll after ${steps} steps at ${position.height}px (limit reached)`
+            );
+            await page.evaluate(() => (globalThis as any).scrollTo(0, 0));
+            return {
+                steps,
+                initialHeight,
+                height: position.height,
+                limitReached: true,
+            };
+        }
+        position = await scrollBy(page, position.viewportHeight);
+        steps++;
+        await waitForLazyContent(page, idleTimeout);
+        // The page may have grown while content loaded
+        position = await scrollBy(page, 0);
+    }
+
+    logger.info(
+        `Auto-scrolled to the bottom in ${steps} steps, page is ${position.height}px tall`
+    );
+    await page.evaluate(() => (globalThis as any).scrollTo(0, 0));
+    return {
+        steps,
+        initialHeight,
+        height: position.height,
+        limitReached: false,
+    };
+}
@@ -0,0 +1,187 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { BaselineEntry, DeviceEmulation } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+export interface BaselineTarget {
+    url: string;
+    viewport: {
+        width: number;
+        height: number;
+    };
+    fullPage: boolean;
+    selector?: string;
+    device?: string | DeviceEmulation;
+}
+
+export interface BaselineImage {
+    row: number;
+    col: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    screenshot: Buffer;
+}
+
+interface Manifest {
+    version: 1;
+    baselines: Record<string, BaselineEntry>;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Key a baseline by what was captured: URL, viewport (or emulated device)
+ * and selector. Viewport-only shots get their own key so they never get
+ * compared against full-page tiles.
+ */
+export function baselineKey(target: BaselineTarget): string {
+    const parts = [
+        target.url,
+        `${target.viewport.width}x${target.viewport.height}`,
+    ];
+    if (target.device) {
+        parts.push(
+            `device=${typeof target.device === 'string' ? target.device : JSON.stringify(target.device)}`
+        );
+    }
+    if (target.selector) {
+        parts.push(`selector=${target.selector}`);
+    } else if (!target.fullPage) {
+        parts.push('viewport-only');
+    }
+    return parts.join(' ');
+}
+
+/**
+ * Named baselines on disk: one PNG per tile (or element shot) plus a
+ * manifest.json describing what each key holds.
+ */
+export class BaselineStore {
+    readonly directory: string;
+    private writes: Promise<unknown> = Promise.resolve();
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async get(key: string): Promise<BaselineEntry | undefined> {
+        const manifest = await this.readManifest();
+        return manifest.baselines[key];
+    }
+
+    async list(): Promise<BaselineEntry[]> {
+        const manifest = await this.readManifest();
+        return Object.values(manifest.baselines);
+    }
+
+    async save(
+        target: BaselineTarget,
+        images: BaselineImage[],
+        size: { fullWidth: number; fullHeight: number }
+    ): Promise<BaselineEntry> {
+        // Saves read-modify-write the manifest, so run them one at a time
+        const saved = this.writes.then(() =>
+            this.writeBaseline(target, images, size)
+        );
+        this.writes = saved.catch(() => {});
+        return saved;
+    }
+
+    async loadImages(entry: BaselineEntry): Promise<BaselineImage[]> {
+        return Promise.all(
+            entry.tiles.map(async ({ file, ...tile }) => {
+                try {
+                    return {
+                        ...tile,
+                        screenshot: await readFile(join(this.directory, file)),
+                    };
+                } catch (error) {
+                    throw new Error(
+                        `Baseline image ${file} for "${entry.key}" is missing, save the baseline again`,
+                        { cause: error }
+                    );
+                }
+            })
+        );
+    }
+
+    private async writeBaseline(
+        target: BaselineTarget,
+        images: BaselineImage[],
+        size: { fullWidth: number; fullHeight: number }
+    ): Promise<BaselineEntry> {
+        await mkdir(this.directory, { recursive: true });
+
+        const key = baselineKey(target);
+        const id = createHash('sha1').update(key).digest('hex').slice(0, 12);
+        const manifest = await this.readManifest();
+        const previous = manifest.baselines[key];
+        const now = new Date().toISOString();
+
+        const tiles = [];
+        for (const { screenshot, ...tile } of images) {
+            const file = `${id}-${tile.row}-${tile.col}.png`;
+            await writeFile(join(this.directory, file), screenshot);
+            tiles.push({ ...tile, file });
+        }
+
+        const entry: BaselineEntry = {
+            key,
+            url: target.url,
+            viewport: target.viewport,
+            fullPage: target.fullPage,
+            selector: target.selector,
+            device: target.device,
+            tiles,
+            fullWidth: size.fullWidth,
+            fullHeight: size.fullHeight,
+            createdAt: previous?.createdAt ?? now,
+            updatedAt: now,
+        };
+        manifest.baselines[key] = entry;
+        await this.writeManifest(manifest);
+
+        // Drop tiles the page no longer has, e.g. after it got shorter
+        const files = new Set(tiles.map(tile => tile.file));
+        for (const tile of previous?.tiles ?? []) {
+            if (!files.has(tile.file)) {
+                await unlink(join(this.directory, tile.file)).catch(() => {});
+            }
+        }
+
+        logger.info(`Saved baseline "${key}" with ${tiles.length} image(s)`);
+        return entry;
+    }
+
+    private async readManifest(): Promise<Manifest> {
+        const path = join(this.directory, MANIFEST_FILE);
+        let contents: string;
+        try {
+            contents = await readFile(path, 'utf-8');
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return { version: 1, baselines: {} };
+            }
+            throw error;
+        }
+
+        try {
+            return JSON.parse(contents) as Manifest;
+        } catch (error) {
+            throw new Error(`Baseline manifest ${path} is not valid JSON`, {
+                cause: error,
+            });
+        }
+    }
+
+    // Write to a temp file first so a crash never leaves a truncated manifest
+    private async writeManifest(manifest: Manifest): Promise<void> {
+        const path = join(this.directory, MANIFEST_FILE);
+        const tempPath = `${path}.${process.pid}.tmp`;
+        await writeFile(tempPath, JSON.stringify(manifest, null, 2));
+        await rename(tempPath, path);
+    }
+}
@@ -0,0 +1,303 @@
+import type {
+    ConsoleMessage as PageConsoleMessage,
+    ConsoleMessageLocation,
+    JSHandle,
+} from 'puppeteer';
+import type {
+    ConsoleCaptureOptions,
+    ConsoleLevel,
+    ConsoleMessage,
+    ConsoleMessageType,
+} from '../types.js';
+
+export const CONSOLE_LEVELS: ConsoleLevel[] = [
+    'error',
+    'warning',
+    'info',
+    'debug',
+];
+
+const MAX_ARG_DEPTH = 4; // Deeper objects are summarized as [Object] / [Array(n)]
+const MAX_ARG_ENTRIES = 100; // Keys or items serialized per object or array
+
+// Levels as DevTools groups them in its console filter
+export function consoleLevel(type: ConsoleMessageType): ConsoleLevel {
+    switch (type) {
+        case 'error':
+        case 'assert':
+        case 'pageerror':
+            return 'error';
+        case 'warn':
+            return 'warning';
+        case 'debug':
+        case 'verbose':
+            return 'debug';
+        default:
+            return 'info';
+    }
+}
+
+/**
+ * Turn a console argument into JSON. Runs inside the page, so it must not
+ * reference anything outside its own body. Values JSON cannot hold are
+ * described as strings, the way DevTools prints them: functions, DOM nodes,
+ * symbols, circular references and objects nested too deep.
+ */
+export function serializeConsoleValue(
+    value: unknown,
+    maxDepth: number,
+    maxEntries: number
+): unknown {
+    const seen = new WeakSet<object>();
+    const walk = (value: any, depth: number): unknown => {
+        switch (typeof value) {
+            case 'undefined':
+                return '[undefined]';
+            case 'number':
+                return Number.isFinite(value) ? value : String(value);
+            case 'bigint':
+                return `${value}n`;
+            case 'symbol':
+                return value.toString();
+            case 'function':
+                return `[Function: ${value.name || '(anonymous)'}]`;
+            case 'string':
+            case 'boolean':
+                return value;
+        }
+        if (value === null) {
+            return null;
+        }
+        if (
+            typeof value.nodeType === 'number' &&
+            typeof value.nodeName === 'string'
+        ) {
+            const id = value.id ? `#${value.id}` : '';
+            const classes =
+                typeof value.className === 'string' && value.className.trim()
+                    ? `.${value.className.trim().split(/\s+/).join('.')}`
+                    : '';
+            return value.nodeType === 1
+                ? `<${value.nodeName.toLowerCase()}${id}${classes}>`
+                : value.nodeName;
+        }
+        if (value instanceof Error) {
+            return {
+                name: value.name,
+                message: value.message,
+                stack: value.stack,
+            };
+        }
+        if (value instanceof Date) {
+            return Number.isNaN(value.getTime())
+                ? 'Invalid Date'
+                : value.toISOString();
+        }
+        if (value instanceof RegExp) {
+            return String(value);
+        }
+        if (seen.has(value)) {
+            return '[Circular]';
+        }
+        const entries: [unknown, unknown][] | null =
+            value instanceof Map
+                ? [...value.entries()]
+                : value instanceof Set
+                  ? [...value.values()].map((item, index) => [index, item])
+                  : null;
+        if (depth >= maxDepth) {
+            if (Array.isArray(value)) {
+                return `[Array(${value.length})]`;
+            }
+            return value instanceof Set ? `[Set(${value.size})]` : '[Object]';
+        }
+        seen.add(value);
+        try {
+            if (entries) {
+                const items = entries
+                    .slice(0, maxEntries)
+                    .map(([key, item]) =>
+                        value instanceof Map
+                            ? [walk(key, depth + 1), walk(item, depth + 1)]
+                            : walk(item, depth + 1)
+                    );
+                return value instanceof Map ? { '[Map]': items } : items;
+            }
+            if (Array.isArray(value)) {
+                const items = value
+                    .slice(0, maxEntries)
+                    .map(item => walk(item, depth + 1));
+                if (value.length > maxEntries) {
+                    items.push(`... ${value.length - maxEntries} more items`);
+                }
+                return items;
+            }
+            const result: Record<string, unknown> = {};
+            const keys = Object.keys(value);
+            for (const key of keys.slice(0, maxEntries)) {
+                try {
+                    result[key] = walk(value[key], depth + 1);
+                } catch {
+                    result[key] = '[Unreadable]'; // Throwing getters
+                }
+            }
+            if (keys.length > maxEntries) {
+                result['...'] = `${keys.length - maxEntries} more keys`;
+            }
+            return result;
+        } finally {
+            seen.delete(value);
+        }
+    };
+    return walk(value, 0);
+}
+
+// Serialize every argument, falling back to Puppeteer's handle description
+// when the page can no longer evaluate, e.g. after it navigated away
+async function serializeConsoleArgs(args: JSHandle[]): Promise<unknown[]> {
+    return Promise.all(
+        args.map(arg =>
+            arg
+                .evaluate(serializeConsoleValue, MAX_ARG_DEPTH, MAX_ARG_ENTRIES)
+                .catch(() => arg.toString())
+        )
+    );
+}
+
+function toLocation(
+    location: ConsoleMessageLocation
+): ConsoleMessage['location'] {
+    if (!location.url) {
+        return undefined;
+    }
+    // DevTools reports 0-based positions, editors and stack traces are 1-based
+    return {
+        url: location.url,
+        line:
+            location.lineNumber !== undefined
+                ? location.lineNumber + 1
+                : undefined,
+        column:
+            location.columnNumber !== undefined
+                ? location.columnNumber + 1
+                : undefined,
+    };
+}
+
+function formatStackTrace(
+    frames: ConsoleMessageLocation[]
+): string | undefined {
+    const lines = frames
+        .map(toLocation)
+        .filter(location => location !== undefined)
+        .map(
+            location =>
+                `    at ${location.url}:${location.line ?? '?'}:${location.column ?? '?'}`
+        );
+    return lines.length ? lines.join('\n') : undefined;
+}
+
+/**
+ * Convert a Puppeteer console message. The message is returned right away so
+ * messages keep their order; `args` are filled in once the page has
+ * serialized them, which the returned promise waits for.
+ */
+export function fromPageConsoleMessage(msg: PageConsoleMessage): {
+    message: ConsoleMessage;
+    serialized: Promise<void>;
+} {
+    const type = msg.type() as ConsoleMessageType;
+    const message: ConsoleMessage = {
+        type,
+        level: consoleLevel(type),
+        text: msg.text(),
+        timestamp: new Date(),
+        location: toLocation(msg.location()),
+        // Chrome attaches a stack to every message, only show it where
+        // DevTools does
+        stack: ['trace', 'assert', 'error'].includes(type)
+            ? formatStackTrace(msg.stackTrace())
+            : undefined,
+    };
+    const args = msg.args();
+    const serialized = args.length
+        ? serializeConsoleArgs(args).then(values => {
+              message.args = values;
+          })
+        : Promise.resolve();
+    return { message, serialized };
+}
+
+export function fromPageError(error: unknown): ConsoleMessage {
+    return {
+        type: 'pageerror',
+        level: 'error',
+        text: error instanceof Error ? error.message : String(error),
+        timestamp: new Date(),
+        stack: error instanceof Error ? error.stack : undefined,
+    };
+}
+
+/**
+ * Build the predicate for the `levels`, `pattern` and `excludePattern`
+ * options. Invalid options throw here, before the page is loaded. Patterns
+ * are case-insensitive and tested against the message text.
+ */
+export function createConsoleFilter(
+    options: Pick<
+        ConsoleCaptureOptions,
+        'levels' | 'pattern' | 'excludePattern'
+    >
+): (message: ConsoleMessage) => boolean {
+    const unknown = options.levels?.filter(
+        level => !CONSOLE_LEVELS.includes(level)
+    );
+    if (unknown?.length) {
+        throw new Error(
+            `Unknown console level "${unknown[0]}", expected any of ${CONSOLE_LEVELS.join(', ')}`
+        );
+    }
+    const compile = (name: string, pattern?: string) => {
+        if (!pattern) {
+            return undefined;
+        }
+        try {
+            return new RegExp(pattern, 'i');
+        } catch (error) {
+            throw new Error(
+                `Invalid "${name}" regular expression: ${error instanceof Error ? error.message : error}`
+            );
+        }
+    };
+    const include = compile('pattern', options.pattern);
+    const exclude = compile('excludePattern', options.excludePattern);
+    const levels = options.levels?.length ? options.levels : undefined;
+
+    return message =>
+        (!levels || levels.includes(message.level)) &&
+        (!include || include.test(message.text)) &&
+        !exclude?.test(message.text);
+}
+
+/**
+ * Collapse repeated messages with the same type, text and source location
+ * into the first occurrence, counting them in `count`.
+ */
+export function dedupeConsoleMessages(
+    messages: ConsoleMessage[]
+): ConsoleMessage[] {
+    const unique = new Map<string, ConsoleMessage>();
+    for (const message of messages) {
+        const location = message.location
+            ? `${message.location.url}:${message.location.line}:${message.location.column}`
+            : '';
+        const key = `${message.type}\n${message.text}\n${location}`;
+        const first = unique.get(key);
+        if (first) {
+            first.count = (first.count ?? 1) + 1;
+        } else {
+            unique.set(key, { ...message, count: 1 });
+        }
+    }
+    return [...unique.values()];
+}
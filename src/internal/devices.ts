@@ -0,0 +1,107 @@
+import { KnownDevices, type Viewport } from 'puppeteer';
+import type { DeviceEmulation } from '../types.js';
+
+export interface ResolvedDevice {
+    name?: string;
+    viewport: Viewport;
+    userAgent?: string;
+}
+
+// Short names for the devices people ask for most, mapped to Puppeteer's list
+const DEVICE_ALIASES: Record<string, string> = {
+    iphone: 'iPhone 15 Pro',
+    'iphone-max': 'iPhone 15 Pro Max',
+    'iphone-se': 'iPhone SE',
+    pixel: 'Pixel 5',
+    galaxy: 'Galaxy S9+',
+    ipad: 'iPad Pro 11',
+    'ipad-mini': 'iPad Mini',
+    'galaxy-tab': 'Galaxy Tab S4',
+};
+
+// Presets that keep the desktop layout but render at a higher pixel density
+const CUSTOM_DEVICES: Record<string, ResolvedDevice> = {
+    'desktop-hidpi': {
+        name: 'desktop-hidpi',
+        viewport: { width: 1072, height: 1072, deviceScaleFactor: 2 },
+    },
+};
+
+const LANDSCAPE_SUFFIX = /[\s-]landscape$/i;
+
+const knownDevicesByLowerName = new Map(
+    Object.entries(KnownDevices).map(([name, device]) => [
+        name.toLowerCase(),
+        { name, ...device },
+    ])
+);
+
+export function listDevicePresets(): string[] {
+    return [
+        ...Object.keys(DEVICE_ALIASES),
+        ...Object.keys(CUSTOM_DEVICES),
+        ...Object.keys(KnownDevices),
+    ];
+}
+
+function resolvePreset(name: string): ResolvedDevice {
+    const normalized = name.trim().toLowerCase();
+    const custom = CUSTOM_DEVICES[normalized];
+    if (custom) {
+        return custom;
+    }
+
+    const landscape = LANDSCAPE_SUFFIX.test(normalized);
+    const baseName = normalized.replace(LANDSCAPE_SUFFIX, '');
+    const knownName = (DEVICE_ALIASES[baseName] ?? baseName).toLowerCase();
+    const device = knownDevicesByLowerName.get(
+        landscape ? `${knownName} landscape` : knownName
+    );
+
+    if (!device) {
+        throw new Error(
+            `Unknown device "${name}". Use one of: ${Object.keys(DEVICE_ALIASES).join(', ')}, ${Object.keys(CUSTOM_DEVICES).join(', ')}, or a Puppeteer device name such as "iPhone 15 Pro" (add " landscape" to rotate)`
+        );
+    }
+
+    return {
+        name: device.name,
+        viewport: { ...device.viewport },
+        userAgent: device.userAgent,
+    };
+}
+
+/**
+ * Turn a `device` option into the viewport and user agent to emulate.
+ * Accepts a preset name or explicit emulation parameters.
+ */
+export function resolveDevice(
+    device: string | DeviceEmulation
+): ResolvedDevice {
+    if (typeof device === 'string') {
+        return resolvePreset(device);
+    }
+
+    if (
+        !Number.isFinite(device.width) ||
+        !Number.isFinite(device.height) ||
+        device.width <= 0 ||
+        device.height <= 0
+    ) {
+        throw new Error(
+            'Device emulation needs a positive "width" and "height"'
+        );
+    }
+
+    return {
+        viewport: {
+            width: device.width,
+            height: device.height,
+            deviceScaleFactor: device.deviceScaleFactor ?? 1,
+            isMobile: device.isMobile ?? false,
+            hasTouch: device.hasTouch ?? false,
+            isLandscape: device.isLandscape ?? false,
+        },
+        userAgent: device.userAgent,
+    };
+}
@@ -0,0 +1,55 @@
+import type { Page } from 'puppeteer';
+import type { ScreenshotOptions } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+const FIXED_ELEMENT_ATTRIBUTE = 'data-screenshot-fixed'; // Marks hidden fixed/sticky elements
+
+// Whether fixed elements should be hidden before capturing the tile at
+// `index`, counted in capture order. They stay in the first tile at most.
+export function shouldHideFixedElements(
+    mode: NonNullable<ScreenshotOptions['fixedElements']>,
+    index: number
+): boolean {
+    return mode === 'hide' || (mode === 'hide-after-first' && index > 0);
+}
+
+// Hide fixed and sticky elements (headers, banners, chat widgets) so they
+// don't repeat over the content of every tile. visibility keeps the layout
+// unchanged, so tile offsets stay valid. Returns how many were hidden.
+export async function hideFixedElements(page: Page): Promise<number> {
+    return page.evaluate((attribute: string) => {
+        const doc = (globalThis as any).document;
+        let count = 0;
+        for (const element of doc.body.querySelectorAll('*')) {
+            const { position } = (globalThis as any).getComputedStyle(element);
+            if (position === 'fixed' || position === 'sticky') {
+                element.setAttribute(attribute, '');
+                count++;
+            }
+        }
+
+        const style = doc.createElement('style');
+        style.id = attribute;
+        style.textContent = `[${attribute}] { visibility: hidden !important; }`;
+        doc.head.appendChild(style);
+        return count;
+    }, FIXED_ELEMENT_ATTRIBUTE);
+}
+
+// Undo hideFixedElements, pages can be reused by sessions
+export async function restoreFixedElements(page: Page): Promise<void> {
+    try {
+        await page.evaluate((attribute: string) => {
+            const doc = (globalThis as any).document;
+            doc.getElementById(attribute)?.remove();
+            for (const element of doc.querySelectorAll(`[${attribute}]`)) {
+                element.removeAttribute(attribute);
+            }
+        }, FIXED_ELEMENT_ATTRIBUTE);
+    } catch (error) {
+        logger.warn(
+            'Failed to restore fixed elements:',
+            error instanceof Error ? error.message : String(error)
+        );
+    }
+}
@@ -0,0 +1,169 @@
+import type { NetworkRequest } from '../types.js';
+import { redactHeaders } from '../utils/redact.js';
+
+interface HarHeader {
+    name: string;
+    value: string;
+}
+
+// Subset of HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/) that
+// the recorded requests can fill in
+export interface Har {
+    log: {
+        version: '1.2';
+        creator: { name: string; version: string };
+        pages: {
+            startedDateTime: string;
+            id: string;
+            title: string;
+            pageTimings: { onContentLoad: number; onLoad: number };
+        }[];
+        entries: {
+            pageref: string;
+            startedDateTime: string;
+            time: number;
+            request: {
+                method: string;
+                url: string;
+                httpVersion: string;
+                cookies: [];
+                headers: HarHeader[];
+                queryString: HarHeader[];
+                headersSize: -1;
+                bodySize: -1;
+            };
+            response: {
+                status: number;
+                statusText: string;
+                httpVersion: string;
+                cookies: [];
+                headers: HarHeader[];
+                content: { size: number; mimeType: string };
+                redirectURL: string;
+                headersSize: -1;
+                bodySize: number;
+                _error?: string;
+            };
+            cache: Record<string, never>;
+            timings: {
+                blocked: number;
+                dns: number;
+                connect: number;
+                ssl: number;
+                send: number;
+                wait: number;
+                receive: number;
+            };
+            _resourceType: string;
+            _blocked?: string;
+        }[];
+    };
+}
+
+const PAGE_ID = 'page_1';
+
+function toHeaders(
+    headers: Record<string, string> = {},
+    secretHeaders?: string[]
+): HarHeader[] {
+    return Object.entries(redactHeaders(headers, secretHeaders)).map(
+        ([name, value]) => ({ name, value })
+    );
+}
+
+function toQueryString(url: string): HarHeader[] {
+    try {
+        return [...new URL(url).searchParams].map(([name, value]) => ({
+            name,
+            value,
+        }));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Build a HAR 1.2 log of one page load. Requests without a response (failed
+ * or blocked) get status 0 and the reason in `_error`, as browser DevTools
+ * exports do. Body sizes come from Content-Length and are -1 when unknown.
+ * Auth and cookie headers are redacted, and so are `secretHeaders`, the
+ * names of the headers the caller passed in, since HARs get shared.
+ */
+export function buildHar(
+    page: { url: string; startedAt: Date },
+    requests: NetworkRequest[],
+    creator: { name: string; version: string },
+    secretHeaders?: string[]
+): Har {
+    return {
+        log: {
+            version: '1.2',
+            creator,
+            pages: [
+                {
+                    startedDateTime: page.startedAt.toISOString(),
+                    id: PAGE_ID,
+                    title: page.url,
+                    pageTimings: { onContentLoad: -1, onLoad: -1 },
+                },
+            ],
+            entries: requests.map(request => {
+                const timing = request.timing;
+                const time = request.duration ?? 0;
+                const error = request.blocked
+                    ? `Blocked: ${request.blocked}`
+                    : request.failure;
+                return {
+                    pageref: PAGE_ID,
+                    startedDateTime: request.startedAt.toISOString(),
+                    time,
+                    request: {
+                        method: request.method,
+                        url: request.url,
+                        httpVersion: '',
+                        cookies: [],
+                        headers: toHeaders(
+                            request.requestHeaders,
+                            secretHeaders
+                        ),
+                        queryString: toQueryString(request.url),
+                        headersSize: -1,
+                        bodySize: -1,
+                    },
+                    response: {
+                        status: request.status ?? 0,
+                        statusText: request.statusText ?? '',
+                        httpVersion: '',
+                        cookies: [],
+                        headers: toHeaders(
+                            request.responseHeaders,
+                            secretHeaders
+                        ),
+                        content: {
+                            size: request.size ?? -1,
+                            mimeType: request.mimeType ?? '',
+                        },
+                        redirectURL: request.responseHeaders?.location ?? '',
+                        headersSize: -1,
+                        bodySize: request.size ?? -1,
+                        ...(error ? { _error: error } : {}),
+                    },
+                    cache: {},
+                    timings: timing
+                        ? { blocked: -1, ...timing }
+                        : {
+                              blocked: -1,
+                              dns: -1,
+                              connect: -1,
+                              ssl: -1,
+                              send: 0,
+                              wait: time,
+                              receive: 0,
+                          },
+                    _resourceType: request.resourceType,
+                    ...(request.blocked ? { _blocked: request.blocked } : {}),
+                };
+            }),
+        },
+    };
+}
@@ -0,0 +1,244 @@
+import sharp from 'sharp';
+import type { DiffRegion } from '../types.js';
+
+export interface ImageDiffOptions {
+    threshold?: number; // Per-channel difference (0-1) tolerated, default 0.1
+    cellSize?: number; // Grid used to group changed pixels into regions, default 16
+}
+
+export interface ImageDiff {
+    width: number;
+    height: number;
+    mismatchedPixels: number;
+    totalPixels: number;
+    mismatchPercentage: number;
+    regions: DiffRegion[]; // In image pixels
+    diff: Buffer; // PNG
+}
+
+interface RawImage {
+    data: Buffer;
+    width: number;
+    height: number;
+}
+
+const DEFAULT_THRESHOLD = 0.1;
+const DEFAULT_CELL_SIZE = 16;
+const CHANGED_COLOR = [255, 0, 0];
+const REGION_COLOR = [255, 0, 255];
+
+async function decode(image: Buffer): Promise<RawImage> {
+    const { data, info } = await sharp(image)
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+}
+
+function isPixelChanged(
+    a: RawImage | null,
+    b: RawImage | null,
+    x: number,
+    y: number,
+    tolerance: number
+): boolean {
+    const inA = !!a && x < a.width && y < a.height;
+    const inB = !!b && x < b.width && y < b.height;
+    if (!inA || !inB) {
+        // Area covered by only one image always counts as changed
+        return inA !== inB;
+    }
+
+    const offsetA = (y * a!.width + x) * 4;
+    const offsetB = (y * b!.width + x) * 4;
+    for (let channel = 0; channel < 4; channel++) {
+        if (
+            Math.abs(a!.data[offsetA + channel] - b!.data[offsetB + channel]) >
+            tolerance
+        ) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Group changed cells into connected areas and shrink each to its changed pixels
+function findRegions(
+    cellBounds: (DiffRegion | null)[],
+    cols: number,
+    rows: number
+): DiffRegion[] {
+    const regions: DiffRegion[] = [];
+    const visited = new Uint8Array(cellBounds.length);
+
+    for (let start = 0; start < cellBounds.length; start++) {
+        if (!cellBounds[start] || visited[start]) continue;
+
+        let minX = Infinity;
+        let minY = Infinity;
+        let maxX = -Infinity;
+        let maxY = -Infinity;
+        const stack = [start];
+        visited[start] = 1;
+
+        while (stack.length > 0) {
+            const cell = stack.pop()!;
+            const bounds = cellBounds[cell]!;
+            minX = Math.min(minX, bounds.x);
+            minY = Math.min(minY, bounds.y);
+            maxX = Math.max(maxX, bounds.x + bounds.width);
+            maxY = Math.max(maxY, bounds.y + bounds.height);
+
+            const col = cell % cols;
+            const row = Math.floor(cell / cols);
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nextCol = col + dx;
+                    const nextRow = row + dy;
+                    if (
+                        nextCol < 0 ||
+                        nextRow < 0 ||
+                        nextCol >= cols ||
+                        nextRow >= rows
+                    ) {
+                        continue;
+                    }
+                    const next = nextRow * cols + nextCol;
+                    if (cellBounds[next] && !visited[next]) {
+                        visited[next] = 1;
+                        stack.push(next);
+                    }
+                }
+            }
+        }
+
+        regions.push({
+            x: minX,
+            y: minY,
+            width: maxX - minX,
+            height: maxY - minY,
+        });
+    }
+
+    return regions;
+}
+
+function drawOutline(
+    data: Buffer,
+    width: number,
+    height: number,
+    region: DiffRegion
+): void {
+    const paint = (x: number, y: number) => {
+        if (x < 0 || y < 0 || x >= width || y >= height) return;
+        const offset = (y * width + x) * 4;
+        data[offset] = REGION_COLOR[0];
+        data[offset + 1] = REGION_COLOR[1];
+        data[offset + 2] = REGION_COLOR[2];
+        data[offset + 3] = 255;
+    };
+
+    const left = region.x - 1;
+    const top = region.y - 1;
+    const right = region.x + region.width;
+    const bottom = region.y + region.height;
+    for (let x = left; x <= right; x++) {
+        paint(x, top);
+        paint(x, bottom);
+    }
+    for (let y = top; y <= bottom; y++) {
+        paint(left, y);
+        paint(right, y);
+    }
+}
+
+/**
+ * Compare two images pixel by pixel. Images of different sizes are compared
+ * over the larger of the two, with the uncovered area counted as changed.
+ * Pass null for a side that has no image at all (e.g. a tile that only
+ * exists on one page). The diff image is `current` faded to grey with
+ * changed pixels in red and each changed region outlined.
+ */
+export async function diffImages(
+    baseline: Buffer | null,
+    current: Buffer | null,
+    options: ImageDiffOptions = {}
+): Promise<ImageDiff> {
+    if (!baseline && !current) {
+        throw new Error('diffImages needs at least one image');
+    }
+
+    const tolerance = (options.threshold ?? DEFAULT_THRESHOLD) * 255;
+    const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+
+    const a = baseline ? await decode(baseline) : null;
+    const b = current ? await decode(current) : null;
+    const width = Math.max(a?.width ?? 0, b?.width ?? 0);
+    const height = Math.max(a?.height ?? 0, b?.height ?? 0);
+    const background = b ?? a!;
+
+    const cols = Math.ceil(width / cellSize);
+    const rows = Math.ceil(height / cellSize);
+    const cellBounds: (DiffRegion | null)[] = new Array(cols * rows).fill(null);
+    const output = Buffer.alloc(width * height * 4, 255);
+    let mismatchedPixels = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const offset = (y * width + x) * 4;
+
+            if (isPixelChanged(a, b, x, y, tolerance)) {
+                mismatchedPixels++;
+                output[offset] = CHANGED_COLOR[0];
+                output[offset + 1] = CHANGED_COLOR[1];
+                output[offset + 2] = CHANGED_COLOR[2];
+
+                const cell =
+                    Math.floor(y / cellSize) * cols + Math.floor(x / cellSize);
+                const bounds = cellBounds[cell];
+                if (!bounds) {
+                    cellBounds[cell] = { x, y, width: 1, height: 1 };
+                } else {
+                    const right = Math.max(bounds.x + bounds.width, x + 1);
+                    const bottom = Math.max(bounds.y + bounds.height, y + 1);
+                    bounds.x = Math.min(bounds.x, x);
+                    bounds.y = Math.min(bounds.y, y);
+                    bounds.width = right - bounds.x;
+                    bounds.height = bottom - bounds.y;
+                }
+            } else if (x < background.width && y < background.height) {
+                // Faded greyscale keeps the layout readable behind the changes
+                const source = (y * background.width + x) * 4;
+                const grey =
+                    0.3 * background.data[source] +
+                    0.59 * background.data[source + 1] +
+                    0.11 * background.data[source + 2];
+                const faded = Math.round(255 - (255 - grey) * 0.3);
+                output[offset] = faded;
+                output[offset + 1] = faded;
+                output[offset + 2] = faded;
+            }
+        }
+    }
+
+    const regions = findRegions(cellBounds, cols, rows);
+    for (const region of regions) {
+        drawOutline(output, width, height, region);
+    }
+
+    const diff = await sharp(output, { raw: { width, height, channels: 4 } })
+        .png()
+        .toBuffer();
+    const totalPixels = width * height;
+
+    return {
+        width,
+        height,
+        mismatchedPixels,
+        totalPixels,
+        mismatchPercentage:
+            totalPixels > 0 ? (mismatchedPixels / totalPixels) * 100 : 0,
+        regions,
+        diff,
+    };
+}
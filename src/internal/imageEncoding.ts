@@ -0,0 +1,98 @@
+import sharp from 'sharp';
+import type { ImageEncodingOptions, ImageFormat } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+// sharp's own defaults, the starting point when a budget forces re-encoding
+const DEFAULT_QUALITY: Record<ImageFormat, number> = {
+    png: 100,
+    jpeg: 80,
+    webp: 80,
+    avif: 50,
+};
+const MIN_QUALITY = 30;
+const QUALITY_STEP = 10;
+const SCALE_STEP = 0.8;
+const MIN_WIDTH = 64;
+
+async function encode(
+    image: Buffer,
+    format: ImageFormat,
+    quality: number | undefined,
+    width?: number
+): Promise<Buffer> {
+    let pipeline = sharp(image);
+    if (width) {
+        pipeline = pipeline.resize({ width });
+    }
+
+    switch (format) {
+        case 'png':
+            // PNG is lossless, a quality means quantizing to a palette
+            return pipeline
+                .png(
+                    quality === undefined
+                        ? { compressionLevel: 9 }
+                        : { compressionLevel: 9, palette: true, quality }
+                )
+                .toBuffer();
+        case 'jpeg':
+            return pipeline.jpeg({ quality, mozjpeg: true }).toBuffer();
+        case 'webp':
+            return pipeline.webp({ quality }).toBuffer();
+        case 'avif':
+            return pipeline.avif({ quality }).toBuffer();
+    }
+}
+
+/**
+ * Re-encode a PNG capture in the requested format. With `maxBytes` the
+ * quality is lowered step by step and then the image is scaled down until
+ * it fits, failing only when even a tiny version is too large.
+ */
+export async function encodeImage(
+    png: Buffer,
+    options: ImageEncodingOptions = {}
+): Promise<Buffer> {
+    const format = options.format ?? 'png';
+    const { maxBytes } = options;
+    const fits = (image: Buffer) => !maxBytes || image.length <= maxBytes;
+
+    if (format === 'png' && options.quality === undefined && fits(png)) {
+        return png;
+    }
+
+    let encoded = await encode(png, format, options.quality);
+    if (fits(encoded)) {
+        return encoded;
+    }
+
+    // Over budget: trade quality first, then resolution
+    let quality = options.quality ?? DEFAULT_QUALITY[format];
+    while (quality > MIN_QUALITY) {
+        quality = Math.max(MIN_QUALITY, quality - QUALITY_STEP);
+        encoded = await encode(png, format, quality);
+        if (fits(encoded)) {
+            logger.debug(
+                `Encoded ${format} at quality ${quality} to fit ${maxBytes} bytes`
+            );
+            return encoded;
+        }
+    }
+
+    const { width = 0 } = await sharp(png).metadata();
+    let scaledWidth = width;
+    while (scaledWidth > MIN_WIDTH) {
+        scaledWidth = Math.max(MIN_WIDTH, Math.round(scaledWidth * SCALE_STEP));
+        encoded = await encode(png, format, quality, scaledWidth);
+        if (fits(encoded)) {
+            logger.debug(
+                `Downscaled ${format} from ${width}px to ${scaledWidth}px wide to fit ${maxBytes} bytes`
+            );
+            return encoded;
+        }
+    }
+
+    throw new Error(
+        `Could not encode a ${width}px wide image as ${format} in ${maxBytes} bytes, raise "maxBytes" or capture a smaller area`
+    );
+}
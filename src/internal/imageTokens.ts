@@ -0,0 +1,130 @@
+import sharp from 'sharp';
+import type { VisionModel } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+interface VisionModelProfile {
+    // Image tokens the model charges for an image of this size
+    estimate(width: number, height: number): number;
+    // Scale (<= 1) the model would shrink an image by before looking at it
+    nativeScale(width: number, height: number): number;
+}
+
+// Published sizing rules of each provider, as of their current vision docs
+const VISION_MODELS: Record<VisionModel, VisionModelProfile> = {
+    // ~750 pixels per token, resized past a 1568px edge or ~1.15 megapixels
+    claude: {
+        estimate: (width, height) => Math.ceil((width * height) / 750),
+        nativeScale: (width, height) =>
+            Math.min(
+                1,
+                1568 / Math.max(width, height),
+                Math.sqrt(1_150_000 / (width * height))
+            ),
+    },
+    // 85 base + 170 per 512px tile, after fitting 2048px and a 768px short side
+    'gpt-4o': {
+        estimate: (width, height) =>
+            85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512),
+        nativeScale: (width, height) =>
+            Math.min(
+                1,
+                2048 / Math.max(width, height),
+                768 / Math.min(width, height)
+            ),
+    },
+    // 258 for small images, otherwise 258 per 768px tile
+    gemini: {
+        estimate: (width, height) =>
+            width <= 384 && height <= 384
+                ? 258
+                : 258 * Math.ceil(width / 768) * Math.ceil(height / 768),
+        nativeScale: () => 1,
+    },
+};
+
+export const DEFAULT_VISION_MODEL: VisionModel = 'claude';
+const SCALE_STEP = 0.95;
+const MIN_EDGE = 16;
+
+export interface TokenBudgetOptions {
+    targetModel?: VisionModel;
+    maxImageTokens?: number;
+}
+
+function profile(model: VisionModel = DEFAULT_VISION_MODEL) {
+    const found = VISION_MODELS[model];
+    if (!found) {
+        throw new Error(
+            `Unknown target model "${model}", expected one of: ${Object.keys(VISION_MODELS).join(', ')}`
+        );
+    }
+    return found;
+}
+
+export function estimateImageTokens(
+    width: number,
+    height: number,
+    model?: VisionModel
+): number {
+    return profile(model).estimate(width, height);
+}
+
+/**
+ * Pixel size to send so the target model doesn't shrink the image itself
+ * and its estimated cost stays within `maxImageTokens`.
+ */
+export function tokenBudgetSize(
+    width: number,
+    height: number,
+    options: TokenBudgetOptions
+): { width: number; height: number } {
+    const model = profile(options.targetModel);
+    let scale = options.targetModel ? model.nativeScale(width, height) : 1;
+    const size = () => ({
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale)),
+    });
+
+    const budget = options.maxImageTokens;
+    if (budget) {
+        while (model.estimate(size().width, size().height) > budget) {
+            if (Math.min(size().width, size().height) <= MIN_EDGE) {
+                throw new Error(
+                    `No image size fits in ${budget} tokens for ${options.targetModel ?? DEFAULT_VISION_MODEL}, raise "maxImageTokens"`
+                );
+            }
+            scale *= SCALE_STEP;
+        }
+    }
+    return size();
+}
+
+// Downscale a PNG capture to its token budget, untouched when it already fits
+export async function fitTokenBudget(
+    png: Buffer,
+    options: TokenBudgetOptions
+): Promise<Buffer> {
+    if (!options.targetModel && !options.maxImageTokens) {
+        return png;
+    }
+
+    const { width = 0, height = 0 } = await sharp(png).metadata();
+    const target = tokenBudgetSize(width, height, options);
+    if (target.width >= width && target.height >= height) {
+        return png;
+    }
+
+    logger.debug(
+        `Resizing ${width}x${height} to ${target.width}x${target.height} for the image token budget`
+    );
+    return sharp(png).resize(target.width, target.height).png().toBuffer();
+}
+
+// Estimated cost of an encoded image, read from its header
+export async function measureImageTokens(
+    image: Buffer,
+    model?: VisionModel
+): Promise<number> {
+    const { width = 0, height = 0 } = await sharp(image).metadata();
+    return estimateImageTokens(width, height, model);
+}
@@ -0,0 +1,128 @@
+import type { HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+import type { NetworkRequest, NetworkSummary } from '../types.js';
+
+const DEFAULT_MAX_ENTRIES = 2000; // Long-lived session pages keep only the latest requests
+
+// Request phases in milliseconds from the DevTools resource timing, -1 when unknown
+function phaseTimings(
+    response: HTTPResponse,
+    duration: number
+): NetworkRequest['timing'] {
+    const timing = response.timing();
+    if (!timing) {
+        return undefined;
+    }
+    const span = (start: number, end: number) =>
+        start >= 0 && end >= start ? end - start : -1;
+    const wait = span(timing.sendEnd, timing.receiveHeadersEnd);
+    return {
+        dns: span(timing.dnsStart, timing.dnsEnd),
+        connect: span(timing.connectStart, timing.connectEnd),
+        ssl: span(timing.sslStart, timing.sslEnd),
+        send: Math.max(span(timing.sendStart, timing.sendEnd), 0),
+        wait: Math.max(wait, 0),
+        receive: Math.max(duration - timing.receiveHeadersEnd, 0),
+    };
+}
+
+/**
+ * Records every request a page makes: status, timings, sizes, failed loads
+ * and requests the capture itself aborted. One recorder lives for the whole
+ * life of a page; captures clear it before they navigate.
+ */
+export class NetworkRecorder {
+    private readonly requests = new Map<HTTPRequest, NetworkRequest>();
+    private readonly maxEntries: number;
+
+    constructor(options: { maxEntries?: number } = {}) {
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    }
+
+    attach(page: Page): void {
+        page.on('request', request => this.entry(request))
+            .on('requestfinished', request => this.finish(request))
+            .on('requestfailed', request => this.fail(request));
+    }
+
+    // Record why the capture aborted a request, before it is aborted
+    markBlocked(request: HTTPRequest, reason: string): void {
+        this.entry(request).blocked = reason;
+    }
+
+    clear(): void {
+        this.requests.clear();
+    }
+
+    list(): NetworkRequest[] {
+        return [...this.requests.values()];
+    }
+
+    private entry(request: HTTPRequest): NetworkRequest {
+        let entry = this.requests.get(request);
+        if (!entry) {
+            entry = {
+                url: request.url(),
+                method: request.method(),
+                resourceType: request.resourceType(),
+                startedAt: new Date(),
+                requestHeaders: request.headers(),
+            };
+            this.requests.set(request, entry);
+            if (this.requests.size > this.maxEntries) {
+                // Maps iterate in insertion order, so the first key is the oldest
+                this.requests.delete(this.requests.keys().next().value!);
+            }
+        }
+        return entry;
+    }
+
+    private finish(request: HTTPRequest): void {
+        const entry = this.entry(request);
+        const response = request.response();
+        entry.duration = Date.now() - entry.startedAt.getTime();
+        if (!response) {
+            return;
+        }
+        const headers = response.headers();
+        const contentLength = parseInt(headers['content-length'] ?? '', 10);
+        entry.status = response.status();
+        entry.statusText = response.statusText();
+        entry.mimeType = headers['content-type']?.split(';')[0].trim();
+        entry.responseHeaders = headers;
+        entry.size = Number.isNaN(contentLength) ? undefined : contentLength;
+        entry.fromCache = response.fromCache();
+        entry.timing = phaseTimings(response, entry.duration);
+    }
+
+    private fail(request: HTTPRequest): void {
+        const entry = this.entry(request);
+        entry.duration = Date.now() - entry.startedAt.getTime();
+        entry.failure = request.failure()?.errorText ?? 'Request failed';
+        const response = request.response();
+        if (response) {
+            entry.status = response.status();
+            entry.statusText = response.statusText();
+        }
+    }
+}
+
+export function summarizeNetwork(requests: NetworkRequest[]): NetworkSummary {
+    const byType: Record<string, number> = {};
+    for (const request of requests) {
+        byType[request.resourceType] = (byType[request.resourceType] ?? 0) + 1;
+    }
+    return {
+        requests: requests.length,
+        failed: requests.filter(request => request.failure && !request.blocked)
+            .length,
+        blocked: requests.filter(request => request.blocked).length,
+        errorResponses: requests.filter(
+            request => request.status !== undefined && request.status >= 400
+        ).length,
+        totalBytes: requests.reduce(
+            (total, request) => total + (request.size ?? 0),
+            0
+        ),
+        byType,
+    };
+}
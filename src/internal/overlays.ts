@@ -0,0 +1,202 @@
+import type { Page } from 'puppeteer';
+import type { DismissedOverlay } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+export interface OverlayRule {
+    name: string;
+    accept?: string; // Button that dismisses the overlay, clicked first
+    container: string; // Hidden when it is still visible afterwards
+}
+
+// Consent managers seen most on third-party sites. Callers extend this with
+// their own selectors through `overlaySelectors`.
+export const DEFAULT_OVERLAY_RULES: OverlayRule[] = [
+    {
+        name: 'OneTrust',
+        accept: '#onetrust-accept-btn-handler',
+        container: '#onetrust-consent-sdk',
+    },
+    {
+        name: 'Cookiebot',
+        accept: '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+        container: '#CybotCookiebotDialog',
+    },
+    {
+        name: 'Quantcast Choice',
+        accept: '.qc-cmp2-summary-buttons button[mode="primary"]',
+        container: '#qc-cmp2-container',
+    },
+    {
+        name: 'Didomi',
+        accept: '#didomi-notice-agree-button',
+        container: '#didomi-host',
+    },
+    {
+        name: 'TrustArc',
+        accept: '#truste-consent-button',
+        container: '#truste-consent-track',
+    },
+    {
+        name: 'Osano',
+        accept: '.osano-cm-accept-all',
+        container: '.osano-cm-window',
+    },
+    {
+        name: 'Cookie Consent',
+        accept: '.cc-window .cc-allow',
+        container: '.cc-window',
+    },
+    {
+        name: 'Klaro',
+        accept: '.klaro .cm-btn-accept-all',
+        container: '.klaro',
+    },
+    { name: 'Usercentrics', container: '#usercentrics-root' },
+    { name: 'Sourcepoint', container: '[id^="sp_message_container"]' },
+    { name: 'Google Funding Choices', container: '.fc-consent-root' },
+    { name: 'Complianz', container: '#cmplz-cookiebanner-container' },
+    { name: 'Termly', container: '#termly-code-snippet-support' },
+];
+
+const MIN_OVERLAY_Z_INDEX = 1000;
+const MIN_VIEWPORT_COVERAGE = 0.3; // Share of the viewport a blocking overlay covers
+const CLICK_SETTLE_MS = 500; // Consent managers animate out after a click
+
+/**
+ * Click away or hide consent banners and modal overlays: the known consent
+ * managers, `aria-modal` dialogs and fixed layers with a high z-index that
+ * cover a large part of the viewport. Returns what was removed.
+ */
+export async function dismissOverlays(
+    page: Page,
+    extraSelectors: string[] = []
+): Promise<DismissedOverlay[]> {
+    const rules = [
+        ...DEFAULT_OVERLAY_RULES,
+        ...extraSelectors.map(selector => ({
+            name: 'custom',
+            container: selector,
+        })),
+    ];
+
+    const dismissed: DismissedOverlay[] = await page.evaluate(
+        (rules: OverlayRule[], minZIndex: number, minCoverage: number) => {
+            const win = globalThis as any;
+            const doc = win.document;
+            const found: DismissedOverlay[] = [];
+
+            const isVisible = (element: any) => {
+                const style = win.getComputedStyle(element);
+                const rect = element.getBoundingClientRect();
+                return (
+                    style.display !== 'none' &&
+                    style.visibility !== 'hidden' &&
+                    rect.width > 0 &&
+                    rect.height > 0
+                );
+            };
+            const hide = (element: any) =>
+                element.style.setProperty('display', 'none', 'important');
+            const describe = (element: any) =>
+                element.id
+                    ? `#${element.id}`
+                    : element.getAttribute('role')
+                      ? `${element.tagName.toLowerCase()}[role="${element.getAttribute('role')}"]`
+                      : element.tagName.toLowerCase();
+
+            for (const rule of rules) {
+                const button = rule.accept && doc.querySelector(rule.accept);
+                if (button && isVisible(button)) {
+                    button.click();
+                    found.push({
+                        name: rule.name,
+                        selector: rule.accept!,
+                        action: 'clicked',
+                    });
+                    continue;
+                }
+                for (const element of doc.querySelectorAll(rule.container)) {
+                    if (isVisible(element)) {
+                        hide(element);
+                        found.push({
+                            name: rule.name,
+                            selector: rule.container,
+                            action: 'hidden',
+                        });
+                    }
+                }
+            }
+
+            // Modal dialogs announced to assistive technology
+            for (const element of doc.querySelectorAll('[aria-modal="true"]')) {
+                if (isVisible(element)) {
+                    hide(element);
+                    found.push({
+                        name: 'modal dialog',
+                        selector: describe(element),
+                        action: 'hidden',
+                    });
+                }
+            }
+
+            // Fixed layers stacked above the page covering much of the viewport
+            const viewportArea = win.innerWidth * win.innerHeight;
+            for (const element of doc.body.querySelectorAll('*')) {
+                const style = win.getComputedStyle(element);
+                if (
+                    style.position !== 'fixed' ||
+                    !(parseInt(style.zIndex, 10) >= minZIndex) ||
+                    !isVisible(element)
+                ) {
+                    continue;
+                }
+                const rect = element.getBoundingClientRect();
+                const width =
+                    Math.min(rect.right, win.innerWidth) -
+                    Math.max(rect.left, 0);
+                const height =
+                    Math.min(rect.bottom, win.innerHeight) -
+                    Math.max(rect.top, 0);
+                if (
+                    width > 0 &&
+                    height > 0 &&
+                    (width * height) / viewportArea >= minCoverage
+                ) {
+                    hide(element);
+                    found.push({
+                        name: 'overlay',
+                        selector: describe(element),
+                        action: 'hidden',
+                    });
+                }
+            }
+
+            // Consent dialogs often lock scrolling until they are answered
+            if (found.length > 0) {
+                for (const element of [doc.documentElement, doc.body]) {
+                    if (win.getComputedStyle(element).overflow === 'hidden') {
+                        element.style.setProperty(
+                            'overflow',
+                            'visible',
+                            'important'
+                        );
+                    }
+                }
+            }
+            return found;
+        },
+        rules,
+        MIN_OVERLAY_Z_INDEX,
+        MIN_VIEWPORT_COVERAGE
+    );
+
+    if (dismissed.some(overlay => overlay.action === 'clicked')) {
+        await new Promise(resolve => setTimeout(resolve, CLICK_SETTLE_MS));
+    }
+    if (dismissed.length > 0) {
+        logger.info(
+            `Dismissed ${dismissed.length} overlays: ${dismissed.map(overlay => overlay.name).join(', ')}`
+        );
+    }
+    return dismissed;
+}
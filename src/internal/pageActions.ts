@@ -0,0 +1,184 @@
+import type { KeyInput, Page } from 'puppeteer';
+import type { PageAction } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_ACTION_TIMEOUT_MS = 5000;
+
+function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Short human-readable label used in logs and error messages
+export function describeAction(action: PageAction): string {
+    switch (action.type) {
+        case 'click':
+        case 'hover':
+            return `${action.type} "${action.selector}"`;
+        case 'type':
+            return `type into "${action.selector}"`;
+        case 'press':
+            return action.selector
+                ? `press ${action.key} in "${action.selector}"`
+                : `press ${action.key}`;
+        case 'scroll':
+            return action.selector
+                ? `scroll to "${action.selector}"`
+                : `scroll to ${action.x ?? 0},${action.y ?? 0}`;
+        case 'select':
+            return `select in "${action.selector}"`;
+        case 'waitForSelector':
+            return `wait for "${action.selector}" to ${action.hidden ? 'disappear' : 'appear'}`;
+        case 'waitForNavigation':
+            return 'wait for navigation';
+        default:
+            return `unknown action ${JSON.stringify((action as any)?.type)}`;
+    }
+}
+
+async function waitForElement(page: Page, selector: string, timeout: number) {
+    const element = await page.waitForSelector(selector, {
+        visible: true,
+        timeout,
+    });
+    if (!element) {
+        throw new Error(`Selector "${selector}" was not found`);
+    }
+    return element;
+}
+
+async function runAction(page: Page, action: PageAction): Promise<void> {
+    const timeout = action.timeout ?? DEFAULT_ACTION_TIMEOUT_MS;
+
+    switch (action.type) {
+        case 'click': {
+            const element = await waitForElement(
+                page,
+                action.selector,
+                timeout
+            );
+            await element.click();
+            return;
+        }
+        case 'type': {
+            const element = await waitForElement(
+                page,
+                action.selector,
+                timeout
+            );
+            await element.type(action.text, { delay: action.delay });
+            return;
+        }
+        case 'press': {
+            if (action.selector) {
+                const element = await waitForElement(
+                    page,
+                    action.selector,
+                    timeout
+                );
+                await element.press(action.key as KeyInput);
+            } else {
+                await page.keyboard.press(action.key as KeyInput);
+            }
+            return;
+        }
+        case 'hover': {
+            const element = await waitForElement(
+                page,
+                action.selector,
+                timeout
+            );
+            await element.hover();
+            return;
+        }
+        case 'scroll': {
+            if (action.selector) {
+                const element = await waitForElement(
+                    page,
+                    action.selector,
+                    timeout
+                );
+                await element.scrollIntoView();
+            } else {
+                await page.evaluate(
+                    (x, y) => (globalThis as any).scrollTo(x, y),
+                    action.x ?? 0,
+                    action.y ?? 0
+                );
+            }
+            return;
+        }
+        case 'select': {
+            await waitForElement(page, action.selector, timeout);
+            const values = Array.isArray(action.values)
+                ? action.values
+                : [action.values];
+            const selected = await page.select(action.selector, ...values);
+            if (selected.length === 0) {
+                throw new Error(
+                    `No option matching ${JSON.stringify(action.values)}`
+                );
+            }
+            return;
+        }
+        case 'waitForSelector':
+            await page.waitForSelector(action.selector, {
+                visible: !action.hidden,
+                hidden: !!action.hidden,
+                timeout,
+            });
+            return;
+        case 'waitForNavigation':
+            await page.waitForNavigation({
+                waitUntil: action.waitUntil || 'domcontentloaded',
+                timeout,
+            });
+            return;
+        default:
+            throw new Error('Unsupported action type');
+    }
+}
+
+/**
+ * Run interaction steps in order. A `waitForNavigation` step starts listening
+ * before the step in front of it runs, so a click that navigates right away
+ * is not missed.
+ */
+export async function runActions(
+    page: Page,
+    actions: PageAction[]
+): Promise<void> {
+    let pendingNavigation: Promise<unknown> | null = null;
+
+    for (let i = 0; i < actions.length; i++) {
+        const action = actions[i];
+        const label = `Action ${i + 1}/${actions.length} (${describeAction(action)})`;
+        logger.info(`Running ${label}`);
+
+        try {
+            const next = actions[i + 1];
+            const navigation =
+                action.type === 'waitForNavigation' ? pendingNavigation : null;
+
+            if (
+                next?.type === 'waitForNavigation' &&
+                action.type !== 'waitForNavigation'
+            ) {
+                pendingNavigation = runAction(page, next);
+                // Surfaced when the waitForNavigation step itself runs
+                pendingNavigation.catch(() => {});
+            } else {
+                pendingNavigation = null;
+            }
+
+            if (navigation) {
+                await navigation;
+            } else {
+                await runAction(page, action);
+            }
+        } catch (error) {
+            throw new Error(`${label} failed: ${getErrorMessage(error)}`, {
+                cause: error,
+            });
+        }
+    }
+}
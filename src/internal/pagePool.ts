@@ -0,0 +1,152 @@
+import type { Browser, Page } from 'puppeteer';
+import { logger } from '../utils/logger.js';
+
+export interface PagePoolOptions {
+    maxPages: number; // Maximum number of pages leased at the same time
+    maxIdlePages?: number; // Maximum number of recycled pages kept for reuse
+    createPage: (browser: Browser) => Promise<Page>;
+    // Prepare a released page for the next lease; may return a replacement
+    recyclePage: (page: Page) => Promise<Page>;
+    closePage?: (page: Page) => Promise<void>;
+}
+
+export interface PagePoolStats {
+    maxPages: number;
+    leased: number;
+    idle: number;
+    queued: number;
+}
+
+/**
+ * Bounded pool of pre-configured pages.
+ *
+ * At most `maxPages` pages are leased at once; callers past the limit wait in
+ * FIFO order. Released pages are recycled and kept for the next caller instead
+ * of being closed, as long as they still belong to a connected browser.
+ */
+export class PagePool {
+    private options: Required<PagePoolOptions>;
+    private idle: Page[] = [];
+    private leased = new Set<Page>();
+    private waiters: (() => void)[] = [];
+    private activeSlots = 0;
+
+    constructor(options: PagePoolOptions) {
+        if (!Number.isInteger(options.maxPages) || options.maxPages < 1) {
+            throw new Error(
+                `Page pool size must be a positive integer, got ${options.maxPages}`
+            );
+        }
+
+        this.options = {
+            ...options,
+            maxIdlePages: options.maxIdlePages ?? options.maxPages,
+            closePage:
+                options.closePage ?? (page => page.close().catch(() => {})),
+        };
+    }
+
+    async acquire(browser: Browser): Promise<Page> {
+        await this.acquireSlot();
+
+        try {
+            const page =
+                this.takeIdlePage(browser) ??
+                (await this.options.createPage(browser));
+            this.leased.add(page);
+            logger.debug('Page leased from pool', this.stats());
+            return page;
+        } catch (error) {
+            this.releaseSlot();
+            throw error;
+        }
+    }
+
+    async release(
+        page: Page,
+        options: { discard?: boolean } = {}
+    ): Promise<void> {
+        if (!this.leased.delete(page)) {
+            return;
+        }
+
+        try {
+            if (
+                !options.discard &&
+                this.isUsable(page) &&
+                this.idle.length < this.options.maxIdlePages
+            ) {
+                this.idle.push(await this.options.recyclePage(page));
+            } else {
+                await this.options.closePage(page);
+            }
+        } catch (error) {
+            logger.warn('Failed to recycle pooled page, closing it:', error);
+            await this.options.closePage(page);
+        } finally {
+            this.releaseSlot();
+            logger.debug('Page returned to pool', this.stats());
+        }
+    }
+
+    // True if the page is currently leased or waiting idle in the pool
+    owns(page: Page): boolean {
+        return this.leased.has(page) || this.idle.includes(page);
+    }
+
+    // Close all idle pages (leased pages are closed by their holders)
+    async drain(): Promise<void> {
+        const pages = this.idle;
+        this.idle = [];
+        await Promise.all(pages.map(page => this.options.closePage(page)));
+    }
+
+    stats(): PagePoolStats {
+        return {
+            maxPages: this.options.maxPages,
+            leased: this.leased.size,
+            idle: this.idle.length,
+            queued: this.waiters.length,
+        };
+    }
+
+    private takeIdlePage(browser: Browser): Page | undefined {
+        while (this.idle.length > 0) {
+            const page = this.idle.shift()!;
+            if (this.isUsable(page) && page.browser() === browser) {
+                return page;
+            }
+            this.options.closePage(page).catch(() => {});
+        }
+        return undefined;
+    }
+
+    private isUsable(page: Page): boolean {
+        return !page.isClosed() && page.browser().isConnected();
+    }
+
+    private acquireSlot(): Promise<void> {
+        if (
+            this.activeSlots < this.options.maxPages &&
+            this.waiters.length === 0
+        ) {
+            this.activeSlots++;
+            return Promise.resolve();
+        }
+
+        logger.debug(
+            `Page pool exhausted (${this.options.maxPages} pages), queueing request`
+        );
+        return new Promise(resolve => this.waiters.push(resolve));
+    }
+
+    private releaseSlot(): void {
+        const next = this.waiters.shift();
+        if (next) {
+            // Hand the slot straight to the oldest waiter
+            next();
+        } else {
+            this.activeSlots--;
+        }
+    }
+}
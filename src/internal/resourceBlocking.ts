@@ -0,0 +1,58 @@
+import type {
+    BlockedRequest,
+    NetworkRequest,
+    RequestOptions,
+} from '../types.js';
+
+export const DEFAULT_BLOCKED_RESOURCE_TYPES = ['font', 'media']; // Slow or flaky to load and rarely change a screenshot
+
+// Puppeteer resource types a capture may block; documents never are
+const RESOURCE_TYPES = [
+    'stylesheet',
+    'image',
+    'media',
+    'font',
+    'script',
+    'texttrack',
+    'xhr',
+    'fetch',
+    'prefetch',
+    'eventsource',
+    'websocket',
+    'manifest',
+    'signedexchange',
+    'ping',
+    'cspviolationreport',
+    'preflight',
+    'other',
+];
+
+/**
+ * Resource types to abort for a capture: `blockedResourceTypes`, or fonts
+ * and media by default, without fonts when `allowFonts` is set. Throws on
+ * types Puppeteer doesn't report.
+ */
+export function resolveBlockedResourceTypes(options: RequestOptions): string[] {
+    const types =
+        options.blockedResourceTypes ?? DEFAULT_BLOCKED_RESOURCE_TYPES;
+    const unknown = types.filter(type => !RESOURCE_TYPES.includes(type));
+    if (unknown.length > 0) {
+        throw new Error(
+            `Cannot block resource types ${unknown.map(type => `"${type}"`).join(', ')}, expected any of ${RESOURCE_TYPES.join(', ')}`
+        );
+    }
+    return options.allowFonts ? types.filter(type => type !== 'font') : types;
+}
+
+// Requests the capture aborted, so fallback fonts or broken embeds are explained
+export function toBlockedRequests(
+    requests: NetworkRequest[]
+): BlockedRequest[] {
+    return requests
+        .filter(request => request.blocked)
+        .map(request => ({
+            url: request.url,
+            resourceType: request.resourceType,
+            reason: request.blocked!,
+        }));
+}
@@ -0,0 +1,87 @@
+import { logger } from '../utils/logger.js';
+
+export interface ResourceStoreOptions {
+    maxBytes: number; // Least recently used captures are evicted past this size
+}
+
+export interface StoredResource {
+    uri: string;
+    name: string;
+    mimeType: string;
+    description?: string;
+    data: Buffer;
+    createdAt: Date;
+}
+
+/**
+ * Captured images kept in memory so clients can fetch them later through
+ * resources/read. Retention is a least-recently-used cache bounded by the
+ * total size of the stored images.
+ */
+export class ResourceStore {
+    private options: ResourceStoreOptions;
+    // Map iteration order doubles as recency order, oldest first
+    private resources = new Map<string, StoredResource>();
+    private totalBytes = 0;
+
+    constructor(options: ResourceStoreOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Store a resource, evicting the least recently used ones to make room.
+     * Returns null when the resource alone is larger than the whole cache.
+     */
+    add(resource: Omit<StoredResource, 'createdAt'>): StoredResource | null {
+        const size = resource.data.length;
+        if (size > this.options.maxBytes) {
+            logger.warn(
+                `Not keeping ${resource.uri} as a resource: ${size} bytes exceeds the ${this.options.maxBytes} byte cache`
+            );
+            return null;
+        }
+
+        this.delete(resource.uri);
+        while (this.totalBytes + size > this.options.maxBytes) {
+            const oldest = this.resources.keys().next().value!;
+            logger.debug(`Evicting resource ${oldest}`);
+            this.delete(oldest);
+        }
+
+        const stored = { ...resource, createdAt: new Date() };
+        this.resources.set(stored.uri, stored);
+        this.totalBytes += size;
+        return stored;
+    }
+
+    get(uri: string): StoredResource | undefined {
+        const resource = this.resources.get(uri);
+        if (resource) {
+            // Move to the back so it is evicted last
+            this.resources.delete(uri);
+            this.resources.set(uri, resource);
+        }
+        return resource;
+    }
+
+    // Most recently used first
+    list(): StoredResource[] {
+        return [...this.resources.values()].reverse();
+    }
+
+    stats() {
+        return {
+            count: this.resources.size,
+            bytes: this.totalBytes,
+            maxBytes: this.options.maxBytes,
+        };
+    }
+
+    private delete(uri: string): void {
+        const resource = this.resources.get(uri);
+        if (resource) {
+            this.resources.delete(uri);
+            this.totalBytes -= resource.data.length;
+        }
+    }
+}
@@ -1,4 +1,10 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import puppeteer, {
+    Browser,
+    Page,
+    type ConsoleMessage as PageConsoleMessage,
+    type CookieData,
+} from 'puppeteer';
+import { randomUUID } from 'crypto';
 import {
     ScreenshotOptions,
     SelectorScreenshotOptions,
@@ -9,8 +15,73 @@ import {
     ConsoleCaptureOptions,
     ConsoleCaptureResult,
     ConsoleMessage,
+    SessionOptions,
+    SessionInfo,
+    RequestOptions,
+    CaptureCookie,
+    DeviceEmulation,
+    NetworkCaptureOptions,
+    NetworkCaptureResult,
+    NetworkRequest,
+    BlockedRequest,
+    DiagnoseOptions,
+    DiagnoseResult,
+    AccessibilityOptions,
+    AccessibilityResult,
+    ImageEncodingOptions,
 } from '../types.js';
 import { assertSafeCaptureUrl } from './urlSecurity.js';
+import { PagePool } from './pagePool.js';
+import { SessionStore } from './sessionStore.js';
+import {
+    restoreSessionIdentity,
+    shouldNavigate,
+    type SessionIdentity,
+} from './sessionPages.js';
+import { runActions } from './pageActions.js';
+import { resolveDevice, type ResolvedDevice } from './devices.js';
+import { encodeImage } from './imageEncoding.js';
+import {
+    layoutTiles,
+    validateSmartCutTolerance,
+    validateTileLayout,
+    type ElementSpan,
+} from './tiling.js';
+import { assertStitchable, stitchTiles } from './stitch.js';
+import { dismissOverlays } from './overlays.js';
+import {
+    hideFixedElements,
+    restoreFixedElements,
+    shouldHideFixedElements,
+} from './fixedElements.js';
+import { waitForConditions } from './waitConditions.js';
+import { NetworkRecorder, summarizeNetwork } from './networkRecorder.js';
+import {
+    DEFAULT_BLOCKED_RESOURCE_TYPES,
+    resolveBlockedResourceTypes,
+    toBlockedRequests,
+} from './resourceBlocking.js';
+import {
+    createConsoleFilter,
+    dedupeConsoleMessages,
+    fromPageConsoleMessage,
+    fromPageError,
+} from './consoleMessages.js';
+import {
+    auditAccessibility,
+    countAccessibilityNodes,
+    pruneAccessibilityTree,
+} from './accessibility.js';
+import {
+    autoScroll,
+    DEFAULT_AUTO_SCROLL_MAX_HEIGHT,
+    DEFAULT_AUTO_SCROLL_MAX_STEPS,
+} from './autoScroll.js';
+import {
+    DEFAULT_VISION_MODEL,
+    fitTokenBudget,
+    measureImageTokens,
+} from './imageTokens.js';
 import { logger } from '../utils/logger.js';
 
 logger.debug('Screenshot module loaded');
@@ -19,10 +90,20 @@ let browser: Browser | null = null;
 let browserLaunchPromise: Promise<Browser> | null = null;
 let lastActivityTime: number = Date.now();
 let inactivityTimer: NodeJS.Timeout | null = null;
+const networkRecorders = new WeakMap<Page, NetworkRecorder>();
+const blockedResourceTypes = new WeakMap<Page, string[]>(); // Set per capture by applyRequestOptions
+const sessionIdentities = new WeakMap<Page, SessionIdentity>(); // Headers and user agent a session was opened with
+const pagesInSetup = new Set<Page>(); // Created, but not yet handed to the pool or a session
 
 // Configuration
 const BROWSER_IDLE_TIMEOUT_MS = 60000; // Close browser after 1 minute of inactivity
 const MIN_BROWSER_LIFETIME_MS = 5000; // Keep browser alive for at least 5 seconds
+const MAX_CONCURRENT_PAGES =
+    parseInt(process.env.SCREENSHOT_MAX_CONCURRENT_PAGES ?? '', 10) || 4; // Captures running at once, others queue
+const SESSION_IDLE_TIMEOUT_MS = BROWSER_IDLE_TIMEOUT_MS; // Named sessions expire like the browser does
+const MAX_SESSIONS = 10;
+const MAX_SMART_TILING_ELEMENTS = 5000; // Elements measured for smart tile cuts
+const DEFAULT_MAX_COLUMNS = 4; // Wide pages are tiled up to this many viewports across
 
 function getErrorMessage(error: unknown): string {
     return error instanceof Error ? error.message : String(error);
@@ -111,6 +192,8 @@ async function launchBrowser(): Promise<Browser> {
         if (browser === newBrowser) {
             browser = null;
             browserLaunchPromise = null;
+            pagePool.drain().catch(() => {});
+            sessionStore.closeAll().catch(() => {});
         }
     });
 
@@ -125,14 +208,10 @@ async function launchBrowser(): Promise<Browser> {
     return newBrowser;
 }
 
-async function getBrowser(forceRestart: boolean = false): Promise<Browser> {
-    logger.debug('getBrowser called', { forceRestart, hasBrowser: !!browser });
-
-    // Force restart if requested
-    if (forceRestart && browser) {
-        logger.info('Force restarting browser...');
-        await closeBrowser();
-    }
+// The shared browser, launched on first use and relaunched only once it has
+// disconnected. Restarting a live one would end every session and capture.
+async function getBrowser(): Promise<Browser> {
+    logger.debug('getBrowser called', { hasBrowser: !!browser });
 
     // Check if we have a connected browser
     if (browser && browser.isConnected()) {
@@ -196,6 +275,9 @@ export async function closeBrowser(): Promise<void> {
     } else {
         logger.debug('No browser to close or already disconnected');
     }
+
+    await pagePool.drain();
+    await sessionStore.closeAll();
 }
 
 // Periodically check browser health
@@ -215,13 +297,23 @@ function startHealthCheck() {
                 const pages = await browser.pages();
                 logger.debug(`Health check: ${pages.length} pages open`);
 
-                // Close any extra pages (keep only the initial blank page)
-                if (pages.length > 1) {
+                // Close stray pages (keep the initial blank page, pages
+                // leased or idle in the pool, named session pages and pages
+                // still being set up for either)
+                const strayPages = pages
+                    .slice(1)
+                    .filter(
+                        page =>
+                            !pagePool.owns(page) &&
+                            !sessionStore.owns(page) &&
+                            !pagesInSetup.has(page)
+                    );
+                if (strayPages.length > 0) {
                     logger.info(
-                        `Closing ${pages.length - 1} unused pages to free memory`
+                        `Closing ${strayPages.length} unused pages to free memory`
                     );
-                    for (let i = 1; i < pages.length; i++) {
-                        await pages[i].close().catch(() => {});
+                    for (const page of strayPages) {
+                        await disposePage(page);
                     }
                 }
             } catch (error) {
@@ -242,20 +334,50 @@ function stopHealthCheck() {
 }
 
 async function setupPage(browser: Browser): Promise<Page> {
-    logger.debug('Creating new page...');
-    const page = await browser.newPage();
+    // Every page gets its own incognito context so cookies, storage and
+    // service workers never leak from one capture into the next
+    logger.debug('Creating new browser context and page...');
+    const context = await browser.createBrowserContext();
+    let page: Page;
+    try {
+        page = await context.newPage();
+    } catch (error) {
+        await context.close().catch(() => {});
+        throw error;
+    }
     logger.debug('Page created successfully');
 
-    // Configure page settings with longer timeout for problematic sites
-    await page.setDefaultNavigationTimeout(60000);
-    await page.setDefaultTimeout(60000);
+    // The pool or session only takes the page once it is ready, keep the
+    // health check away from it until then
+    pagesInSetup.add(page);
+    try {
+        // Configure page settings with longer timeout for problematic sites
+        await page.setDefaultNavigationTimeout(60000);
+        await page.setDefaultTimeout(60000);
 
-    // Disable unnecessary features that might cause issues
-    await page.setJavaScriptEnabled(true);
-    await page.setOfflineMode(false);
+        // Disable unnecessary features that might cause issues
+        await page.setJavaScriptEnabled(true);
+        await page.setOfflineMode(false);
+
+        // Block unnecessary resources that might cause navigation issues
+        await page.setRequestInterception(true);
+        attachPageListeners(page);
+    } catch (error) {
+        await disposePage(page);
+        throw error;
+    } finally {
+        pagesInSetup.delete(page);
+    }
+
+    return page;
+}
+
+function attachPageListeners(page: Page): void {
+    // Registered before the interception handler so it sees requests first
+    const recorder = new NetworkRecorder();
+    recorder.attach(page);
+    networkRecorders.set(page, recorder);
 
-    // Block unnecessary resources that might cause navigation issues
-    await page.setRequestInterception(true);
     page.on('request', async request => {
         const resourceType = request.resourceType();
 
@@ -263,7 +385,16 @@ async function setupPage(browser: Browser): Promise<Page> {
             await assertSafeCaptureUrl(request.url());
 
             // Allow navigation and essential resources, block potential problematic ones
-            if (['font', 'media'].includes(resourceType)) {
+            if (
+                (
+                    blockedResourceTypes.get(page) ??
+                    DEFAULT_BLOCKED_RESOURCE_TYPES
+                ).includes(resourceType)
+            ) {
+                recorder.markBlocked(
+                    request,
+                    `${resourceType} requests are not loaded`
+                );
                 await request.abort();
             } else {
                 await request.continue();
@@ -272,6 +403,7 @@ async function setupPage(browser: Browser): Promise<Page> {
             logger.warn(
                 `Blocked unsafe browser request to ${request.url()}: ${getErrorMessage(error)}`
             );
+            recorder.markBlocked(request, getErrorMessage(error));
             await request.abort();
         }
     });
@@ -298,15 +430,180 @@ async function setupPage(browser: Browser): Promise<Page> {
     page.on('framenavigated', frame => {
         logger.debug(`Frame navigated: ${frame.url()}`);
     });
+}
 
-    return page;
+// Requests a page made since the current capture started, see attachPageListeners
+function recordedRequests(page: Page): NetworkRequest[] {
+    return networkRecorders.get(page)?.list() ?? [];
+}
+
+function blockedRequests(page: Page): BlockedRequest[] {
+    return toBlockedRequests(recordedRequests(page));
+}
+
+// Status of the main document, for navigations that don't hand back the response
+function documentStatus(page: Page): number | undefined {
+    const finalUrl = page.url();
+    return recordedRequests(page)
+        .reverse()
+        .find(
+            request =>
+                request.resourceType === 'document' && request.url === finalUrl
+        )?.status;
+}
+
+// Captures on reused session pages only report their own requests
+function resetNetworkLog(page: Page): void {
+    networkRecorders.get(page)?.clear();
+}
+
+// Dispose of the page together with its browser context
+async function disposePage(page: Page): Promise<void> {
+    const context = page.browserContext();
+    try {
+        await context.close();
+    } catch (error) {
+        logger.debug('Failed to close browser context:', error);
+        await page.close().catch(() => {});
+    }
+}
+
+// A used context can't be scrubbed clean, so swap it for a fresh one
+async function recyclePage(page: Page): Promise<Page> {
+    const browser = page.browser();
+    await disposePage(page);
+    return setupPage(browser);
+}
+
+const pagePool = new PagePool({
+    maxPages: MAX_CONCURRENT_PAGES,
+    createPage: setupPage,
+    recyclePage,
+    closePage: disposePage,
+});
+
+const sessionStore = new SessionStore({
+    idleTimeoutMs: SESSION_IDLE_TIMEOUT_MS,
+    maxSessions: MAX_SESSIONS,
+    closePage: disposePage,
+});
+
+// Lease the live page of a named session, or a fresh page from the pool
+function acquirePage(browser: Browser, sessionId?: string): Promise<Page> {
+    return sessionId
+        ? sessionStore.acquire(sessionId)
+        : pagePool.acquire(browser);
+}
+
+async function releasePage(
+    page: Page | null,
+    discard: boolean = false
+): Promise<void> {
+    if (!page) return;
+
+    // Session pages stay open for the next tool call
+    if (sessionStore.owns(page)) {
+        const identity = sessionIdentities.get(page);
+        if (identity && !page.isClosed()) {
+            await restoreSessionIdentity(page, identity);
+        }
+        sessionStore.release(page);
+    } else {
+        await pagePool.release(page, { discard });
+    }
+}
+
+// Cookies without a domain are scoped to the URL they came with, or the capture URL
+function toCookieData(cookie: CaptureCookie, captureUrl?: string): CookieData {
+    const { url, ...data } = cookie;
+    const cookieUrl = url ?? captureUrl;
+    if (!data.domain && !cookieUrl) {
+        throw new Error(
+            `Cookie "${cookie.name}" needs a "domain" or "url" to be scoped to`
+        );
+    }
+
+    return {
+        path: '/',
+        ...data,
+        domain: data.domain ?? new URL(cookieUrl!).hostname,
+    };
+}
+
+// Identity and auth settings have to be in place before the first request
+async function applyRequestOptions(
+    page: Page,
+    options: RequestOptions & { url?: string }
+): Promise<void> {
+    blockedResourceTypes.set(page, resolveBlockedResourceTypes(options));
+    if (options.userAgent) {
+        await page.setUserAgent({ userAgent: options.userAgent });
+    }
+    if (options.headers && Object.keys(options.headers).length > 0) {
+        await page.setExtraHTTPHeaders(options.headers);
+    }
+    if (options.httpCredentials) {
+        await page.authenticate(options.httpCredentials);
+    }
+    if (options.cookies?.length) {
+        await page
+            .browserContext()
+            .setCookie(
+                ...options.cookies.map(cookie =>
+                    toCookieData(cookie, options.url)
+                )
+            );
+    }
+}
+
+// A device preset decides the viewport, otherwise the plain viewport option
+// does. Session captures setting neither keep the session's device, as
+// switching isMobile or hasTouch would reload its page.
+function resolveEmulation(options: {
+    viewport?: { width: number; height: number };
+    device?: string | DeviceEmulation;
+    sessionId?: string;
+}): ResolvedDevice {
+    if (options.device) {
+        return resolveDevice(options.device);
+    }
+    if (
+        !options.viewport &&
+        options.sessionId &&
+        sessionStore.has(options.sessionId)
+    ) {
+        const identity = sessionIdentities.get(
+            sessionStore.page(options.sessionId)
+        );
+        if (identity?.emulation) {
+            return identity.emulation;
+        }
+    }
+    return {
+        viewport: {
+            width: options.viewport?.width || 1072,
+            height: options.viewport?.height || 1072,
+        },
+    };
+}
+
+// An explicit userAgent option wins over the device's own
+async function emulateDevice(
+    page: Page,
+    emulation: ResolvedDevice,
+    options: RequestOptions
+): Promise<void> {
+    await page.setViewport(emulation.viewport);
+    if (emulation.userAgent && !options.userAgent) {
+        await page.setUserAgent({ userAgent: emulation.userAgent });
+    }
 }
 
 async function navigateWithRetry(
     page: Page,
     url: string,
     options: ScreenshotOptions,
-    browserRestartCallback?: () => Promise<Page>
+    recoveryCallback?: () => Promise<Page>
 ): Promise<Page> {
     await assertSafeCaptureUrl(url);
 
@@ -319,8 +616,8 @@ async function navigateWithRetry(
             // Check if page is still valid before attempting navigation
             if (currentPage.isClosed()) {
                 logger.warn('Page is closed, attempting to create new page...');
-                if (browserRestartCallback) {
-                    currentPage = await browserRestartCallback();
+                if (recoveryCallback) {
+                    currentPage = await recoveryCallback();
                 } else {
                     throw new Error(
                         'Page is closed and no recovery callback provided'
@@ -367,8 +664,8 @@ async function navigateWithRetry(
             lastError = error;
             logger.warn(`Navigation attempt ${attempt} failed:`, error.message);
 
-            // Determine if we need a browser restart
-            const needsBrowserRestart =
+            // Determine if the page is beyond saving
+            const needsFreshPage =
                 error.message.includes('Protocol error') ||
                 error.message.includes('Target closed') ||
                 error.message.includes('Session closed') ||
@@ -383,22 +680,22 @@ async function navigateWithRetry(
                     setTimeout(resolve, 1000 * attempt)
                 );
 
-                if (needsBrowserRestart && browserRestartCallback) {
+                if (needsFreshPage && recoveryCallback) {
                     logger.info(
-                        'Critical error detected, restarting browser...'
+                        'Critical error detected, switching to a fresh page...'
                     );
                     try {
-                        currentPage = await browserRestartCallback();
+                        currentPage = await recoveryCallback();
                     } catch (restartError) {
                         logger.error(
-                            'Failed to restart browser:',
+                            'Failed to get a fresh page:',
                             restartError
                         );
                         throw restartError;
                     }
-                } else if (currentPage.isClosed() && browserRestartCallback) {
+                } else if (currentPage.isClosed() && recoveryCallback) {
                     logger.info('Page closed, creating new page...');
-                    currentPage = await browserRestartCallback();
+                    currentPage = await recoveryCallback();
                 }
             }
         }
@@ -407,6 +704,21 @@ async function navigateWithRetry(
     throw lastError || new Error('Navigation failed after retries');
 }
 
+// Fit a PNG capture to the token budget and output format, and estimate its cost
+async function prepareImage(png: Buffer, options: ImageEncodingOptions) {
+    const screenshot = await encodeImage(
+        await fitTokenBudget(png, options),
+        options
+    );
+    return {
+        screenshot,
+        estimatedTokens: await measureImageTokens(
+            screenshot,
+            options.targetModel
+        ),
+    };
+}
+
 export async function captureScreenshot(
     options: ScreenshotOptions
 ): Promise<ScreenshotResult | TiledScreenshotResult> {
@@ -414,8 +726,11 @@ export async function captureScreenshot(
         url: options.url,
         fullPage: options.fullPage,
         viewport: options.viewport,
+        device: options.device,
         waitUntil: options.waitUntil,
         waitFor: options.waitFor,
+        actions: options.actions?.length,
+        format: options.format,
     });
 
     // Update activity time when screenshot is requested
@@ -430,43 +745,46 @@ export async function captureScreenshot(
 
     // Viewport-only capture
     logger.info(`Taking viewport screenshot of ${options.url}`);
+    const emulation = resolveEmulation(options);
 
     let browser: Browser | null = null;
     let page: Page | null = null;
     let attemptCount = 0;
-    const maxAttempts = 2;
+    const maxAttempts = options.sessionId ? 1 : 2; // A session's page can't be swapped for a fresh one
 
     while (attemptCount < maxAttempts) {
         try {
             attemptCount++;
 
-            // Get or restart browser
-            browser = await getBrowser(attemptCount > 1);
-            page = await setupPage(browser);
+            // Get the browser, relaunched only if it disconnected
+            browser = await getBrowser();
+            page = await acquirePage(browser, options.sessionId);
+            resetNetworkLog(page);
+            await applyRequestOptions(page, options);
 
-            // Set viewport
-            const viewport = {
-                width: options.viewport?.width || 1072,
-                height: options.viewport?.height || 1072,
-            };
-            await page.setViewport(viewport);
+            // Set viewport and device emulation
+            await emulateDevice(page, emulation, options);
 
             // Create recovery callback
             const recoveryCallback = async (): Promise<Page> => {
                 logger.info('Recovering from error, creating new page...');
-                browser = await getBrowser(true);
-                const newPage = await setupPage(browser);
-                await newPage.setViewport(viewport);
-                return newPage;
+                await releasePage(page, true);
+                browser = await getBrowser();
+                page = await acquirePage(browser);
+                await applyRequestOptions(page, options);
+                await emulateDevice(page, emulation, options);
+                return page;
             };
 
             // Navigate to the page with recovery
-            page = await navigateWithRetry(
-                page,
-                options.url,
-                options,
-                recoveryCallback
-            );
+            if (shouldNavigate(page, options)) {
+                page = await navigateWithRetry(
+                    page,
+                    options.url,
+                    options,
+                    options.sessionId ? undefined : recoveryCallback
+                );
+            }
 
             // Wait additional time if specified
             if (options.waitFor) {
@@ -476,6 +794,19 @@ export async function captureScreenshot(
                 );
             }
 
+            // Selector, predicate, network, asset and stability conditions
+            await waitForConditions(page, options);
+
+            // Click away or hide consent banners and modal overlays
+            const dismissedOverlays = options.dismissOverlays
+                ? await dismissOverlays(page, options.overlaySelectors)
+                : [];
+
+            // Run scripted interaction steps before the shot
+            if (options.actions?.length) {
+                await runActions(page, options.actions);
+            }
+
             // Take screenshot
             const screenshot = (await page.screenshot({
                 type: 'png',
@@ -485,16 +816,20 @@ export async function captureScreenshot(
 
             const result: ScreenshotResult = {
                 url: options.url,
-                screenshot,
+                ...(await prepareImage(screenshot, options)),
                 timestamp: new Date(),
-                viewport,
-                format: 'png',
+                viewport: emulation.viewport,
+                format: options.format ?? 'png',
+                targetModel: options.targetModel ?? DEFAULT_VISION_MODEL,
+                dismissedOverlays,
+                blockedRequests: blockedRequests(page),
+                ...(options.recordNetwork
+                    ? { network: recordedRequests(page) }
+                    : {}),
             };
 
-            // Clean up the page after successful capture
-            if (page && !page.isClosed()) {
-                await page.close().catch(() => {});
-            }
+            // Return the page to the pool after successful capture
+            await releasePage(page);
 
             return result;
         } catch (error: any) {
@@ -503,10 +838,8 @@ export async function captureScreenshot(
                 error
             );
 
-            // Clean up the page
-            if (page && !page.isClosed()) {
-                await page.close().catch(() => {});
-            }
+            // Discard the page, it may be in a broken state
+            await releasePage(page, true);
 
             // If this was our last attempt, throw the error
             if (attemptCount >= maxAttempts) {
@@ -514,7 +847,7 @@ export async function captureScreenshot(
             }
 
             // Otherwise, wait a bit before retrying
-            logger.info('Retrying with fresh browser...');
+            logger.info('Retrying on a fresh page...');
             await new Promise(resolve => setTimeout(resolve, 2000));
         }
     }
@@ -529,46 +862,52 @@ export async function captureSelectorScreenshot(
         url: options.url,
         selector: options.selector,
         viewport: options.viewport,
+        device: options.device,
         waitUntil: options.waitUntil,
         waitFor: options.waitFor,
         selectorTimeoutMS: options.selectorTimeoutMS,
+        actions: options.actions?.length,
+        format: options.format,
     });
 
     updateActivityTime();
     await assertSafeCaptureUrl(options.url);
+    const emulation = resolveEmulation(options);
 
     let browser: Browser | null = null;
     let page: Page | null = null;
     let attemptCount = 0;
-    const maxAttempts = 2;
+    const maxAttempts = options.sessionId ? 1 : 2; // A session's page can't be swapped for a fresh one
 
     while (attemptCount < maxAttempts) {
         try {
             attemptCount++;
 
-            browser = await getBrowser(attemptCount > 1);
-            page = await setupPage(browser);
+            browser = await getBrowser();
+            page = await acquirePage(browser, options.sessionId);
+            resetNetworkLog(page);
+            await applyRequestOptions(page, options);
 
-            const viewport = {
-                width: options.viewport?.width || 1072,
-                height: options.viewport?.height || 1072,
-            };
-            await page.setViewport(viewport);
+            await emulateDevice(page, emulation, options);
 
             const recoveryCallback = async (): Promise<Page> => {
                 logger.info('Recovering from error, creating new page...');
-                browser = await getBrowser(true);
-                const newPage = await setupPage(browser);
-                await newPage.setViewport(viewport);
-                return newPage;
+                await releasePage(page, true);
+                browser = await getBrowser();
+                page = await acquirePage(browser);
+                await applyRequestOptions(page, options);
+                await emulateDevice(page, emulation, options);
+                return page;
             };
 
-            page = await navigateWithRetry(
-                page,
-                options.url,
-                options,
-                recoveryCallback
-            );
+            if (shouldNavigate(page, options)) {
+                page = await navigateWithRetry(
+                    page,
+                    options.url,
+                    options,
+                    options.sessionId ? undefined : recoveryCallback
+                );
+            }
 
             if (options.waitFor) {
                 await page.evaluate(
@@ -577,6 +916,19 @@ export async function captureSelectorScreenshot(
                 );
             }
 
+            // Selector, predicate, network, asset and stability conditions
+            await waitForConditions(page, options);
+
+            // Click away or hide consent banners and modal overlays
+            const dismissedOverlays = options.dismissOverlays
+                ? await dismissOverlays(page, options.overlaySelectors)
+                : [];
+
+            // Run scripted interaction steps before the shot
+            if (options.actions?.length) {
+                await runActions(page, options.actions);
+            }
+
             let elementHandle;
             try {
                 elementHandle = await page.waitForSelector(options.selector, {
@@ -602,15 +954,19 @@ export async function captureSelectorScreenshot(
 
             const result: ScreenshotResult = {
                 url: options.url,
-                screenshot,
+                ...(await prepareImage(screenshot, options)),
                 timestamp: new Date(),
-                viewport,
-                format: 'png',
+                viewport: emulation.viewport,
+                format: options.format ?? 'png',
+                targetModel: options.targetModel ?? DEFAULT_VISION_MODEL,
+                dismissedOverlays,
+                blockedRequests: blockedRequests(page),
+                ...(options.recordNetwork
+                    ? { network: recordedRequests(page) }
+                    : {}),
             };
 
-            if (page && !page.isClosed()) {
-                await page.close().catch(() => {});
-            }
+            await releasePage(page);
 
             return result;
         } catch (error) {
@@ -619,15 +975,13 @@ export async function captureSelectorScreenshot(
                 error
             );
 
-            if (page && !page.isClosed()) {
-                await page.close().catch(() => {});
-            }
+            await releasePage(page, true);
 
             if (attemptCount >= maxAttempts) {
                 throw error;
             }
 
-            logger.info('Retrying selector capture with fresh browser...');
+            logger.info('Retrying selector capture on a fresh page...');
             await new Promise(resolve => setTimeout(resolve, 2000));
         }
     }
@@ -635,6 +989,87 @@ export async function captureSelectorScreenshot(
     throw new Error('Failed to capture selector screenshot after all attempts');
 }
 
+export async function openSession(
+    options: SessionOptions = {}
+): Promise<SessionInfo> {
+    logger.info('openSession called with options:', {
+        sessionId: options.sessionId,
+        url: options.url,
+        viewport: options.viewport,
+        device: options.device,
+        waitUntil: options.waitUntil,
+        waitFor: options.waitFor,
+        actions: options.actions?.length,
+    });
+
+    updateActivityTime();
+
+    const sessionId = options.sessionId ?? randomUUID().slice(0, 8);
+    if (sessionStore.has(sessionId)) {
+        throw new Error(`Session "${sessionId}" already exists`);
+    }
+    if (options.url) {
+        await assertSafeCaptureUrl(options.url);
+    }
+    const emulation = resolveEmulation(options);
+
+    const browser = await getBrowser();
+    const page = await setupPage(browser);
+    pagesInSetup.add(page); // Until the session owns it
+
+    try {
+        await applyRequestOptions(page, options);
+        await emulateDevice(page, emulation, options);
+        sessionIdentities.set(page, {
+            headers: options.headers,
+            httpCredentials: options.httpCredentials,
+            userAgent: options.userAgent ?? emulation.userAgent,
+            emulation,
+        });
+
+        if (options.url) {
+            await navigateWithRetry(page, options.url, {
+                url: options.url,
+                waitUntil: options.waitUntil,
+            });
+
+            if (options.waitFor) {
+                await page.evaluate(
+                    ms => new Promise(resolve => setTimeout(resolve, ms)),
+                    options.waitFor
+                );
+            }
+
+            await waitForConditions(page, options);
+
+            // Run scripted steps such as filling in a login form
+            if (options.actions?.length) {
+                await runActions(page, options.actions);
+            }
+        }
+
+        return sessionStore.add(sessionId, page);
+    } catch (error) {
+        logger.error(`Error opening session ${sessionId}:`, error);
+        await disposePage(page);
+        throw error;
+    } finally {
+        pagesInSetup.delete(page);
+    }
+}
+
+export function getSession(sessionId: string): SessionInfo {
+    return sessionStore.info(sessionId);
+}
+
+export function listSessions(): SessionInfo[] {
+    return sessionStore.list();
+}
+
+export async function closeSession(sessionId: string): Promise<boolean> {
+    return sessionStore.close(sessionId);
+}
+
 // Export browser statistics for monitoring
 export function getBrowserStats() {
     return {
@@ -644,6 +1079,8 @@ export function getBrowserStats() {
         timeSinceLastActivity: Date.now() - lastActivityTime,
         hasInactivityTimer: !!inactivityTimer,
         idleTimeoutMs: BROWSER_IDLE_TIMEOUT_MS,
+        pagePool: pagePool.stats(),
+        sessions: sessionStore.list().length,
     };
 }
 
@@ -707,53 +1144,106 @@ process.on('unhandledRejection', async error => {
     process.exit(1);
 });
 
+// Vertical extents of the rendered elements, for smart tile cuts
+async function measureElementSpans(page: Page): Promise<ElementSpan[]> {
+    return page.evaluate((limit: number) => {
+        const doc = (globalThis as any).document;
+        const scrollY = (globalThis as any).scrollY;
+        const spans: { top: number; bottom: number }[] = [];
+
+        for (const element of doc.body.querySelectorAll('*')) {
+            const rect = element.getBoundingClientRect();
+            if (rect.width > 0 && rect.height > 0) {
+                spans.push({
+                    top: rect.top + scrollY,
+                    bottom: rect.bottom + scrollY,
+                });
+                if (spans.length >= limit) break;
+            }
+        }
+        return spans;
+    }, MAX_SMART_TILING_ELEMENTS);
+}
+
 async function captureTiledScreenshot(
     options: ScreenshotOptions
 ): Promise<TiledScreenshotResult> {
     await assertSafeCaptureUrl(options.url);
 
-    const tileSize = options.viewport?.width || 1072;
+    const emulation = resolveEmulation(options);
+    const tileSize = emulation.viewport.width;
+    const tileHeight = options.tileHeight ?? tileSize;
+    const tileOverlap = options.tileOverlap ?? 0;
+    validateTileLayout({
+        tileWidth: tileSize,
+        tileHeight,
+        overlap: tileOverlap,
+    });
+    if (options.smartTilingTolerance !== undefined) {
+        validateSmartCutTolerance(options.smartTilingTolerance, tileHeight);
+    }
+    const fixedElements = options.fixedElements ?? 'keep';
+    if (!['keep', 'hide-after-first', 'hide'].includes(fixedElements)) {
+        throw new Error(
+            `"fixedElements" must be keep, hide-after-first or hide, got "${fixedElements}"`
+        );
+    }
+    const autoScrollLimits = {
+        maxHeight:
+            options.autoScrollMaxHeight ?? DEFAULT_AUTO_SCROLL_MAX_HEIGHT,
+        maxSteps: options.autoScrollMaxSteps ?? DEFAULT_AUTO_SCROLL_MAX_STEPS,
+    };
+    if (!(autoScrollLimits.maxHeight > 0) || !(autoScrollLimits.maxSteps > 0)) {
+        throw new Error(
+            `"autoScrollMaxHeight" and "autoScrollMaxSteps" must be positive numbers, got ${autoScrollLimits.maxHeight} and ${autoScrollLimits.maxSteps}`
+        );
+    }
+    // Tiles at the device width (square by default), keeping its scale and mobile flags
+    const tileEmulation: ResolvedDevice = {
+        ...emulation,
+        viewport: { ...emulation.viewport, height: tileHeight },
+    };
 
     logger.info(`Taking tiled screenshot of ${options.url}`);
 
     let browser: Browser | null = null;
     let page: Page | null = null;
     let attemptCount = 0;
-    const maxAttempts = 2;
+    const maxAttempts = options.sessionId ? 1 : 2; // A session's page can't be swapped for a fresh one
 
     while (attemptCount < maxAttempts) {
         try {
             attemptCount++;
 
-            // Get or restart browser
-            browser = await getBrowser(attemptCount > 1);
-            page = await setupPage(browser);
+            // Get the browser, relaunched only if it disconnected
+            browser = await getBrowser();
+            page = await acquirePage(browser, options.sessionId);
+            resetNetworkLog(page);
+            await applyRequestOptions(page, options);
 
             // Set viewport to capture full width in tile size
-            await page.setViewport({
-                width: tileSize,
-                height: tileSize,
-            });
+            await emulateDevice(page, tileEmulation, options);
 
             // Create recovery callback
             const recoveryCallback = async (): Promise<Page> => {
                 logger.info('Recovering from error, creating new page...');
-                browser = await getBrowser(true);
-                const newPage = await setupPage(browser);
-                await newPage.setViewport({
-                    width: tileSize,
-                    height: tileSize,
-                });
-                return newPage;
+                await releasePage(page, true);
+                browser = await getBrowser();
+                page = await acquirePage(browser);
+                await applyRequestOptions(page, options);
+                await emulateDevice(page, tileEmulation, options);
+                return page;
             };
 
             // Navigate to the page with recovery
-            page = await navigateWithRetry(
-                page,
-                options.url,
-                options,
-                recoveryCallback
-            );
+            if (shouldNavigate(page, options)) {
+                page = await navigateWithRetry(
+                    page,
+                    options.url,
+                    options,
+                    options.sessionId ? undefined : recoveryCallback
+                );
+            }
 
             // Wait additional time if specified
             if (options.waitFor) {
@@ -763,6 +1253,24 @@ async function captureTiledScreenshot(
                 );
             }
 
+            // Selector, predicate, network, asset and stability conditions
+            await waitForConditions(page, options);
+
+            // Click away or hide consent banners and modal overlays
+            const dismissedOverlays = options.dismissOverlays
+                ? await dismissOverlays(page, options.overlaySelectors)
+                : [];
+
+            // Run scripted interaction steps before the shot
+            if (options.actions?.length) {
+                await runActions(page, options.actions);
+            }
+
+            // Load lazy images and infinite-scroll content before measuring
+            const autoScrolled = options.autoScroll
+                ? await autoScroll(page, autoScrollLimits)
+                : undefined;
+
             // Get the full page dimensions
             const dimensions = await page.evaluate(() => {
                 const doc = (globalThis as any).document;
@@ -785,33 +1293,81 @@ async function captureTiledScreenshot(
                 };
             });
 
-            // Width should be constrained by our viewport width for tiling
-            const fullWidth = Math.min(dimensions.width, tileSize);
-            const fullHeight = dimensions.height;
+            // Wide pages get several columns of tiles, up to maxWidth
+            const maxWidth = options.maxWidth ?? tileSize * DEFAULT_MAX_COLUMNS;
+            const fullWidth = Math.min(dimensions.width, maxWidth);
+            // Feeds may grow past the auto-scroll cap while the last step
+            // loads. Pages that were taller to begin with are kept whole.
+            const fullHeight = autoScrolled
+                ? Math.min(
+                      dimensions.height,
+                      Math.max(
+                          autoScrollLimits.maxHeight,
+                          autoScrolled.initialHeight
+                      )
+                  )
+                : dimensions.height;
 
             logger.info(
                 `Full page dimensions: ${fullWidth}x${fullHeight} (viewport width: ${tileSize})`
             );
+            if (dimensions.width > fullWidth) {
+                logger.warn(
+                    `Page is ${dimensions.width}px wide, capturing only the first ${fullWidth}px (maxWidth)`
+                );
+            }
 
-            // Calculate number of tiles needed
-            const cols = Math.ceil(fullWidth / tileSize);
-            const rows = Math.ceil(fullHeight / tileSize);
-            const tiles = [];
+            const stitchOptions = {
+                maxHeight: options.stitchMaxHeight,
+                downscale: options.stitchDownscale,
+                format: options.format,
+                deviceScaleFactor: emulation.viewport.deviceScaleFactor,
+            };
+            if (options.stitch) {
+                assertStitchable(fullHeight, stitchOptions);
+            }
+
+            // Lay out the tiles, overlapping neighbours by tileOverlap pixels
+            // and, with smart tiling, cutting between elements where possible
+            const smartCuts = options.smartTiling
+                ? {
+                      elements: await measureElementSpans(page),
+                      tolerance:
+                          options.smartTilingTolerance ??
+                          Math.round(tileHeight / 4),
+                  }
+                : undefined;
+            const rects = layoutTiles(
+                fullWidth,
+                fullHeight,
+                {
+                    tileWidth: tileSize,
+                    tileHeight,
+                    overlap: tileOverlap,
+                },
+                smartCuts
+            );
+            const captured = [];
+            let fixedElementsHidden: number | null = null;
 
             logger.info(
-                `Capturing ${rows}x${cols} tiles (${rows * cols} total) sequentially...`
+                `Capturing ${rects.length} tiles of ${tileSize}x${tileHeight} (overlap ${tileOverlap}px) sequentially...`
             );
 
             // Capture tiles one by one
-            for (let row = 0; row < rows; row++) {
-                for (let col = 0; col < cols; col++) {
-                    const x = col * tileSize;
-                    const y = row * tileSize;
-                    const width = Math.min(tileSize, fullWidth - x);
-                    const height = Math.min(tileSize, fullHeight - y);
-
-                    // Skip empty tiles if they occur due to rounding
-                    if (width <= 0 || height <= 0) continue;
+            try {
+                for (const [index, rect] of rects.entries()) {
+                    const { row, col, x, y, width, height } = rect;
+
+                    if (
+                        fixedElementsHidden === null &&
+                        shouldHideFixedElements(fixedElements, index)
+                    ) {
+                        fixedElementsHidden = await hideFixedElements(page);
+                        logger.debug(
+                            `Hid ${fixedElementsHidden} fixed/sticky elements`
+                        );
+                    }
 
                     logger.debug(
                         `Capturing tile ${row},${col} at ${x},${y} (${width}x${height})...`
@@ -829,15 +1385,39 @@ async function captureTiledScreenshot(
                         },
                     })) as Buffer;
 
+                    captured.push({ ...rect, screenshot: tileBuffer });
+                }
+            } finally {
+                if (fixedElementsHidden !== null) {
+                    await restoreFixedElements(page);
+                }
+            }
+
+            // Encode each tile, or the stitched page once as a whole
+            const tiles = [];
+            if (options.stitch) {
+                const stitched = await stitchTiles(
+                    captured,
+                    fullWidth,
+                    fullHeight,
+                    stitchOptions
+                );
+                tiles.push({
+                    ...(await prepareImage(stitched, options)),
+                    index: 0,
+                    row: 0,
+                    col: 0,
+                    x: 0,
+                    y: 0,
+                    width: fullWidth,
+                    height: fullHeight,
+                });
+            } else {
+                for (const [index, tile] of captured.entries()) {
                     tiles.push({
-                        screenshot: tileBuffer,
-                        index: row * cols + col,
-                        row,
-                        col,
-                        x,
-                        y,
-                        width,
-                        height,
+                        ...tile,
+                        ...(await prepareImage(tile.screenshot, options)),
+                        index,
                     });
                 }
             }
@@ -848,14 +1428,28 @@ async function captureTiledScreenshot(
                 timestamp: new Date(),
                 fullWidth,
                 fullHeight,
+                pageWidth: dimensions.width,
                 tileSize,
-                format: 'png',
+                tileHeight,
+                tileOverlap,
+                stitched: !!options.stitch,
+                fixedElementsHidden: fixedElementsHidden ?? 0,
+                format: options.format ?? 'png',
+                estimatedTokens: tiles.reduce(
+                    (total, tile) => total + tile.estimatedTokens,
+                    0
+                ),
+                targetModel: options.targetModel ?? DEFAULT_VISION_MODEL,
+                dismissedOverlays,
+                blockedRequests: blockedRequests(page),
+                ...(options.recordNetwork
+                    ? { network: recordedRequests(page) }
+                    : {}),
+                ...(autoScrolled ? { autoScroll: autoScrolled } : {}),
             };
 
-            // Clean up the page after successful capture
-            if (page && !page.isClosed()) {
-                await page.close().catch(() => {});
-            }
+            // Return the page to the pool after successful capture
+            await releasePage(page);
 
             return result;
         } catch (error: any) {
@@ -864,10 +1458,8 @@ async function captureTiledScreenshot(
                 error
             );
 
-            // Clean up the page
-            if (page && !page.isClosed()) {
-                await page.close().catch(() => {});
-            }
+            // Discard the page, it may be in a broken state
+            await releasePage(page, true);
 
             // If this was our last attempt, throw the error
             if (attemptCount >= maxAttempts) {
@@ -875,7 +1467,7 @@ async function captureTiledScreenshot(
             }
 
             // Otherwise, wait a bit before retrying
-            logger.info('Retrying with fresh browser...');
+            logger.info('Retrying on a fresh page...');
             await new Promise(resolve => setTimeout(resolve, 2000));
         }
     }
@@ -891,6 +1483,7 @@ export async function captureScreencast(
         duration: options.duration,
         interval: options.interval,
         viewport: options.viewport,
+        device: options.device,
         waitUntil: options.waitUntil,
         waitFor: options.waitFor,
         hasJsEvaluate: !!options.jsEvaluate,
@@ -900,6 +1493,7 @@ export async function captureScreencast(
     updateActivityTime();
     await assertSafeCaptureUrl(options.url);
 
+    const emulation = resolveEmulation(options);
     const frames: ScreencastResult['frames'] = [];
     const startTime = new Date();
 
@@ -909,22 +1503,22 @@ export async function captureScreencast(
     try {
         // Get browser instance
         browser = await getBrowser();
-        page = await setupPage(browser);
+        page = await acquirePage(browser, options.sessionId);
+        resetNetworkLog(page);
+        await applyRequestOptions(page, options);
 
-        // Set viewport (only capture top tile - 1072x1072)
-        const viewport = {
-            width: options.viewport?.width || 1072,
-            height: options.viewport?.height || 1072,
-        };
-        await page.setViewport(viewport);
+        // Set viewport (only capture top tile - 1072x1072 unless a device is emulated)
+        await emulateDevice(page, emulation, options);
 
         logger.info(`Starting screencast of ${options.url}`);
 
         // Navigate to the page
-        await page.goto(options.url, {
-            waitUntil: options.waitUntil || 'domcontentloaded',
-            timeout: 60000,
-        });
+        if (shouldNavigate(page, options)) {
+            await page.goto(options.url, {
+                waitUntil: options.waitUntil || 'domcontentloaded',
+                timeout: 60000,
+            });
+        }
 
         // Wait additional time if specified
         if (options.waitFor) {
@@ -934,6 +1528,14 @@ export async function captureScreencast(
             );
         }
 
+        // Selector, predicate, network, asset and stability conditions
+        await waitForConditions(page, options);
+
+        // Click away or hide consent banners and modal overlays
+        const dismissedOverlays = options.dismissOverlays
+            ? await dismissOverlays(page, options.overlaySelectors)
+            : [];
+
         // Handle JavaScript execution with configurable screenshot intervals
         let jsInstructionCount = 0;
         const screenshotInterval = options.interval * 1000; // Convert seconds to milliseconds
@@ -1068,25 +1670,26 @@ export async function captureScreencast(
             endTime,
             duration: options.duration,
             interval: options.interval,
-            viewport,
+            viewport: emulation.viewport,
             format: 'png',
+            dismissedOverlays,
+            blockedRequests: blockedRequests(page),
+            ...(options.recordNetwork
+                ? { network: recordedRequests(page) }
+                : {}),
         };
 
         logger.info(`Screencast completed: ${frames.length} frames captured`);
 
-        // Clean up the page after successful capture
-        if (page && !page.isClosed()) {
-            await page.close().catch(() => {});
-        }
+        // Return the page to the pool after successful capture
+        await releasePage(page);
 
         return result;
     } catch (error: any) {
         logger.error('Error capturing screencast:', error);
 
-        // Clean up the page
-        if (page && !page.isClosed()) {
-            await page.close().catch(() => {});
-        }
+        // Discard the page, it may be in a broken state
+        await releasePage(page, true);
 
         throw error;
     }
@@ -1100,12 +1703,15 @@ export async function captureConsole(
         jsCommand: options.jsCommand,
         duration: options.duration,
         waitUntil: options.waitUntil,
+        device: options.device,
     });
 
     // Update activity time when console capture is requested
     updateActivityTime();
     await assertSafeCaptureUrl(options.url);
 
+    const emulation = options.device ? resolveDevice(options.device) : null;
+    const keepMessage = createConsoleFilter(options);
     const messages: ConsoleMessage[] = [];
     const startTime = new Date();
     const duration = options.duration || 4; // Default 4 seconds
@@ -1113,50 +1719,54 @@ export async function captureConsole(
     let browser: Browser | null = null;
     let page: Page | null = null;
 
+    const serializing: Promise<void>[] = [];
+    const onConsole = (msg: PageConsoleMessage) => {
+        const { message, serialized } = fromPageConsoleMessage(msg);
+        messages.push(message);
+        serializing.push(serialized);
+        logger.debug(`Console ${message.type}: ${message.text}`);
+    };
+
+    // Uncaught exceptions, with their stack
+    const onPageError = (error: unknown) => {
+        messages.push(fromPageError(error));
+        logger.debug(`Page error: ${getErrorMessage(error)}`);
+    };
+
+    // Session pages outlive this capture, so don't leave listeners behind
+    const detachListeners = () => {
+        page?.off('console', onConsole).off('pageerror', onPageError);
+    };
+
     try {
         // Get browser instance
         browser = await getBrowser();
-        page = await setupPage(browser);
-
-        // Set up console message listener
-        page.on('console', msg => {
-            const type = msg.type() as ConsoleMessage['type'];
-            const text = msg.text();
-            const timestamp = new Date();
-
-            // Try to get the actual arguments
-            const args: any[] = [];
-            msg.args().forEach(arg => {
-                args.push(arg.toString());
-            });
-
-            messages.push({
-                type,
-                text,
-                timestamp,
-                args: args.length > 0 ? args : undefined,
-            });
+        page = await acquirePage(browser, options.sessionId);
+        resetNetworkLog(page);
+        await applyRequestOptions(page, options);
+        // Mobile layouts can log differently, so only emulate when asked
+        if (emulation) {
+            await emulateDevice(page, emulation, options);
+        }
+        page.on('console', onConsole).on('pageerror', onPageError);
 
-            logger.debug(`Console ${type}: ${text}`);
-        });
+        logger.info(`Starting console capture for ${options.url}`);
 
-        // Set up page error listener
-        page.on('pageerror', error => {
-            messages.push({
-                type: 'error',
-                text: getErrorMessage(error),
-                timestamp: new Date(),
+        // Navigate to the page
+        if (shouldNavigate(page, options)) {
+            await page.goto(options.url, {
+                waitUntil: options.waitUntil || 'domcontentloaded',
+                timeout: 60000,
             });
-            logger.debug(`Page error: ${getErrorMessage(error)}`);
-        });
+        }
 
-        logger.info(`Starting console capture for ${options.url}`);
+        // Selector, predicate, network, asset and stability conditions
+        await waitForConditions(page, options);
 
-        // Navigate to the page
-        await page.goto(options.url, {
-            waitUntil: options.waitUntil || 'domcontentloaded',
-            timeout: 60000,
-        });
+        // Consent dialogs can hold back the scripts whose output we record
+        const dismissedOverlays = options.dismissOverlays
+            ? await dismissOverlays(page, options.overlaySelectors)
+            : [];
 
         // Execute JS command if provided
         if (options.jsCommand) {
@@ -1168,6 +1778,7 @@ export async function captureConsole(
                 logger.error('Failed to execute JS command:', error);
                 messages.push({
                     type: 'error',
+                    level: 'error',
                     text: `Failed to execute JS command: ${error}`,
                     timestamp: new Date(),
                 });
@@ -1179,34 +1790,410 @@ export async function captureConsole(
         await new Promise(resolve => setTimeout(resolve, duration * 1000));
 
         const endTime = new Date();
+        await Promise.all(serializing);
+        const kept = messages.filter(keepMessage);
 
         const result: ConsoleCaptureResult = {
             url: options.url,
-            messages,
+            messages: options.dedupe ? dedupeConsoleMessages(kept) : kept,
+            totalMessages: messages.length,
             startTime,
             endTime,
             duration,
             executedCommand: options.jsCommand,
+            dismissedOverlays,
+            blockedRequests: blockedRequests(page),
         };
 
         logger.info(
-            `Console capture completed: ${messages.length} messages captured`
+            `Console capture completed: ${messages.length} messages captured, ${result.messages.length} returned`
         );
 
-        // Clean up the page after successful capture
-        if (page && !page.isClosed()) {
-            await page.close().catch(() => {});
-        }
+        // Return the page to the pool after successful capture
+        detachListeners();
+        await releasePage(page);
 
         return result;
     } catch (error: any) {
         logger.error('Error capturing console:', error);
 
-        // Clean up the page
-        if (page && !page.isClosed()) {
-            await page.close().catch(() => {});
+        // Discard the page, it may be in a broken state
+        detachListeners();
+        await releasePage(page, true);
+
+        throw error;
+    }
+}
+
+export async function captureNetwork(
+    options: NetworkCaptureOptions
+): Promise<NetworkCaptureResult> {
+    logger.info('captureNetwork called with options:', {
+        url: options.url,
+        duration: options.duration,
+        waitUntil: options.waitUntil,
+        device: options.device,
+        actions: options.actions?.length,
+    });
+
+    // Update activity time when network capture is requested
+    updateActivityTime();
+    await assertSafeCaptureUrl(options.url);
+
+    const emulation = options.device ? resolveDevice(options.device) : null;
+    const startTime = new Date();
+    const duration = options.duration ?? 2; // Late requests after load, e.g. lazy bundles
+
+    let browser: Browser | null = null;
+    let page: Page | null = null;
+
+    try {
+        browser = await getBrowser();
+        page = await acquirePage(browser, options.sessionId);
+        resetNetworkLog(page);
+        await applyRequestOptions(page, options);
+        if (emulation) {
+            await emulateDevice(page, emulation, options);
+        }
+
+        logger.info(`Starting network capture for ${options.url}`);
+
+        // Navigate to the page; HTTP errors are what we are here to report
+        let status: number | undefined;
+        if (shouldNavigate(page, options)) {
+            const response = await page.goto(options.url, {
+                waitUntil: options.waitUntil || 'domcontentloaded',
+                timeout: 60000,
+            });
+            status = response?.status();
+        }
+
+        await waitForConditions(page, options);
+
+        // Accepting consent loads what it held back, those requests count too
+        const dismissedOverlays = options.dismissOverlays
+            ? await dismissOverlays(page, options.overlaySelectors)
+            : [];
+
+        if (options.actions?.length) {
+            await runActions(page, options.actions);
         }
 
+        logger.info(`Recording network for ${duration} more seconds...`);
+        await new Promise(resolve => setTimeout(resolve, duration * 1000));
+
+        const requests = recordedRequests(page);
+        const result: NetworkCaptureResult = {
+            url: options.url,
+            finalUrl: page.url(),
+            status,
+            startTime,
+            endTime: new Date(),
+            requests,
+            summary: summarizeNetwork(requests),
+            dismissedOverlays,
+            blockedRequests: blockedRequests(page),
+        };
+
+        logger.info(
+            `Network capture completed: ${requests.length} requests recorded`
+        );
+
+        // Return the page to the pool after successful capture
+        await releasePage(page);
+
+        return result;
+    } catch (error: any) {
+        logger.error('Error capturing network:', error);
+
+        // Discard the page, it may be in a broken state
+        await releasePage(page, true);
+
         throw error;
     }
 }
+
+export async function diagnosePage(
+    options: DiagnoseOptions
+): Promise<DiagnoseResult> {
+    logger.info('diagnosePage called with options:', {
+        url: options.url,
+        viewport: options.viewport,
+        device: options.device,
+        waitUntil: options.waitUntil,
+        waitFor: options.waitFor,
+        actions: options.actions?.length,
+    });
+
+    updateActivityTime();
+    await assertSafeCaptureUrl(options.url);
+    const emulation = resolveEmulation(options);
+
+    let browser: Browser | null = null;
+    let page: Page | null = null;
+    let attemptCount = 0;
+    const maxAttempts = options.sessionId ? 1 : 2; // A session's page can't be swapped for a fresh one
+
+    while (attemptCount < maxAttempts) {
+        // Collected from every page this attempt navigates, including recovery pages
+        const messages: ConsoleMessage[] = [];
+        const serializing: Promise<void>[] = [];
+        const onConsole = (msg: PageConsoleMessage) => {
+            const { message, serialized } = fromPageConsoleMessage(msg);
+            messages.push(message);
+            serializing.push(serialized);
+        };
+        const onPageError = (error: unknown) => {
+            messages.push(fromPageError(error));
+        };
+        const listen = (target: Page) =>
+            target.on('console', onConsole).on('pageerror', onPageError);
+        const detachListeners = () => {
+            page?.off('console', onConsole).off('pageerror', onPageError);
+        };
+
+        try {
+            attemptCount++;
+
+            browser = await getBrowser();
+            page = await acquirePage(browser, options.sessionId);
+            resetNetworkLog(page);
+            await applyRequestOptions(page, options);
+            await emulateDevice(page, emulation, options);
+            listen(page);
+
+            const recoveryCallback = async (): Promise<Page> => {
+                logger.info('Recovering from error, creating new page...');
+                detachListeners();
+                await releasePage(page, true);
+                browser = await getBrowser();
+                page = await acquirePage(browser);
+                await applyRequestOptions(page, options);
+                await emulateDevice(page, emulation, options);
+                listen(page);
+                return page;
+            };
+
+            if (shouldNavigate(page, options)) {
+                page = await navigateWithRetry(
+                    page,
+                    options.url,
+                    options,
+                    options.sessionId ? undefined : recoveryCallback
+                );
+            }
+
+            if (options.waitFor) {
+                await page.evaluate(
+                    ms => new Promise(resolve => setTimeout(resolve, ms)),
+                    options.waitFor
+                );
+            }
+
+            await waitForConditions(page, options);
+
+            const dismissedOverlays = options.dismissOverlays
+                ? await dismissOverlays(page, options.overlaySelectors)
+                : [];
+
+            if (options.actions?.length) {
+                await runActions(page, options.actions);
+            }
+
+            const screenshot = (await page.screenshot({
+                type: 'png',
+                fullPage: false,
+                encoding: 'binary',
+            })) as Buffer;
+            await Promise.all(serializing);
+
+            const requests = recordedRequests(page);
+            const result: DiagnoseResult = {
+                url: options.url,
+                finalUrl: page.url(),
+                status: documentStatus(page),
+                title: await page.title(),
+                ...(await prepareImage(screenshot, options)),
+                timestamp: new Date(),
+                viewport: emulation.viewport,
+                format: options.format ?? 'png',
+                targetModel: options.targetModel ?? DEFAULT_VISION_MODEL,
+                consoleMessages: messages.filter(
+                    message => message.type !== 'pageerror'
+                ),
+                exceptions: messages.filter(
+                    message => message.type === 'pageerror'
+                ),
+                failedRequests: requests.filter(
+                    request =>
+                        !request.blocked &&
+                        (request.failure ||
+                            (request.status !== undefined &&
+                                request.status >= 400))
+                ),
+                dismissedOverlays,
+                blockedRequests: blockedRequests(page),
+            };
+
+            logger.info(
+                `Diagnosis completed: ${result.consoleMessages.length} console messages, ${result.exceptions.length} exceptions, ${result.failedRequests.length} failed requests`
+            );
+
+            detachListeners();
+            await releasePage(page);
+
+            return result;
+        } catch (error: any) {
+            logger.error(
+                `Error diagnosing page (attempt ${attemptCount}/${maxAttempts}):`,
+                error
+            );
+
+            // Discard the page, it may be in a broken state
+            detachListeners();
+            await releasePage(page, true);
+
+            if (attemptCount >= maxAttempts) {
+                throw error;
+            }
+
+            logger.info('Retrying on a fresh page...');
+            await new Promise(resolve => setTimeout(resolve, 2000));
+        }
+    }
+
+    throw new Error('Failed to diagnose page after all attempts');
+}
+
+export async function captureAccessibility(
+    options: AccessibilityOptions
+): Promise<AccessibilityResult> {
+    logger.info('captureAccessibility called with options:', {
+        url: options.url,
+        selector: options.selector,
+        interestingOnly: options.interestingOnly,
+        audit: options.audit,
+        device: options.device,
+        waitUntil: options.waitUntil,
+        actions: options.actions?.length,
+    });
+
+    updateActivityTime();
+    await assertSafeCaptureUrl(options.url);
+    const emulation = resolveEmulation(options);
+
+    let browser: Browser | null = null;
+    let page: Page | null = null;
+    let attemptCount = 0;
+    const maxAttempts = options.sessionId ? 1 : 2; // A session's page can't be swapped for a fresh one
+
+    while (attemptCount < maxAttempts) {
+        try {
+            attemptCount++;
+
+            browser = await getBrowser();
+            page = await acquirePage(browser, options.sessionId);
+            resetNetworkLog(page);
+            await applyRequestOptions(page, options);
+            await emulateDevice(page, emulation, options);
+
+            const recoveryCallback = async (): Promise<Page> => {
+                logger.info('Recovering from error, creating new page...');
+                await releasePage(page, true);
+                browser = await getBrowser();
+                page = await acquirePage(browser);
+                await applyRequestOptions(page, options);
+                await emulateDevice(page, emulation, options);
+                return page;
+            };
+
+            if (shouldNavigate(page, options)) {
+                page = await navigateWithRetry(
+                    page,
+                    options.url,
+                    options,
+                    options.sessionId ? undefined : recoveryCallback
+                );
+            }
+
+            if (options.waitFor) {
+                await page.evaluate(
+                    ms => new Promise(resolve => setTimeout(resolve, ms)),
+                    options.waitFor
+                );
+            }
+
+            await waitForConditions(page, options);
+
+            const dismissedOverlays = options.dismissOverlays
+                ? await dismissOverlays(page, options.overlaySelectors)
+                : [];
+
+            if (options.actions?.length) {
+                await runActions(page, options.actions);
+            }
+
+            let root;
+            if (options.selector) {
+                try {
+                    root = await page.waitForSelector(options.selector, {
+                        timeout: options.selectorTimeoutMS ?? 5000,
+                    });
+                } catch (error) {
+                    throw new Error(
+                        `Selector "${options.selector}" was not found on ${options.url}`,
+                        { cause: error }
+                    );
+                }
+                if (!root) {
+                    throw new Error(
+                        `Selector "${options.selector}" was not found on ${options.url}`
+                    );
+                }
+            }
+
+            const snapshot = await page.accessibility.snapshot({
+                interestingOnly: options.interestingOnly ?? true,
+                root: root ?? undefined,
+            });
+            const tree = snapshot ? pruneAccessibilityTree(snapshot) : [];
+
+            const result: AccessibilityResult = {
+                url: options.url,
+                ...(options.selector ? { selector: options.selector } : {}),
+                timestamp: new Date(),
+                tree,
+                nodeCount: countAccessibilityNodes(tree),
+                ...(options.audit
+                    ? { issues: await auditAccessibility(page, root) }
+                    : {}),
+                dismissedOverlays,
+                blockedRequests: blockedRequests(page),
+            };
+
+            logger.info(
+                `Accessibility capture completed: ${result.nodeCount} nodes${result.issues ? `, ${result.issues.length} issues` : ''}`
+            );
+
+            await releasePage(page);
+
+            return result;
+        } catch (error) {
+            logger.error(
+                `Error capturing accessibility tree (attempt ${attemptCount}/${maxAttempts}):`,
+                error
+            );
+
+            await releasePage(page, true);
+
+            if (attemptCount >= maxAttempts) {
+                throw error;
+            }
+
+            logger.info('Retrying accessibility capture on a fresh page...');
+            await new Promise(resolve => setTimeout(resolve, 2000));
+        }
+    }
+
+    throw new Error('Failed to capture accessibility tree after all attempts');
+}
@@ -0,0 +1,435 @@
+import sharp from 'sharp';
+import type {
+    BaselineCheckResult,
+    BaselineOptions,
+    BlockedRequest,
+    SavedBaseline,
+    CompareOptions,
+    CompareResult,
+    DiffRegion,
+    ScreenshotResult,
+    TiledScreenshotResult,
+} from '../types.js';
+import {
+    captureScreenshot,
+    captureSelectorScreenshot,
+} from './screenshotCapture.js';
+import { diffImages } from './imageDiff.js';
+import {
+    BaselineStore,
+    baselineKey,
+    type BaselineTarget,
+} from './baselineStore.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_BASELINE_DIR =
+    process.env.SCREENSHOT_BASELINE_DIR || '.screenshot-baselines';
+const DEFAULT_MAX_MISMATCH_PERCENTAGE = 0.1;
+
+interface Tile {
+    row: number;
+    col: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    screenshot: Buffer;
+}
+
+interface TileGrid {
+    tiles: Tile[];
+    fullWidth: number;
+    fullHeight: number;
+    tileWidth: number;
+    tileHeight: number;
+}
+
+// Viewport-only captures become a grid with a single tile
+function toGrid(result: ScreenshotResult | TiledScreenshotResult): TileGrid {
+    if ('tiles' in result) {
+        return {
+            tiles: result.tiles,
+            fullWidth: result.fullWidth,
+            fullHeight: result.fullHeight,
+            tileWidth: result.tileSize,
+            tileHeight: result.tileHeight,
+        };
+    }
+
+    const { width, height } = result.viewport;
+    return {
+        tiles: [
+            {
+                row: 0,
+                col: 0,
+                x: 0,
+                y: 0,
+                width,
+                height,
+                screenshot: result.screenshot,
+            },
+        ],
+        fullWidth: width,
+        fullHeight: height,
+        tileWidth: width,
+        tileHeight: height,
+    };
+}
+
+// Cut a baseline PNG along the same grid the current capture was tiled on
+async function sliceImage(
+    image: Buffer,
+    tileWidth: number,
+    tileHeight: number,
+    scale: number
+): Promise<TileGrid> {
+    const metadata = await sharp(image).metadata();
+    if (!metadata.width || !metadata.height) {
+        throw new Error('Baseline image could not be read');
+    }
+
+    const fullWidth = Math.round(metadata.width / scale);
+    const fullHeight = Math.round(metadata.height / scale);
+    const rows = Math.ceil(fullHeight / tileHeight);
+    const cols = Math.ceil(fullWidth / tileWidth);
+    const tiles: Tile[] = [];
+
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            const x = col * tileWidth;
+            const y = row * tileHeight;
+            const left = Math.round(x * scale);
+            const top = Math.round(y * scale);
+            const width = Math.min(
+                Math.round(tileWidth * scale),
+                metadata.width - left
+            );
+            const height = Math.min(
+                Math.round(tileHeight * scale),
+                metadata.height - top
+            );
+            if (width <= 0 || height <= 0) continue;
+
+            tiles.push({
+                row,
+                col,
+                x,
+                y,
+                width: Math.round(width / scale),
+                height: Math.round(height / scale),
+                screenshot: await sharp(image)
+                    .extract({ left, top, width, height })
+                    .png()
+                    .toBuffer(),
+            });
+        }
+    }
+
+    return { tiles, fullWidth, fullHeight, tileWidth, tileHeight };
+}
+
+function toPageRegion(
+    region: DiffRegion,
+    tile: { x: number; y: number },
+    scale: number
+): DiffRegion {
+    return {
+        x: Math.round(tile.x + region.x / scale),
+        y: Math.round(tile.y + region.y / scale),
+        width: Math.round(region.width / scale),
+        height: Math.round(region.height / scale),
+    };
+}
+
+// Tile images are rendered at the device scale factor, tile coordinates are CSS pixels
+async function imageScale(grid: TileGrid): Promise<number> {
+    const firstTile = grid.tiles[0];
+    const { width } = await sharp(firstTile.screenshot).metadata();
+    return width ? width / firstTile.width : 1;
+}
+
+// Element shots have no page position, so their regions stay in image pixels
+async function elementGrid(screenshot: Buffer): Promise<TileGrid> {
+    const { width = 0, height = 0 } = await sharp(screenshot).metadata();
+    return {
+        tiles: [{ row: 0, col: 0, x: 0, y: 0, width, height, screenshot }],
+        fullWidth: width,
+        fullHeight: height,
+        tileWidth: width,
+        tileHeight: height,
+    };
+}
+
+async function diffGrids(
+    baselineGrid: TileGrid,
+    currentGrid: TileGrid,
+    scale: number,
+    threshold?: number
+): Promise<
+    Pick<
+        CompareResult,
+        | 'tiles'
+        | 'regions'
+        | 'mismatchedPixels'
+        | 'totalPixels'
+        | 'mismatchPercentage'
+    >
+> {
+    const pairs = new Map<string, { baseline?: Tile; current?: Tile }>();
+    for (const tile of baselineGrid.tiles) {
+        pairs.set(`${tile.row},${tile.col}`, { baseline: tile });
+    }
+    for (const tile of currentGrid.tiles) {
+        const key = `${tile.row},${tile.col}`;
+        pairs.set(key, { ...pairs.get(key), current: tile });
+    }
+
+    const sortedPairs = [...pairs.values()].sort((a, b) => {
+        const tileA = (a.current ?? a.baseline)!;
+        const tileB = (b.current ?? b.baseline)!;
+        return tileA.row - tileB.row || tileA.col - tileB.col;
+    });
+
+    logger.info(`Diffing ${sortedPairs.length} tiles...`);
+
+    const tiles: CompareResult['tiles'] = [];
+    let mismatchedPixels = 0;
+    let totalPixels = 0;
+
+    for (const [index, pair] of sortedPairs.entries()) {
+        const tile = (pair.current ?? pair.baseline)!;
+        const diff = await diffImages(
+            pair.baseline?.screenshot ?? null,
+            pair.current?.screenshot ?? null,
+            { threshold }
+        );
+
+        mismatchedPixels += diff.mismatchedPixels;
+        totalPixels += diff.totalPixels;
+
+        tiles.push({
+            index,
+            row: tile.row,
+            col: tile.col,
+            x: tile.x,
+            y: tile.y,
+            width: Math.max(
+                pair.baseline?.width ?? 0,
+                pair.current?.width ?? 0
+            ),
+            height: Math.max(
+                pair.baseline?.height ?? 0,
+                pair.current?.height ?? 0
+            ),
+            mismatchedPixels: diff.mismatchedPixels,
+            mismatchPercentage: diff.mismatchPercentage,
+            regions: diff.regions.map(region =>
+                toPageRegion(region, tile, scale)
+            ),
+            diff: diff.diff,
+        });
+    }
+
+    return {
+        tiles,
+        regions: tiles.flatMap(tile => tile.regions),
+        mismatchedPixels,
+        totalPixels,
+        mismatchPercentage:
+            totalPixels > 0 ? (mismatchedPixels / totalPixels) * 100 : 0,
+    };
+}
+
+/**
+ * Capture `url` and diff it tile by tile against either a second page
+ * (`baselineUrl`) or a PNG (`baselineImage`). Tiles that only exist on one
+ * side, e.g. when the page got taller, count as fully changed.
+ */
+export async function compareScreenshots(
+    options: CompareOptions
+): Promise<CompareResult> {
+    const { baselineUrl, baselineImage, threshold, ...captureOptions } =
+        options;
+    if (!baselineUrl === !baselineImage) {
+        throw new Error(
+            'Provide exactly one of "baselineUrl" or "baselineImage" to compare against'
+        );
+    }
+
+    logger.info('compareScreenshots called with options:', {
+        url: options.url,
+        baselineUrl,
+        hasBaselineImage: !!baselineImage,
+        fullPage: options.fullPage,
+        threshold,
+    });
+
+    let baselineGrid: TileGrid | null = null;
+    const blockedRequests: BlockedRequest[] = [];
+    if (baselineUrl) {
+        const baseline = await captureScreenshot({
+            ...captureOptions,
+            url: baselineUrl,
+        });
+        baselineGrid = toGrid(baseline);
+        blockedRequests.push(...baseline.blockedRequests);
+    }
+    const current = await captureScreenshot(captureOptions);
+    const currentGrid = toGrid(current);
+    blockedRequests.push(...current.blockedRequests);
+    const scale = await imageScale(currentGrid);
+
+    if (!baselineGrid) {
+        baselineGrid = await sliceImage(
+            baselineImage!,
+            currentGrid.tileWidth,
+            currentGrid.tileHeight,
+            scale
+        );
+    }
+
+    const result: CompareResult = {
+        url: options.url,
+        baseline: baselineUrl ?? 'image',
+        timestamp: new Date(),
+        fullWidth: currentGrid.fullWidth,
+        fullHeight: currentGrid.fullHeight,
+        tileSize: currentGrid.tileWidth,
+        ...(await diffGrids(baselineGrid, currentGrid, scale, threshold)),
+        format: 'png',
+        blockedRequests,
+    };
+
+    logger.info(
+        `Comparison completed: ${result.mismatchPercentage.toFixed(2)}% mismatch in ${result.regions.length} regions`
+    );
+
+    return result;
+}
+
+function toBaselineTarget(options: BaselineOptions): BaselineTarget {
+    return {
+        url: options.url,
+        viewport: {
+            width: options.viewport?.width || 1072,
+            height: options.viewport?.height || 1072,
+        },
+        fullPage: options.fullPage !== false,
+        selector: options.selector,
+        device: options.device,
+    };
+}
+
+async function captureGrid(
+    options: BaselineOptions
+): Promise<TileGrid & { blockedRequests: BlockedRequest[] }> {
+    if (options.selector) {
+        const result = await captureSelectorScreenshot({
+            ...options,
+            selector: options.selector,
+        });
+        return {
+            ...(await elementGrid(result.screenshot)),
+            blockedRequests: result.blockedRequests,
+        };
+    }
+    const result = await captureScreenshot(options);
+    return { ...toGrid(result), blockedRequests: result.blockedRequests };
+}
+
+/**
+ * Capture a page (as tiles) or an element and store it as the baseline for
+ * its URL + viewport + selector key, replacing any earlier one.
+ */
+export async function saveBaseline(
+    options: BaselineOptions
+): Promise<SavedBaseline> {
+    logger.info('saveBaseline called with options:', {
+        url: options.url,
+        selector: options.selector,
+        viewport: options.viewport,
+        device: options.device,
+        baselineDir: options.baselineDir,
+    });
+
+    const store = new BaselineStore(
+        options.baselineDir ?? DEFAULT_BASELINE_DIR
+    );
+    const grid = await captureGrid(options);
+
+    const entry = await store.save(toBaselineTarget(options), grid.tiles, grid);
+    return {
+        ...entry,
+        directory: store.directory,
+        blockedRequests: grid.blockedRequests,
+    };
+}
+
+/**
+ * Re-capture a saved baseline and diff it. The check passes when no more
+ * than `maxMismatchPercentage` of the pixels changed.
+ */
+export async function checkBaseline(
+    options: BaselineOptions
+): Promise<BaselineCheckResult> {
+    logger.info('checkBaseline called with options:', {
+        url: options.url,
+        selector: options.selector,
+        viewport: options.viewport,
+        device: options.device,
+        baselineDir: options.baselineDir,
+        threshold: options.threshold,
+        maxMismatchPercentage: options.maxMismatchPercentage,
+    });
+
+    const store = new BaselineStore(
+        options.baselineDir ?? DEFAULT_BASELINE_DIR
+    );
+    const key = baselineKey(toBaselineTarget(options));
+    const entry = await store.get(key);
+    if (!entry) {
+        throw new Error(
+            `No baseline saved for "${key}" in ${store.directory}, save one with save_baseline first`
+        );
+    }
+
+    const baselineGrid: TileGrid = {
+        tiles: await store.loadImages(entry),
+        fullWidth: entry.fullWidth,
+        fullHeight: entry.fullHeight,
+        tileWidth: entry.tiles[0]?.width ?? entry.fullWidth,
+        tileHeight: entry.tiles[0]?.height ?? entry.fullHeight,
+    };
+    const currentGrid = await captureGrid(options);
+    const scale = options.selector ? 1 : await imageScale(currentGrid);
+    const maxMismatchPercentage =
+        options.maxMismatchPercentage ?? DEFAULT_MAX_MISMATCH_PERCENTAGE;
+
+    const diff = await diffGrids(
+        baselineGrid,
+        currentGrid,
+        scale,
+        options.threshold
+    );
+    const result: BaselineCheckResult = {
+        key,
+        url: options.url,
+        baseline: key,
+        timestamp: new Date(),
+        savedAt: entry.updatedAt,
+        fullWidth: currentGrid.fullWidth,
+        fullHeight: currentGrid.fullHeight,
+        tileSize: currentGrid.tileWidth,
+        ...diff,
+        passed: diff.mismatchPercentage <= maxMismatchPercentage,
+        maxMismatchPercentage,
+        format: 'png',
+        blockedRequests: currentGrid.blockedRequests,
+    };
+
+    logger.info(
+        `Baseline check ${result.passed ? 'passed' : 'failed'}: ${result.mismatchPercentage.toFixed(2)}% mismatch (max ${maxMismatchPercentage}%)`
+    );
+
+    return result;
+}
@@ -0,0 +1,57 @@
+import type { Page } from 'puppeteer';
+import type { RequestOptions } from '../types.js';
+import type { ResolvedDevice } from './devices.js';
+import { logger } from '../utils/logger.js';
+
+// The identity a session page was opened with, restored after every capture
+export interface SessionIdentity extends Pick<
+    RequestOptions,
+    'headers' | 'httpCredentials' | 'userAgent'
+> {
+    emulation?: ResolvedDevice; // Kept by captures that set no device or viewport
+}
+
+// Trailing slashes, default ports and letter case of the host don't count
+function normalizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        parsed.pathname = parsed.pathname.replace(/(.)\/+$/, '$1');
+        return parsed.href;
+    } catch {
+        return url;
+    }
+}
+
+// Session pages stay where they are unless a different URL is requested
+export function shouldNavigate(
+    page: Page,
+    options: { url: string; sessionId?: string }
+): boolean {
+    return (
+        !options.sessionId ||
+        normalizeUrl(page.url()) !== normalizeUrl(options.url)
+    );
+}
+
+/**
+ * Undo the headers, credentials and user agent a capture set on a session
+ * page, so they apply to that call only. Cookies stay in the session's cookie
+ * jar like any cookie the site sets itself.
+ */
+export async function restoreSessionIdentity(
+    page: Page,
+    identity: SessionIdentity
+): Promise<void> {
+    try {
+        await page.setExtraHTTPHeaders(identity.headers ?? {});
+        await page.authenticate(identity.httpCredentials ?? null);
+        await page.setUserAgent({
+            userAgent: identity.userAgent ?? (await page.browser().userAgent()),
+        });
+    } catch (error) {
+        logger.warn(
+            'Failed to restore session headers and user agent:',
+            error instanceof Error ? error.message : String(error)
+        );
+    }
+}
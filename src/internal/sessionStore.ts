@@ -0,0 +1,195 @@
+import type { Page } from 'puppeteer';
+import type { SessionInfo } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+export interface SessionStoreOptions {
+    idleTimeoutMs: number; // Close sessions that have not been used for this long
+    maxSessions: number;
+    closePage: (page: Page) => Promise<void>;
+}
+
+interface BrowserSession {
+    id: string;
+    page: Page;
+    createdAt: Date;
+    lastUsedAt: Date;
+    busy: boolean;
+    waiters: (() => void)[];
+    expiryTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Named browser sessions that outlive a single tool call.
+ *
+ * Each session owns one live page (and its browser context), so cookies,
+ * storage and the current URL carry over between captures. Captures on the
+ * same session run one at a time, and idle sessions expire on their own.
+ */
+export class SessionStore {
+    private options: SessionStoreOptions;
+    private sessions = new Map<string, BrowserSession>();
+
+    constructor(options: SessionStoreOptions) {
+        this.options = options;
+    }
+
+    add(id: string, page: Page): SessionInfo {
+        if (this.sessions.has(id)) {
+            throw new Error(`Session "${id}" already exists`);
+        }
+        if (this.sessions.size >= this.options.maxSessions) {
+            throw new Error(
+                `Too many open sessions (max ${this.options.maxSessions}), close one with close_session first`
+            );
+        }
+
+        const now = new Date();
+        const session: BrowserSession = {
+            id,
+            page,
+            createdAt: now,
+            lastUsedAt: now,
+            busy: false,
+            waiters: [],
+            expiryTimer: null,
+        };
+        this.sessions.set(id, session);
+        this.scheduleExpiry(session);
+        logger.info(`Session ${id} opened`);
+
+        return this.describe(session);
+    }
+
+    has(id: string): boolean {
+        return this.sessions.has(id);
+    }
+
+    // Wait until the session is free and lease its page
+    async acquire(id: string): Promise<Page> {
+        const session = this.get(id);
+
+        if (session.busy) {
+            logger.debug(`Session ${id} is busy, queueing capture`);
+            await new Promise<void>(resolve => session.waiters.push(resolve));
+        } else {
+            session.busy = true;
+        }
+
+        if (this.sessions.get(id) !== session || session.page.isClosed()) {
+            if (this.sessions.get(id) === session) {
+                await this.close(id);
+            }
+            throw new Error(
+                `Session "${id}" was closed before the capture could run`
+            );
+        }
+
+        this.clearExpiry(session);
+        return session.page;
+    }
+
+    release(page: Page): void {
+        const session = this.findByPage(page);
+        if (!session) return;
+
+        session.lastUsedAt = new Date();
+        const next = session.waiters.shift();
+        if (next) {
+            // Hand the session straight to the oldest waiter
+            next();
+        } else {
+            session.busy = false;
+            this.scheduleExpiry(session);
+        }
+    }
+
+    owns(page: Page): boolean {
+        return this.findByPage(page) !== undefined;
+    }
+
+    // The live page of a session, without leasing it
+    page(id: string): Page {
+        return this.get(id).page;
+    }
+
+    info(id: string): SessionInfo {
+        return this.describe(this.get(id));
+    }
+
+    list(): SessionInfo[] {
+        return [...this.sessions.values()].map(session =>
+            this.describe(session)
+        );
+    }
+
+    async close(id: string): Promise<boolean> {
+        const session = this.sessions.get(id);
+        if (!session) return false;
+
+        this.sessions.delete(id);
+        this.clearExpiry(session);
+        await this.options.closePage(session.page);
+
+        // Wake queued captures so they fail instead of waiting forever
+        session.waiters.splice(0).forEach(wake => wake());
+        logger.info(`Session ${id} closed`);
+        return true;
+    }
+
+    async closeAll(): Promise<void> {
+        await Promise.all([...this.sessions.keys()].map(id => this.close(id)));
+    }
+
+    private get(id: string): BrowserSession {
+        const session = this.sessions.get(id);
+        if (!session) {
+            throw new Error(
+                `Unknown session "${id}". It may have expired, open a new one with open_session`
+            );
+        }
+        return session;
+    }
+
+    private findByPage(page: Page): BrowserSession | undefined {
+        for (const session of this.sessions.values()) {
+            if (session.page === page) return session;
+        }
+        return undefined;
+    }
+
+    private describe(session: BrowserSession): SessionInfo {
+        return {
+            id: session.id,
+            url: session.page.isClosed() ? '' : session.page.url(),
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: new Date(
+                session.lastUsedAt.getTime() + this.options.idleTimeoutMs
+            ),
+            busy: session.busy,
+        };
+    }
+
+    private scheduleExpiry(session: BrowserSession): void {
+        this.clearExpiry(session);
+        session.expiryTimer = setTimeout(() => {
+            if (session.busy) return;
+            logger.info(
+                `Session ${session.id} idle for ${this.options.idleTimeoutMs}ms, closing...`
+            );
+            this.close(session.id).catch(error =>
+                logger.error(`Error closing session ${session.id}:`, error)
+            );
+        }, this.options.idleTimeoutMs);
+
+        // Allow process to exit if this is the only thing keeping it alive
+        session.expiryTimer.unref();
+    }
+
+    private clearExpiry(session: BrowserSession): void {
+        if (session.expiryTimer) {
+            clearTimeout(session.expiryTimer);
+            session.expiryTimer = null;
+        }
+    }
+}
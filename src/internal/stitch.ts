@@ -0,0 +1,108 @@
+import sharp from 'sharp';
+import type { ImageFormat } from '../types.js';
+import type { TileRect } from './tiling.js';
+import { logger } from '../utils/logger.js';
+
+export interface StitchOptions {
+    maxHeight?: number; // Page pixels, larger pages fail or are downscaled
+    downscale?: boolean; // Shrink pages over maxHeight instead of failing
+    format?: ImageFormat; // Output format, some can't encode tall pages
+    deviceScaleFactor?: number; // Device pixels per page pixel, default 1
+}
+
+// Tallest image each format can encode, in device pixels. PNG has no
+// practical limit.
+const MAX_ENCODED_HEIGHT: Partial<Record<ImageFormat, number>> = {
+    jpeg: 65535,
+    webp: 16383,
+    avif: 16383,
+};
+
+// The tighter of stitchMaxHeight and the format's own limit, in page pixels
+function stitchLimit(
+    options: StitchOptions
+): { maxHeight: number; description: string; remedy: string } | undefined {
+    const encodedHeight = options.format && MAX_ENCODED_HEIGHT[options.format];
+    if (encodedHeight) {
+        const scale = options.deviceScaleFactor ?? 1;
+        const maxHeight = Math.floor(encodedHeight / scale);
+        if (!options.maxHeight || maxHeight < options.maxHeight) {
+            return {
+                maxHeight,
+                description: `the ${maxHeight}px ${options.format} images can hold${scale !== 1 ? ` at device scale ${scale}` : ''}`,
+                remedy:
+                    options.format === 'jpeg'
+                        ? 'save as png'
+                        : 'save as png or jpeg',
+            };
+        }
+    }
+    return options.maxHeight
+        ? {
+              maxHeight: options.maxHeight,
+              description: `the ${options.maxHeight}px stitch limit`,
+              remedy: 'raise the limit',
+          }
+        : undefined;
+}
+
+// Fail before capturing anything when the stitched page could never fit
+export function assertStitchable(
+    fullHeight: number,
+    options: StitchOptions
+): void {
+    const limit = stitchLimit(options);
+    if (limit && fullHeight > limit.maxHeight && !options.downscale) {
+        throw new Error(
+            `Page is ${fullHeight}px tall, more than ${limit.description}. Allow downscaling, ${limit.remedy} or capture tiles instead`
+        );
+    }
+}
+
+/**
+ * Compose PNG tiles into one PNG of the whole page. Tiles are placed at
+ * their page offsets times the device scale, so overlapping tiles simply
+ * paint the same pixels twice.
+ */
+export async function stitchTiles(
+    tiles: (TileRect & { screenshot: Buffer })[],
+    fullWidth: number,
+    fullHeight: number,
+    options: StitchOptions = {}
+): Promise<Buffer> {
+    assertStitchable(fullHeight, options);
+
+    // Tile images are rendered at the device scale factor
+    const { width: firstWidth = tiles[0].width } = await sharp(
+        tiles[0].screenshot
+    ).metadata();
+    const scale = firstWidth / tiles[0].width;
+
+    const stitched = await sharp({
+        create: {
+            width: Math.round(fullWidth * scale),
+            height: Math.round(fullHeight * scale),
+            channels: 4,
+            background: { r: 255, g: 255, b: 255, alpha: 1 },
+        },
+    })
+        .composite(
+            tiles.map(tile => ({
+                input: tile.screenshot,
+                left: Math.round(tile.x * scale),
+                top: Math.round(tile.y * scale),
+            }))
+        )
+        .png()
+        .toBuffer();
+
+    const limit = stitchLimit(options);
+    if (limit && fullHeight > limit.maxHeight) {
+        const height = Math.round(limit.maxHeight * scale);
+        logger.info(
+            `Downscaling stitched page from ${fullHeight}px to ${limit.description}`
+        );
+        return sharp(stitched).resize({ height }).png().toBuffer();
+    }
+    return stitched;
+}
@@ -0,0 +1,154 @@
+export interface TileRect {
+    row: number;
+    col: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface TileLayout {
+    tileWidth: number;
+    tileHeight: number;
+    overlap: number; // Pixels each tile repeats from its neighbour above/left
+}
+
+// Vertical extent of an element, in page pixels
+export interface ElementSpan {
+    top: number;
+    bottom: number;
+}
+
+export interface SmartCutOptions {
+    elements: ElementSpan[];
+    tolerance: number; // How far above the regular cut a gap may be
+}
+
+export function validateTileLayout(layout: TileLayout): void {
+    if (!(layout.tileHeight > 0)) {
+        throw new Error(
+            `"tileHeight" must be a positive number of pixels, got ${layout.tileHeight}`
+        );
+    }
+    if (
+        layout.overlap < 0 ||
+        layout.overlap >= Math.min(layout.tileWidth, layout.tileHeight)
+    ) {
+        throw new Error(
+            `"tileOverlap" must be at least 0 and smaller than the tile size (${Math.min(layout.tileWidth, layout.tileHeight)}px), got ${layout.overlap}`
+        );
+    }
+}
+
+// Cuts may move up by at most half a tile, so rows stay at least half as tall
+export function validateSmartCutTolerance(
+    tolerance: number,
+    tileHeight: number
+): void {
+    if (!(tolerance >= 0 && tolerance <= tileHeight / 2)) {
+        throw new Error(
+            `"smartTilingTolerance" must be between 0 and half the tile height (${tileHeight / 2}px), got ${tolerance}`
+        );
+    }
+}
+
+function countCutElements(y: number, elements: ElementSpan[]): number {
+    return elements.filter(span => span.top < y && span.bottom > y).length;
+}
+
+// The y in [min, ideal] cutting the fewest elements, the closest to ideal on ties
+function findGap(ideal: number, min: number, elements: ElementSpan[]): number {
+    const candidates = new Set([ideal]);
+    for (const span of elements) {
+        for (const edge of [span.top, span.bottom]) {
+            if (edge >= min && edge <= ideal) {
+                candidates.add(Math.round(edge));
+            }
+        }
+    }
+
+    let best = ideal;
+    let bestCount = countCutElements(ideal, elements);
+    for (const y of candidates) {
+        const count = countCutElements(y, elements);
+        if (count < bestCount || (count === bestCount && y > best)) {
+            best = y;
+            bestCount = count;
+        }
+    }
+    return best;
+}
+
+// Rows down the page, the last one ending exactly at the page edge
+function rowSpans(
+    fullHeight: number,
+    layout: TileLayout,
+    smartCuts?: SmartCutOptions
+): { y: number; height: number }[] {
+    // Elements taller than a tile get cut wherever the cut goes
+    const elements = smartCuts?.elements.filter(
+        span => span.bottom - span.top < layout.tileHeight
+    );
+    const rows = [];
+    let y = 0;
+
+    for (;;) {
+        let end = Math.min(y + layout.tileHeight, fullHeight);
+        if (elements && end < fullHeight) {
+            // Only ever move the cut up, and always leave the row taller than the overlap
+            const min = Math.max(
+                y + layout.overlap + 1,
+                end - smartCuts!.tolerance
+            );
+            end = findGap(end, min, elements);
+        }
+        rows.push({ y, height: end - y });
+        if (end >= fullHeight) {
+            return rows;
+        }
+        y = end - layout.overlap;
+    }
+}
+
+// Start offsets along one axis, the last tile ending exactly at the page edge
+function tileOffsets(length: number, size: number, overlap: number): number[] {
+    const offsets = [0];
+    const step = size - overlap;
+    while (offsets[offsets.length - 1] + size < length) {
+        offsets.push(offsets[offsets.length - 1] + step);
+    }
+    return offsets;
+}
+
+/**
+ * Cut a page into tiles in row-major order. With an overlap, every tile
+ * starts `overlap` pixels before the previous one ended, so content on a
+ * boundary appears whole in at least one tile. With `smartCuts`, each
+ * horizontal cut moves up into the nearest gap between elements within the
+ * tolerance, so rows get variable heights of at most `tileHeight`.
+ */
+export function layoutTiles(
+    fullWidth: number,
+    fullHeight: number,
+    layout: TileLayout,
+    smartCuts?: SmartCutOptions
+): TileRect[] {
+    validateTileLayout(layout);
+    if (smartCuts) {
+        validateSmartCutTolerance(smartCuts.tolerance, layout.tileHeight);
+    }
+
+    const xs = tileOffsets(fullWidth, layout.tileWidth, layout.overlap);
+    const rows = rowSpans(fullHeight, layout, smartCuts);
+    const tiles: TileRect[] = [];
+
+    rows.forEach(({ y, height }, row) => {
+        xs.forEach((x, col) => {
+            const width = Math.min(layout.tileWidth, fullWidth - x);
+            if (width > 0 && height > 0) {
+                tiles.push({ row, col, x, y, width, height });
+            }
+        });
+    });
+    return tiles;
+}
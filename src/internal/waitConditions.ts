@@ -0,0 +1,138 @@
+import type { Page } from 'puppeteer';
+import type { WaitConditions } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+const STABLE_FRAME_INTERVAL_MS = 250; // Time between frames compared for stability
+
+function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Run one condition, naming it and its timeout when it fails
+async function waitForCondition(
+    description: string,
+    timeout: number,
+    wait: () => Promise<unknown>
+): Promise<void> {
+    const start = Date.now();
+    try {
+        await wait();
+    } catch (error) {
+        throw new Error(
+            `Waiting for ${description} failed (timeout ${timeout}ms): ${getErrorMessage(error)}`
+        );
+    }
+    logger.debug(`Waited ${Date.now() - start}ms for ${description}`);
+}
+
+// Poll viewport frames until two in a row are identical
+async function waitForStableFrames(page: Page, timeout: number) {
+    const deadline = Date.now() + timeout;
+    let previous = (await page.screenshot({ type: 'png' })) as Uint8Array;
+
+    for (;;) {
+        await new Promise(resolve =>
+            setTimeout(resolve, STABLE_FRAME_INTERVAL_MS)
+        );
+        const frame = (await page.screenshot({ type: 'png' })) as Uint8Array;
+        if (Buffer.from(frame).equals(Buffer.from(previous))) {
+            return;
+        }
+        if (Date.now() >= deadline) {
+            throw new Error('the page was still changing between frames');
+        }
+        previous = frame;
+    }
+}
+
+/**
+ * Wait for every readiness condition set in options, in a fixed order:
+ * selector, predicate, network quiet, fonts and images, visual stability.
+ * Each condition gets its own `waitTimeout` and fails with an error saying
+ * which condition was not met.
+ */
+export async function waitForConditions(
+    page: Page,
+    options: WaitConditions
+): Promise<void> {
+    const timeout = options.waitTimeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+    if (!(timeout > 0)) {
+        throw new Error(
+            `"waitTimeout" must be a positive number of milliseconds, got ${timeout}`
+        );
+    }
+    if (
+        options.waitForNetworkIdle !== undefined &&
+        !(options.waitForNetworkIdle > 0)
+    ) {
+        throw new Error(
+            `"waitForNetworkIdle" must be a positive number of milliseconds, got ${options.waitForNetworkIdle}`
+        );
+    }
+
+    if (options.waitForSelector) {
+        const hidden = !!options.waitForSelectorHidden;
+        await waitForCondition(
+            `"${options.waitForSelector}" to become ${hidden ? 'hidden' : 'visible'}`,
+            timeout,
+            () =>
+                page.waitForSelector(options.waitForSelector!, {
+                    visible: !hidden,
+                    hidden,
+                    timeout,
+                })
+        );
+    }
+
+    if (options.waitForFunction) {
+        await waitForCondition(
+            `${JSON.stringify(options.waitForFunction)} to be truthy`,
+            timeout,
+            () =>
+                page.waitForFunction(options.waitForFunction!, {
+                    timeout,
+                    polling: 'raf',
+                })
+        );
+    }
+
+    if (options.waitForNetworkIdle) {
+        await waitForCondition(
+            `the network to be quiet for ${options.waitForNetworkIdle}ms`,
+            timeout,
+            () =>
+                page.waitForNetworkIdle({
+                    idleTime: options.waitForNetworkIdle,
+                    timeout,
+                })
+        );
+    }
+
+    if (options.waitForAssets) {
+        await waitForCondition('fonts and images to load', timeout, () =>
+            page.waitForFunction(
+                () => {
+                    const doc = (globalThis as any).document;
+                    // Deferred lazy images only load once scrolled to (see autoScroll)
+                    const images = Array.from(doc.images as any[]).filter(
+                        image => image.loading !== 'lazy'
+                    );
+                    return (
+                        doc.fonts.status === 'loaded' &&
+                        images.every(image => image.complete)
+                    );
+                },
+                { timeout, polling: 100 }
+            )
+        );
+    }
+
+    if (options.waitForStable) {
+        await waitForCondition(
+            'two identical consecutive frames',
+            timeout,
+            () => waitForStableFrames(page, timeout)
+        );
+    }
+}
@@ -10,10 +10,30 @@ import {
     type Tool,
     type Resource,
 } from '@modelcontextprotocol/sdk/types.js';
-import { writeFile, mkdir } from 'fs/promises';
+import { writeFile, mkdir, readFile } from 'fs/promises';
 import { join } from 'path';
 import { existsSync } from 'fs';
+import { randomUUID } from 'crypto';
 import { logger } from './utils/logger.js';
+import { redactSecrets } from './utils/redact.js';
+import { ResourceStore } from './internal/resourceStore.js';
+import type { WaitConditions } from './types.js';
+import { buildHar } from './internal/har.js';
+import { summarizeNetwork } from './internal/networkRecorder.js';
+import { formatAccessibilityOutline } from './internal/accessibility.js';
+import {
+    accessibilityOutput,
+    baselineOutput,
+    compareOutput,
+    consoleOutput,
+    diagnoseOutput,
+    networkOutput,
+    screencastOutput,
+    screenshotOutput,
+    selectorOutput,
+    sessionOutput,
+    type HarLocation,
+} from './utils/toolOutput.js';
 
 logger.info('MCP Server starting up...');
 logger.debug('Node version:', process.version);
@@ -22,33 +42,496 @@ logger.debug('Environment:', { LOG_LEVEL: process.env.LOG_LEVEL });
 
 // Lazy load heavy dependencies
 let screenshotModule: any;
+let compareModule: any;
+
+// Captured images stay readable as MCP resources until evicted
+const RESOURCE_CACHE_MB =
+    parseInt(process.env.SCREENSHOT_RESOURCE_CACHE_MB ?? '', 10) || 100;
+const resourceStore = new ResourceStore({
+    maxBytes: RESOURCE_CACHE_MB * 1024 * 1024,
+});
+
+const SERVER_INFO = { name: 'screenshot-website-fast', version: '0.1.25' };
 
 logger.debug('Creating MCP server instance...');
-const server = new Server(
-    {
-        name: 'screenshot-website-fast',
-        version: '0.1.25',
-    },
-    {
-        capabilities: {
-            tools: {},
-            resources: {},
-        },
-    }
-);
+const server = new Server(SERVER_INFO, {
+    capabilities: {
+        tools: {},
+        resources: {},
+    },
+});
 logger.info('MCP server instance created successfully');
 
+// Shared schema for scripted interaction steps
+const ACTIONS_SCHEMA = {
+    type: 'array',
+    description:
+        'Interaction steps run in order after the page loads and before capture. Each step has a "type" and an optional "timeout" in milliseconds (default 5000). A failing step aborts the capture with an error naming it.',
+    items: {
+        type: 'object',
+        properties: {
+            type: {
+                type: 'string',
+                enum: [
+                    'click',
+                    'type',
+                    'press',
+                    'hover',
+                    'scroll',
+                    'select',
+                    'waitForSelector',
+                    'waitForNavigation',
+                ],
+                description:
+                    'click/hover/type/select: act on "selector". press: press "key", optionally focused on "selector". scroll: scroll "selector" into view, or to "x"/"y". waitForSelector: wait for "selector" to appear (or disappear with "hidden"). waitForNavigation: wait for the navigation triggered by the previous step.',
+            },
+            selector: {
+                type: 'string',
+                description: 'CSS selector of the target element',
+            },
+            text: {
+                type: 'string',
+                description: 'Text to type (type)',
+            },
+            key: {
+                type: 'string',
+                description: 'Key to press, e.g. "Enter" or "Tab" (press)',
+            },
+            values: {
+                oneOf: [
+                    { type: 'string' },
+                    { type: 'array', items: { type: 'string' } },
+                ],
+                description: 'Option value(s) to choose (select)',
+            },
+            x: { type: 'number', description: 'Scroll x position (scroll)' },
+            y: { type: 'number', description: 'Scroll y position (scroll)' },
+            hidden: {
+                type: 'boolean',
+                description: 'Wait for the element to disappear instead',
+            },
+            waitUntil: {
+                type: 'string',
+                description:
+                    'Navigation event to wait for (waitForNavigation): load, domcontentloaded, networkidle0, networkidle2',
+            },
+            delay: {
+                type: 'number',
+                description: 'Delay between keystrokes in milliseconds (type)',
+            },
+            timeout: {
+                type: 'number',
+                description: 'Step timeout in milliseconds',
+                default: 5000,
+            },
+        },
+        required: ['type'],
+    },
+};
+
+// Shared schema for cookies, headers and credentials applied before navigation
+const REQUEST_OPTIONS_PROPERTIES = {
+    cookies: {
+        type: 'array',
+        description:
+            'Cookies to set before navigation. Without "domain" or "url", a cookie is scoped to the capture URL.',
+        items: {
+            type: 'object',
+            properties: {
+                name: { type: 'string' },
+                value: { type: 'string' },
+                url: { type: 'string' },
+                domain: { type: 'string' },
+                path: { type: 'string' },
+                expires: {
+                    type: 'number',
+                    description: 'Unix time in seconds',
+                },
+                httpOnly: { type: 'boolean' },
+                secure: { type: 'boolean' },
+                sameSite: { type: 'string', enum: ['Strict', 'Lax', 'None'] },
+            },
+            required: ['name', 'value'],
+        },
+    },
+    headers: {
+        type: 'object',
+        description:
+            'Extra HTTP headers sent with every request, e.g. {"Authorization": "Bearer ..."}',
+        additionalProperties: { type: 'string' },
+    },
+    httpCredentials: {
+        type: 'object',
+        description: 'HTTP basic auth credentials',
+        properties: {
+            username: { type: 'string' },
+            password: { type: 'string' },
+        },
+        required: ['username', 'password'],
+    },
+    userAgent: {
+        type: 'string',
+        description: 'User agent string to send instead of the default',
+    },
+    blockedResourceTypes: {
+        type: 'array',
+        items: { type: 'string' },
+        description:
+            'Resource types aborted instead of loaded (default: ["font", "media"]). Pass [] to load everything. Aborted requests are reported as blockedRequests.',
+    },
+    allowFonts: {
+        type: 'boolean',
+        description:
+            'Load web fonts so typography renders faithfully, even when blockedResourceTypes lists them',
+        default: false,
+    },
+};
+
+// Shared schema for device emulation, a preset name or explicit parameters
+const DEVICE_SCHEMA = {
+    description:
+        'Emulate a device: a preset name ("iphone", "iphone-se", "pixel", "galaxy", "ipad", "ipad-mini", "desktop-hidpi" or any Puppeteer device name such as "iPhone 15 Pro", add " landscape" to rotate) or explicit parameters. Overrides width/height. Image pixel size is the viewport size times deviceScaleFactor.',
+    oneOf: [
+        { type: 'string' },
+        {
+            type: 'object',
+            properties: {
+                width: { type: 'number' },
+                height: { type: 'number' },
+                deviceScaleFactor: { type: 'number', default: 1 },
+                isMobile: { type: 'boolean', default: false },
+                hasTouch: { type: 'boolean', default: false },
+                isLandscape: { type: 'boolean', default: false },
+                userAgent: { type: 'string' },
+            },
+            required: ['width', 'height'],
+        },
+    ],
+};
+
+// Shared pieces of the output schemas describing each tool's structuredContent
+const VIEWPORT_OUTPUT_SCHEMA = {
+    type: 'object',
+    properties: {
+        width: { type: 'number' },
+        height: { type: 'number' },
+    },
+    required: ['width', 'height'],
+};
+
+const REGION_OUTPUT_SCHEMA = {
+    type: 'object',
+    properties: {
+        x: { type: 'number' },
+        y: { type: 'number' },
+        width: { type: 'number' },
+        height: { type: 'number' },
+    },
+    required: ['x', 'y', 'width', 'height'],
+};
+
+// Position of a tile on the page, in CSS pixels
+const TILE_OUTPUT_PROPERTIES = {
+    index: { type: 'number' },
+    row: { type: 'number' },
+    col: { type: 'number' },
+    x: { type: 'number' },
+    y: { type: 'number' },
+    width: { type: 'number' },
+    height: { type: 'number' },
+    path: {
+        type: 'string',
+        description: 'Saved file, when "directory" was given',
+    },
+    uri: {
+        type: 'string',
+        description: 'Resource URI to fetch the image with resources/read',
+    },
+};
+
+const BLOCKED_REQUESTS_OUTPUT_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            url: { type: 'string' },
+            resourceType: { type: 'string' },
+            reason: { type: 'string' },
+        },
+        required: ['url', 'resourceType', 'reason'],
+    },
+    description:
+        'Requests the capture aborted: blocked resource types (fonts and media by default) and unsafe URLs',
+};
+
+const NETWORK_REQUESTS_OUTPUT_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            url: { type: 'string' },
+            method: { type: 'string' },
+            resourceType: { type: 'string' },
+            startedAt: { type: 'string', format: 'date-time' },
+            status: { type: 'number' },
+            duration: { type: 'number' },
+            size: { type: 'number' },
+            failure: { type: 'string' },
+            blocked: { type: 'string' },
+        },
+        required: ['url', 'method', 'resourceType', 'startedAt'],
+    },
+};
+
+const CONSOLE_MESSAGES_OUTPUT_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            type: { type: 'string' },
+            level: {
+                type: 'string',
+                enum: ['error', 'warning', 'info', 'debug'],
+            },
+            text: { type: 'string' },
+            timestamp: { type: 'string', format: 'date-time' },
+            args: { type: 'array' },
+            location: {
+                type: 'object',
+                properties: {
+                    url: { type: 'string' },
+                    line: { type: 'number' },
+                    column: { type: 'number' },
+                },
+                required: ['url'],
+            },
+            stack: { type: 'string' },
+            count: { type: 'number' },
+        },
+        required: ['type', 'level', 'text', 'timestamp'],
+    },
+};
+
+const NETWORK_SUMMARY_PROPERTIES = {
+    requests: { type: 'number' },
+    failed: {
+        type: 'number',
+        description: 'Failed loads, not counting blocked requests',
+    },
+    blocked: { type: 'number' },
+    errorResponses: { type: 'number', description: 'HTTP 4xx and 5xx' },
+    totalBytes: { type: 'number' },
+    byType: {
+        type: 'object',
+        description: 'Requests per resource type',
+    },
+};
+
+const NETWORK_SUMMARY_OUTPUT_SCHEMA = {
+    type: 'object',
+    properties: {
+        ...NETWORK_SUMMARY_PROPERTIES,
+        harPath: { type: 'string' },
+        harUri: { type: 'string' },
+    },
+    description: 'Requests recorded with "har"',
+};
+
+const DISMISSED_OVERLAYS_OUTPUT_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            selector: { type: 'string' },
+            action: { type: 'string', enum: ['clicked', 'hidden'] },
+        },
+        required: ['name', 'selector', 'action'],
+    },
+    description: 'Consent banners and overlays removed before capture',
+};
+
+const SAVED_PATHS_OUTPUT_SCHEMA = {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Files written to disk by this call',
+};
+
+const DIFF_OUTPUT_PROPERTIES = {
+    url: { type: 'string' },
+    baseline: {
+        type: 'string',
+        description: 'Baseline URL, "image" or the baseline key',
+    },
+    timestamp: { type: 'string', format: 'date-time' },
+    fullWidth: { type: 'number' },
+    fullHeight: { type: 'number' },
+    tileSize: { type: 'number' },
+    mismatchedPixels: { type: 'number' },
+    totalPixels: { type: 'number' },
+    mismatchPercentage: { type: 'number' },
+    regions: {
+        type: 'array',
+        items: REGION_OUTPUT_SCHEMA,
+        description: 'Changed areas in page coordinates',
+    },
+    tiles: {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                ...TILE_OUTPUT_PROPERTIES,
+                mismatchedPixels: { type: 'number' },
+                mismatchPercentage: { type: 'number' },
+                regions: { type: 'array', items: REGION_OUTPUT_SCHEMA },
+            },
+            required: ['index', 'row', 'col', 'x', 'y', 'width', 'height'],
+        },
+    },
+    savedPaths: SAVED_PATHS_OUTPUT_SCHEMA,
+    blockedRequests: BLOCKED_REQUESTS_OUTPUT_SCHEMA,
+};
+
+const DIFF_OUTPUT_REQUIRED = [
+    'url',
+    'baseline',
+    'timestamp',
+    'mismatchedPixels',
+    'totalPixels',
+    'mismatchPercentage',
+    'regions',
+    'tiles',
+    'savedPaths',
+];
+
+const SESSION_OUTPUT_SCHEMA = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        url: { type: 'string' },
+        createdAt: { type: 'string', format: 'date-time' },
+        lastUsedAt: { type: 'string', format: 'date-time' },
+        expiresAt: { type: 'string', format: 'date-time' },
+        busy: { type: 'boolean' },
+    },
+    required: ['id', 'url', 'createdAt', 'lastUsedAt', 'expiresAt', 'busy'],
+};
+
+const IMAGE_FORMAT_PROPERTIES = {
+    format: {
+        type: 'string',
+        enum: ['png', 'jpeg', 'webp', 'avif'],
+        description:
+            'Image format. Lossy formats are much smaller than PNG for long pages.',
+        default: 'png',
+    },
+    quality: {
+        type: 'number',
+        minimum: 1,
+        maximum: 100,
+        description:
+            'Encoding quality for jpeg, webp and avif (PNG is quantized to a palette when set)',
+    },
+    maxBytes: {
+        type: 'number',
+        description:
+            'Size budget per image in bytes: quality is lowered, then the image scaled down, until each tile fits',
+    },
+    targetModel: {
+        type: 'string',
+        enum: ['claude', 'gpt-4o', 'gemini'],
+        description:
+            'Vision model the images are for: tiles are downscaled to the size it actually looks at, and token estimates use its pricing rules (estimates default to claude)',
+    },
+    maxImageTokens: {
+        type: 'number',
+        description:
+            'Image token budget per tile, tiles are downscaled until their estimated cost fits',
+    },
+};
+
+const OVERLAY_PROPERTIES = {
+    dismissOverlays: {
+        type: 'boolean',
+        description:
+            'Click away or hide cookie banners, consent dialogs and modal overlays before capture (known consent managers, aria-modal dialogs, high z-index layers covering the viewport)',
+        default: false,
+    },
+    overlaySelectors: {
+        type: 'array',
+        items: { type: 'string' },
+        description:
+            'Extra CSS selectors to hide along with the built-in overlay list',
+    },
+};
+
+// Readiness conditions checked after navigation and waitForMS
+const WAIT_CONDITION_PROPERTIES = {
+    waitForSelector: {
+        type: 'string',
+        description:
+            'Wait for an element matching this CSS selector to become visible',
+    },
+    waitForSelectorHidden: {
+        type: 'boolean',
+        description:
+            'Wait for waitForSelector to become hidden or removed instead, e.g. a loading spinner',
+        default: false,
+    },
+    waitForFunction: {
+        type: 'string',
+        description:
+            'JavaScript expression evaluated in the page until it is truthy, e.g. "window.appReady === true"',
+    },
+    waitForNetworkIdle: {
+        type: 'number',
+        description:
+            'Wait until there have been no network requests for this many milliseconds',
+    },
+    waitForAssets: {
+        type: 'boolean',
+        description: 'Wait for web fonts and images to finish loading',
+        default: false,
+    },
+    waitForStable: {
+        type: 'boolean',
+        description:
+            'Wait until two consecutive frames are identical, so animations and transitions have settled',
+        default: false,
+    },
+    waitTimeout: {
+        type: 'number',
+        description:
+            'Timeout in milliseconds for each wait condition; the capture fails naming the condition that was not met (default: 10000)',
+    },
+};
+
+const HAR_PROPERTY = {
+    type: 'boolean',
+    description:
+        'Record the network requests of the capture and return a summary plus a HAR 1.2 file, saved to "directory" or kept as a resource. Shows 404s and failed loads behind blank renders.',
+    default: false,
+};
+
+const RESOURCE_LINKS_PROPERTY = {
+    type: 'boolean',
+    description:
+        'Return resource links (e.g. screenshot://<id>/tile/0) instead of inline base64 images, to be fetched on demand with resources/read. Images are kept in a bounded cache and may be evicted.',
+    default: false,
+};
+
 // Tool definitions
 const SCREENSHOT_TOOL: Tool = {
     name: 'take_screenshot',
     description:
-        'Fast, efficient screenshot capture of web pages - optimized for CLI coding tools. Use this after performing updates to web pages to ensure your changes are displayed correctly. Automatically tiles full pages into 1072x1072 chunks for optimal processing.',
+        'Fast, efficient screenshot capture of web pages - optimized for CLI coding tools. Use this after performing updates to web pages to ensure your changes are displayed correctly. Full pages are split into tiles, 1072x1072 by default; tileHeight, tileOverlap and smartTiling change how they are cut, and stitch returns one image of the whole page instead.',
     inputSchema: {
         type: 'object',
         properties: {
             url: {
                 type: 'string',
-                description: 'HTTP/HTTPS URL to capture',
+                description:
+                    "HTTP/HTTPS URL to capture (optional with sessionId: defaults to the session's current page)",
             },
             width: {
                 type: 'number',
@@ -61,6 +544,73 @@ const SCREENSHOT_TOOL: Tool = {
                     'Capture full page screenshot with tiling. If false, only the viewport is captured.',
                 default: true,
             },
+            maxWidth: {
+                type: 'number',
+                description:
+                    'Pages wider than the viewport are tiled in columns up to this width in pixels (default: 4 viewport widths)',
+            },
+            tileHeight: {
+                type: 'number',
+                description:
+                    'Height of full-page tiles in pixels (default: the viewport width, i.e. square tiles)',
+            },
+            tileOverlap: {
+                type: 'number',
+                description:
+                    'Pixels each tile repeats from the previous one, so text and buttons on a tile boundary appear whole in at least one tile',
+                default: 0,
+            },
+            fixedElements: {
+                type: 'string',
+                enum: ['keep', 'hide-after-first', 'hide'],
+                description:
+                    'Fixed and sticky elements (headers, cookie banners, chat widgets) in full-page tiles: keep them, show them only in the first tile, or hide them everywhere',
+                default: 'keep',
+            },
+            stitch: {
+                type: 'boolean',
+                description:
+                    'Return the full page as one stitched image instead of tiles, e.g. for archiving or bug reports',
+                default: false,
+            },
+            stitchMaxHeight: {
+                type: 'number',
+                description:
+                    'Tallest page in pixels that is stitched; taller pages fail unless stitchDownscale is set',
+            },
+            stitchDownscale: {
+                type: 'boolean',
+                description:
+                    'Shrink stitched pages taller than stitchMaxHeight to fit instead of failing',
+                default: false,
+            },
+            smartTiling: {
+                type: 'boolean',
+                description:
+                    'Move each tile cut up into a gap between elements, so cards, table rows and headings are not split. Tiles then have variable heights.',
+                default: false,
+            },
+            smartTilingTolerance: {
+                type: 'number',
+                description:
+                    'How many pixels a smart cut may move up, at most half the tile height (default: a quarter of the tile height)',
+            },
+            autoScroll: {
+                type: 'boolean',
+                description:
+                    'Before a full-page capture, scroll to the bottom a viewport at a time, waiting for the network and images after each step, so lazy-loaded images and infinite-scroll content are rendered',
+                default: false,
+            },
+            autoScrollMaxHeight: {
+                type: 'number',
+                description:
+                    'Stop scrolling once the page grew this many pixels tall; pages growing past it are captured up to this height, pages already taller before scrolling are captured whole (default: 20000)',
+            },
+            autoScrollMaxSteps: {
+                type: 'number',
+                description:
+                    'Stop scrolling after this many steps (default: 50)',
+            },
             waitUntil: {
                 type: 'string',
                 description:
@@ -76,8 +626,103 @@ const SCREENSHOT_TOOL: Tool = {
                 description:
                     'Save tiled screenshots to a local directory (returns file paths instead of base64)',
             },
+            ...IMAGE_FORMAT_PROPERTIES,
+            resourceLinks: RESOURCE_LINKS_PROPERTY,
+            har: HAR_PROPERTY,
+            actions: ACTIONS_SCHEMA,
+            ...REQUEST_OPTIONS_PROPERTIES,
+            device: DEVICE_SCHEMA,
+            ...OVERLAY_PROPERTIES,
+            ...WAIT_CONDITION_PROPERTIES,
+            sessionId: {
+                type: 'string',
+                description:
+                    'Run inside a session opened with open_session, reusing its cookies and current page. The page is only navigated when "url" differs from its current URL.',
+            },
+        },
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            url: { type: 'string' },
+            blockedRequests: BLOCKED_REQUESTS_OUTPUT_SCHEMA,
+            timestamp: { type: 'string', format: 'date-time' },
+            format: { type: 'string' },
+            fullPage: { type: 'boolean' },
+            fullWidth: { type: 'number' },
+            fullHeight: { type: 'number' },
+            pageWidth: {
+                type: 'number',
+                description:
+                    'Measured page width, larger than fullWidth when the page was cropped at maxWidth',
+            },
+            tileSize: { type: 'number', description: 'Tile width' },
+            tileHeight: { type: 'number' },
+            tileOverlap: { type: 'number' },
+            stitched: {
+                type: 'boolean',
+                description: 'The single tile holds the whole page',
+            },
+            fixedElementsHidden: {
+                type: 'number',
+                description: 'Fixed/sticky elements hidden while tiling',
+            },
+            dismissedOverlays: DISMISSED_OVERLAYS_OUTPUT_SCHEMA,
+            network: NETWORK_SUMMARY_OUTPUT_SCHEMA,
+            autoScroll: {
+                type: 'object',
+                properties: {
+                    steps: { type: 'number' },
+                    initialHeight: {
+                        type: 'number',
+                        description: 'Page height before scrolling',
+                    },
+                    height: { type: 'number' },
+                    limitReached: {
+                        type: 'boolean',
+                        description:
+                            'Scrolling stopped at the height or step cap before the bottom',
+                    },
+                },
+                required: ['steps', 'initialHeight', 'height', 'limitReached'],
+            },
+            targetModel: { type: 'string' },
+            estimatedTokens: {
+                type: 'number',
+                description: 'Estimated image tokens of all tiles together',
+            },
+            tiles: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        ...TILE_OUTPUT_PROPERTIES,
+                        estimatedTokens: { type: 'number' },
+                    },
+                    required: [
+                        'index',
+                        'row',
+                        'col',
+                        'x',
+                        'y',
+                        'width',
+                        'height',
+                    ],
+                },
+            },
+            savedPaths: SAVED_PATHS_OUTPUT_SCHEMA,
         },
-        required: ['url'],
+        required: [
+            'url',
+            'timestamp',
+            'format',
+            'fullPage',
+            'fullWidth',
+            'fullHeight',
+            'estimatedTokens',
+            'tiles',
+            'savedPaths',
+        ],
     },
     annotations: {
         title: 'Take Screenshot',
@@ -97,7 +742,8 @@ const SCREENCAST_TOOL: Tool = {
         properties: {
             url: {
                 type: 'string',
-                description: 'HTTP/HTTPS URL to capture',
+                description:
+                    "HTTP/HTTPS URL to capture (optional with sessionId: defaults to the session's current page)",
             },
             duration: {
                 type: 'number',
@@ -156,8 +802,68 @@ const SCREENCAST_TOOL: Tool = {
                 enum: ['low', 'medium', 'high'],
                 default: 'medium',
             },
+            resourceLinks: RESOURCE_LINKS_PROPERTY,
+            har: HAR_PROPERTY,
+            ...REQUEST_OPTIONS_PROPERTIES,
+            device: DEVICE_SCHEMA,
+            ...OVERLAY_PROPERTIES,
+            ...WAIT_CONDITION_PROPERTIES,
+            sessionId: {
+                type: 'string',
+                description:
+                    'Run inside a session opened with open_session, reusing its cookies and current page. The page is only navigated when "url" differs from its current URL.',
+            },
+        },
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            url: { type: 'string' },
+            blockedRequests: BLOCKED_REQUESTS_OUTPUT_SCHEMA,
+            startTime: { type: 'string', format: 'date-time' },
+            endTime: { type: 'string', format: 'date-time' },
+            duration: { type: 'number' },
+            interval: { type: 'number' },
+            viewport: VIEWPORT_OUTPUT_SCHEMA,
+            format: { type: 'string' },
+            savedAs: {
+                type: 'string',
+                enum: ['inline', 'png', 'webp'],
+                description:
+                    'How frames were returned: inline images, PNG files or one animated WebP',
+            },
+            webpUri: {
+                type: 'string',
+                description: 'Resource URI of the animated WebP',
+            },
+            dismissedOverlays: DISMISSED_OVERLAYS_OUTPUT_SCHEMA,
+            network: NETWORK_SUMMARY_OUTPUT_SCHEMA,
+            frames: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        index: { type: 'number' },
+                        timestamp: { type: 'string', format: 'date-time' },
+                        path: { type: 'string' },
+                        uri: { type: 'string' },
+                    },
+                    required: ['index', 'timestamp'],
+                },
+            },
+            savedPaths: SAVED_PATHS_OUTPUT_SCHEMA,
         },
-        required: ['url'],
+        required: [
+            'url',
+            'startTime',
+            'endTime',
+            'duration',
+            'interval',
+            'viewport',
+            'savedAs',
+            'frames',
+            'savedPaths',
+        ],
     },
     annotations: {
         title: 'Take Screencast',
@@ -177,7 +883,8 @@ const CAPTURE_SELECTOR_TOOL: Tool = {
         properties: {
             url: {
                 type: 'string',
-                description: 'HTTP/HTTPS URL to capture',
+                description:
+                    "HTTP/HTTPS URL to capture (optional with sessionId: defaults to the session's current page)",
             },
             selector: {
                 type: 'string',
@@ -209,8 +916,45 @@ const CAPTURE_SELECTOR_TOOL: Tool = {
                     'How long to wait for the selector to appear before failing',
                 default: 5000,
             },
+            ...IMAGE_FORMAT_PROPERTIES,
+            resourceLinks: RESOURCE_LINKS_PROPERTY,
+            har: HAR_PROPERTY,
+            actions: ACTIONS_SCHEMA,
+            ...REQUEST_OPTIONS_PROPERTIES,
+            device: DEVICE_SCHEMA,
+            ...OVERLAY_PROPERTIES,
+            ...WAIT_CONDITION_PROPERTIES,
+            sessionId: {
+                type: 'string',
+                description:
+                    'Run inside a session opened with open_session, reusing its cookies and current page. The page is only navigated when "url" differs from its current URL.',
+            },
+        },
+        required: ['selector'],
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            url: { type: 'string' },
+            blockedRequests: BLOCKED_REQUESTS_OUTPUT_SCHEMA,
+            selector: { type: 'string' },
+            uri: { type: 'string' },
+            timestamp: { type: 'string', format: 'date-time' },
+            format: { type: 'string' },
+            targetModel: { type: 'string' },
+            estimatedTokens: { type: 'number' },
+            viewport: VIEWPORT_OUTPUT_SCHEMA,
+            dismissedOverlays: DISMISSED_OVERLAYS_OUTPUT_SCHEMA,
+            network: NETWORK_SUMMARY_OUTPUT_SCHEMA,
         },
-        required: ['url', 'selector'],
+        required: [
+            'url',
+            'selector',
+            'timestamp',
+            'format',
+            'estimatedTokens',
+            'viewport',
+        ],
     },
     annotations: {
         title: 'Capture Selector',
@@ -224,13 +968,14 @@ const CAPTURE_SELECTOR_TOOL: Tool = {
 const CONSOLE_CAPTURE_TOOL: Tool = {
     name: 'capture_console',
     description:
-        'Capture console output from a web page. Accepts a URL, optional JS command to run, and duration to wait (default 4 seconds). Returns all console messages during that time.',
+        'Capture console output from a web page. Accepts a URL, optional JS command to run, and duration to wait (default 4 seconds). Returns every console message and uncaught exception during that time, with JSON-serialized arguments, source locations and stack traces. Filter by level or regex, or set "dedupe" to collapse repeated messages of noisy apps into counts.',
     inputSchema: {
         type: 'object',
         properties: {
             url: {
                 type: 'string',
-                description: 'HTTP/HTTPS URL to capture console from',
+                description:
+                    "HTTP/HTTPS URL to capture console from (optional with sessionId: defaults to the session's current page)",
             },
             jsCommand: {
                 type: 'string',
@@ -248,8 +993,65 @@ const CONSOLE_CAPTURE_TOOL: Tool = {
                     'Wait until event: load, domcontentloaded, networkidle0, networkidle2',
                 default: 'domcontentloaded',
             },
+            levels: {
+                type: 'array',
+                items: {
+                    type: 'string',
+                    enum: ['error', 'warning', 'info', 'debug'],
+                },
+                description:
+                    'Only return messages of these levels. "error" includes failed assertions and uncaught exceptions, "info" covers log, info, table, trace and the other console methods (default: all levels)',
+            },
+            pattern: {
+                type: 'string',
+                description:
+                    'Only return messages whose text matches this case-insensitive regular expression',
+            },
+            excludePattern: {
+                type: 'string',
+                description:
+                    'Drop messages whose text matches this case-insensitive regular expression',
+            },
+            dedupe: {
+                type: 'boolean',
+                description:
+                    'Collapse messages with the same type, text and source location into one, with the number of occurrences in "count"',
+                default: false,
+            },
+            ...REQUEST_OPTIONS_PROPERTIES,
+            device: DEVICE_SCHEMA,
+            ...OVERLAY_PROPERTIES,
+            ...WAIT_CONDITION_PROPERTIES,
+            sessionId: {
+                type: 'string',
+                description:
+                    'Run inside a session opened with open_session, reusing its cookies and current page. The page is only navigated when "url" differs from its current URL.',
+            },
+        },
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            url: { type: 'string' },
+            blockedRequests: BLOCKED_REQUESTS_OUTPUT_SCHEMA,
+            startTime: { type: 'string', format: 'date-time' },
+            endTime: { type: 'string', format: 'date-time' },
+            duration: { type: 'number' },
+            executedCommand: { type: 'string' },
+            dismissedOverlays: DISMISSED_OVERLAYS_OUTPUT_SCHEMA,
+            messageCount: { type: 'number' },
+            totalMessages: { type: 'number' },
+            messages: CONSOLE_MESSAGES_OUTPUT_SCHEMA,
         },
-        required: ['url'],
+        required: [
+            'url',
+            'startTime',
+            'endTime',
+            'duration',
+            'messageCount',
+            'totalMessages',
+            'messages',
+        ],
     },
     annotations: {
         title: 'Capture Console Output',
@@ -260,8 +1062,670 @@ const CONSOLE_CAPTURE_TOOL: Tool = {
     },
 };
 
-// Resources definitions
-const RESOURCES: Resource[] = [];
+const CAPTURE_NETWORK_TOOL: Tool = {
+    name: 'capture_network',
+    description:
+        'Record the network requests of a page load: URLs, statuses, timings, sizes, failed loads and requests blocked by the capture. Returns a summary listing the failed and 4xx/5xx requests plus a HAR 1.2 file (saved to "directory", or kept as a resource). Use this when a page renders blank or broken to find the 404 on the main bundle.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            url: {
+                type: 'string',
+                description:
+                    "HTTP/HTTPS URL to load (optional with sessionId: defaults to the session's current page)",
+            },
+            duration: {
+                type: 'number',
+                description:
+                    'Seconds to keep recording after the page loaded, for late requests',
+                default: 2,
+            },
+            waitUntil: {
+                type: 'string',
+                description:
+                    'Wait until event: load, domcontentloaded, networkidle0, networkidle2',
+                default: 'domcontentloaded',
+            },
+            directory: {
+                type: 'string',
+                description: 'Directory to save the HAR file to',
+            },
+            actions: ACTIONS_SCHEMA,
+            ...REQUEST_OPTIONS_PROPERTIES,
+            ...WAIT_CONDITION_PROPERTIES,
+            ...OVERLAY_PROPERTIES,
+            device: DEVICE_SCHEMA,
+            sessionId: {
+                type: 'string',
+                description:
+                    'Run inside a session opened with open_session, reusing its cookies and current page. The page is only navigated when "url" differs from its current URL.',
+            },
+        },
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            url: { type: 'string' },
+            dismissedOverlays: DISMISSED_OVERLAYS_OUTPUT_SCHEMA,
+            blockedRequests: BLOCKED_REQUESTS_OUTPUT_SCHEMA,
+            finalUrl: { type: 'string' },
+            status: {
+                type: 'number',
+                description: 'HTTP status of the main document',
+            },
+            startTime: { type: 'string', format: 'date-time' },
+            endTime: { type: 'string', format: 'date-time' },
+            summary: {
+                type: 'object',
+                properties: NETWORK_SUMMARY_PROPERTIES,
+            },
+            requests: NETWORK_REQUESTS_OUTPUT_SCHEMA,
+            harPath: { type: 'string' },
+            harUri: { type: 'string' },
+        },
+        required: [
+            'url',
+            'finalUrl',
+            'startTime',
+            'endTime',
+            'summary',
+            'requests',
+        ],
+    },
+    annotations: {
+        title: 'Capture Network Requests',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false, // Each call records a fresh page load
+        openWorldHint: true, // Interacts with external websites
+    },
+};
+
+const DIAGNOSE_PAGE_TOOL: Tool = {
+    name: 'diagnose_page',
+    description:
+        'Load a page once and return everything needed to debug it: a viewport screenshot, console messages, uncaught exceptions, failed and 4xx/5xx requests, the final URL after redirects, the HTTP status and the page title. Use this instead of separate take_screenshot and capture_console calls when a page looks broken.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            url: {
+                type: 'string',
+                description:
+                    "HTTP/HTTPS URL to diagnose (optional with sessionId: defaults to the session's current page)",
+            },
+            width: {
+                type: 'number',
+                description: 'Viewport width in pixels (max 1072)',
+                default: 1072,
+            },
+            height: {
+                type: 'number',
+                description: 'Viewport height in pixels (max 1072)',
+                default: 1072,
+            },
+            waitUntil: {
+                type: 'string',
+                description:
+                    'Wait until event: load, domcontentloaded, networkidle0, networkidle2',
+                default: 'domcontentloaded',
+            },
+            waitForMS: {
+                type: 'number',
+                description:
+                    'Additional wait time in milliseconds, to catch errors logged after load',
+            },
+            ...IMAGE_FORMAT_PROPERTIES,
+            resourceLinks: RESOURCE_LINKS_PROPERTY,
+            actions: ACTIONS_SCHEMA,
+            ...REQUEST_OPTIONS_PROPERTIES,
+            device: DEVICE_SCHEMA,
+            ...OVERLAY_PROPERTIES,
+            ...WAIT_CONDITION_PROPERTIES,
+            sessionId: {
+                type: 'string',
+                description:
+                    'Run inside a session opened with open_session, reusing its cookies and current page. The page is only navigated when "url" differs from its current URL.',
+            },
+        },
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            url: { type: 'string' },
+            finalUrl: { type: 'string' },
+            status: {
+                type: 'number',
+                description: 'HTTP status of the main document',
+            },
+            title: { type: 'string' },
+            uri: { type: 'string' },
+            timestamp: { type: 'string', format: 'date-time' },
+            format: { type: 'string' },
+            targetModel: { type: 'string' },
+            estimatedTokens: { type: 'number' },
+            viewport: VIEWPORT_OUTPUT_SCHEMA,
+            consoleMessages: CONSOLE_MESSAGES_OUTPUT_SCHEMA,
+            exceptions: CONSOLE_MESSAGES_OUTPUT_SCHEMA,
+            failedRequests: NETWORK_REQUESTS_OUTPUT_SCHEMA,
+            dismissedOverlays: DISMISSED_OVERLAYS_OUTPUT_SCHEMA,
+            blockedRequests: BLOCKED_REQUESTS_OUTPUT_SCHEMA,
+        },
+        required: [
+            'url',
+            'finalUrl',
+            'title',
+            'timestamp',
+            'format',
+            'estimatedTokens',
+            'viewport',
+            'consoleMessages',
+            'exceptions',
+            'failedRequests',
+        ],
+    },
+    annotations: {
+        title: 'Diagnose Page',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false, // Each call loads the page again
+        openWorldHint: true, // Interacts with external websites
+    },
+};
+
+const CAPTURE_ACCESSIBILITY_TOOL: Tool = {
+    name: 'capture_accessibility',
+    description:
+        'Capture a page\'s accessibility tree as a compact outline of roles, names and states (headings, links, buttons, form fields), to understand how a page is structured rather than how it looks. Set "audit" to also flag images without alt text, unlabeled form controls, empty buttons and low-contrast text. Use "selector" to scope both to one element.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            url: {
+                type: 'string',
+                description:
+                    "HTTP/HTTPS URL to capture (optional with sessionId: defaults to the session's current page)",
+            },
+            selector: {
+                type: 'string',
+                description:
+                    'CSS selector of the element whose subtree to capture (default: the whole page)',
+            },
+            selectorTimeoutMS: {
+                type: 'number',
+                description:
+                    'How long to wait for the selector to appear before failing',
+                default: 5000,
+            },
+            audit: {
+                type: 'boolean',
+                description:
+                    'Also report missing alt text, unlabeled form controls, buttons without a name and text below the WCAG AA contrast minimum',
+                default: false,
+            },
+            interestingOnly: {
+                type: 'boolean',
+                description:
+                    'Leave out nodes assistive technology ignores. Set to false to see every node',
+                default: true,
+            },
+            width: {
+                type: 'number',
+                description: 'Viewport width in pixels (max 1072)',
+                default: 1072,
+            },
+            height: {
+                type: 'number',
+                description: 'Viewport height in pixels (max 1072)',
+                default: 1072,
+            },
+            waitUntil: {
+                type: 'string',
+                description:
+                    'Wait until event: load, domcontentloaded, networkidle0, networkidle2',
+                default: 'domcontentloaded',
+            },
+            waitForMS: {
+                type: 'number',
+                description: 'Additional wait time in milliseconds',
+            },
+            actions: ACTIONS_SCHEMA,
+            ...REQUEST_OPTIONS_PROPERTIES,
+            device: DEVICE_SCHEMA,
+            ...OVERLAY_PROPERTIES,
+            ...WAIT_CONDITION_PROPERTIES,
+            sessionId: {
+                type: 'string',
+                description:
+                    'Run inside a session opened with open_session, reusing its cookies and current page. The page is only navigated when "url" differs from its current URL.',
+            },
+        },
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            url: { type: 'string' },
+            selector: { type: 'string' },
+            timestamp: { type: 'string', format: 'date-time' },
+            tree: {
+                type: 'array',
+                items: { type: 'object' },
+                description:
+                    'Nodes with role, name, value, description, url, states and children',
+            },
+            nodeCount: { type: 'number' },
+            issues: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        rule: {
+                            type: 'string',
+                            enum: [
+                                'image-alt',
+                                'label',
+                                'button-name',
+                                'color-contrast',
+                            ],
+                        },
+                        selector: { type: 'string' },
+                        element: { type: 'string' },
+                        message: { type: 'string' },
+                        contrastRatio: { type: 'number' },
+                    },
+                    required: ['rule', 'selector', 'element', 'message'],
+                },
+                description: 'Problems found, when "audit" was set',
+            },
+            dismissedOverlays: DISMISSED_OVERLAYS_OUTPUT_SCHEMA,
+            blockedRequests: BLOCKED_REQUESTS_OUTPUT_SCHEMA,
+        },
+        required: ['url', 'timestamp', 'tree', 'nodeCount'],
+    },
+    annotations: {
+        title: 'Capture Accessibility Tree',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+    },
+};
+
+const COMPARE_SCREENSHOTS_TOOL: Tool = {
+    name: 'compare_screenshots',
+    description:
+        'Visual diff of a page against a baseline: a second URL or a saved PNG. Full pages are compared tile by tile. Returns diff images of the changed tiles (changes in red, changed regions outlined), the mismatch percentage and bounding boxes of the changed areas. Use this to check whether a CSS or layout change broke anything.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            url: {
+                type: 'string',
+                description:
+                    "HTTP/HTTPS URL to check (optional with sessionId: defaults to the session's current page)",
+            },
+            baselineUrl: {
+                type: 'string',
+                description:
+                    'URL to compare against, e.g. the production version of the page',
+            },
+            baselinePath: {
+                type: 'string',
+                description:
+                    'Path to a PNG to compare against instead of baselineUrl, e.g. a full-page screenshot saved earlier',
+            },
+            width: {
+                type: 'number',
+                description: 'Viewport width in pixels (max 1072)',
+                default: 1072,
+            },
+            fullPage: {
+                type: 'boolean',
+                description:
+                    'Compare the full page tile by tile. If false, only the viewport is compared.',
+                default: true,
+            },
+            threshold: {
+                type: 'number',
+                description:
+                    'Color difference per channel (0-1) ignored before a pixel counts as changed',
+                default: 0.1,
+            },
+            waitUntil: {
+                type: 'string',
+                description:
+                    'Wait until event: load, domcontentloaded, networkidle0, networkidle2',
+                default: 'domcontentloaded',
+            },
+            waitForMS: {
+                type: 'number',
+                description: 'Additional wait time in milliseconds',
+            },
+            directory: {
+                type: 'string',
+                description:
+                    'Save diff images to a local directory (returns file paths instead of base64)',
+            },
+            resourceLinks: RESOURCE_LINKS_PROPERTY,
+            actions: ACTIONS_SCHEMA,
+            ...REQUEST_OPTIONS_PROPERTIES,
+            device: DEVICE_SCHEMA,
+            ...OVERLAY_PROPERTIES,
+            ...WAIT_CONDITION_PROPERTIES,
+            sessionId: {
+                type: 'string',
+                description:
+                    'Run inside a session opened with open_session, reusing its cookies and current page',
+            },
+        },
+    },
+    outputSchema: {
+        type: 'object',
+        properties: DIFF_OUTPUT_PROPERTIES,
+        required: DIFF_OUTPUT_REQUIRED,
+    },
+    annotations: {
+        title: 'Compare Screenshots',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+    },
+};
+
+// Shared schema for what a baseline is keyed by and how it is captured
+const BASELINE_PROPERTIES = {
+    url: {
+        type: 'string',
+        description:
+            "HTTP/HTTPS URL to capture (optional with sessionId: defaults to the session's current page)",
+    },
+    selector: {
+        type: 'string',
+        description:
+            'CSS selector of an element to baseline instead of the full page',
+    },
+    width: {
+        type: 'number',
+        description: 'Viewport width in pixels (max 1072)',
+        default: 1072,
+    },
+    height: {
+        type: 'number',
+        description: 'Viewport height in pixels (max 1072)',
+        default: 1072,
+    },
+    fullPage: {
+        type: 'boolean',
+        description:
+            'Baseline the full page as tiles. If false, only the viewport is used.',
+        default: true,
+    },
+    waitUntil: {
+        type: 'string',
+        description:
+            'Wait until event: load, domcontentloaded, networkidle0, networkidle2',
+        default: 'domcontentloaded',
+    },
+    waitForMS: {
+        type: 'number',
+        description: 'Additional wait time in milliseconds',
+    },
+    selectorTimeoutMS: {
+        type: 'number',
+        description:
+            'How long to wait for the selector to appear before failing',
+        default: 5000,
+    },
+    baselineDir: {
+        type: 'string',
+        description:
+            'Directory holding baselines and their manifest.json (default: SCREENSHOT_BASELINE_DIR or .screenshot-baselines)',
+    },
+    actions: ACTIONS_SCHEMA,
+    ...REQUEST_OPTIONS_PROPERTIES,
+    device: DEVICE_SCHEMA,
+    ...OVERLAY_PROPERTIES,
+    ...WAIT_CONDITION_PROPERTIES,
+    sessionId: {
+        type: 'string',
+        description:
+            'Run inside a session opened with open_session, reusing its cookies and current page',
+    },
+};
+
+const SAVE_BASELINE_TOOL: Tool = {
+    name: 'save_baseline',
+    description:
+        'Capture a page (as tiles) or an element and save it as the visual regression baseline for its URL + viewport + selector. Replaces any earlier baseline under the same key. Check it later with check_baseline.',
+    inputSchema: {
+        type: 'object',
+        properties: BASELINE_PROPERTIES,
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            key: { type: 'string' },
+            blockedRequests: BLOCKED_REQUESTS_OUTPUT_SCHEMA,
+            url: { type: 'string' },
+            viewport: VIEWPORT_OUTPUT_SCHEMA,
+            fullPage: { type: 'boolean' },
+            selector: { type: 'string' },
+            device: {},
+            directory: { type: 'string' },
+            tiles: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        ...TILE_OUTPUT_PROPERTIES,
+                        file: {
+                            type: 'string',
+                            description: 'Relative to "directory"',
+                        },
+                    },
+                    required: [
+                        'row',
+                        'col',
+                        'x',
+                        'y',
+                        'width',
+                        'height',
+                        'file',
+                    ],
+                },
+            },
+            fullWidth: { type: 'number' },
+            fullHeight: { type: 'number' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+            savedPaths: SAVED_PATHS_OUTPUT_SCHEMA,
+        },
+        required: [
+            'key',
+            'url',
+            'viewport',
+            'fullPage',
+            'directory',
+            'tiles',
+            'createdAt',
+            'updatedAt',
+            'savedPaths',
+        ],
+    },
+    annotations: {
+        title: 'Save Baseline',
+        readOnlyHint: false, // Writes baseline images and the manifest
+        destructiveHint: true, // Overwrites an existing baseline
+        idempotentHint: false,
+        openWorldHint: true,
+    },
+};
+
+const CHECK_BASELINE_TOOL: Tool = {
+    name: 'check_baseline',
+    description:
+        'Re-capture a page or element saved with save_baseline and diff it against the baseline. Passes when the mismatch stays within maxMismatchPercentage; otherwise returns diff images of the changed tiles and bounding boxes of the changes.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            ...BASELINE_PROPERTIES,
+            threshold: {
+                type: 'number',
+                description:
+                    'Color difference per channel (0-1) ignored before a pixel counts as changed',
+                default: 0.1,
+            },
+            maxMismatchPercentage: {
+                type: 'number',
+                description:
+                    'Highest percentage of changed pixels that still passes',
+                default: 0.1,
+            },
+            resourceLinks: RESOURCE_LINKS_PROPERTY,
+            directory: {
+                type: 'string',
+                description:
+                    'Save diff images to a local directory (returns file paths instead of base64)',
+            },
+        },
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            ...DIFF_OUTPUT_PROPERTIES,
+            key: { type: 'string' },
+            passed: { type: 'boolean' },
+            maxMismatchPercentage: { type: 'number' },
+            savedAt: {
+                type: 'string',
+                format: 'date-time',
+                description: 'When the baseline was last saved',
+            },
+        },
+        required: [
+            ...DIFF_OUTPUT_REQUIRED,
+            'key',
+            'passed',
+            'maxMismatchPercentage',
+            'savedAt',
+        ],
+    },
+    annotations: {
+        title: 'Check Baseline',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+    },
+};
+
+const OPEN_SESSION_TOOL: Tool = {
+    name: 'open_session',
+    description:
+        'Open a persistent browser session whose cookies, storage and current page survive across tool calls. Use it to log in once, then pass the returned sessionId to take_screenshot, capture_selector, take_screencast or capture_console. Sessions close after 60 seconds of inactivity.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            sessionId: {
+                type: 'string',
+                description:
+                    'Name for the new session (a random ID is generated if omitted)',
+            },
+            url: {
+                type: 'string',
+                description: 'Optional HTTP/HTTPS URL to open in the session',
+            },
+            width: {
+                type: 'number',
+                description: 'Viewport width in pixels (max 1072)',
+                default: 1072,
+            },
+            height: {
+                type: 'number',
+                description: 'Viewport height in pixels (max 1072)',
+                default: 1072,
+            },
+            waitUntil: {
+                type: 'string',
+                description:
+                    'Wait until event: load, domcontentloaded, networkidle0, networkidle2',
+                default: 'domcontentloaded',
+            },
+            waitForMS: {
+                type: 'number',
+                description: 'Additional wait time in milliseconds',
+            },
+            ...REQUEST_OPTIONS_PROPERTIES,
+            device: DEVICE_SCHEMA,
+            actions: ACTIONS_SCHEMA,
+            ...WAIT_CONDITION_PROPERTIES,
+        },
+    },
+    outputSchema: { ...SESSION_OUTPUT_SCHEMA, type: 'object' },
+    annotations: {
+        title: 'Open Browser Session',
+        readOnlyHint: false, // Creates a session that later calls depend on
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true, // Interacts with external websites
+    },
+};
+
+const LIST_SESSIONS_TOOL: Tool = {
+    name: 'list_sessions',
+    description:
+        'List open browser sessions with their current URL and when they expire.',
+    inputSchema: {
+        type: 'object',
+        properties: {},
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            sessions: { type: 'array', items: SESSION_OUTPUT_SCHEMA },
+        },
+        required: ['sessions'],
+    },
+    annotations: {
+        title: 'List Browser Sessions',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+    },
+};
+
+const CLOSE_SESSION_TOOL: Tool = {
+    name: 'close_session',
+    description:
+        'Close a browser session opened with open_session, discarding its cookies and storage.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            sessionId: {
+                type: 'string',
+                description: 'ID of the session to close',
+            },
+        },
+        required: ['sessionId'],
+    },
+    outputSchema: {
+        type: 'object',
+        properties: {
+            sessionId: { type: 'string' },
+            closed: { type: 'boolean' },
+        },
+        required: ['sessionId', 'closed'],
+    },
+    annotations: {
+        title: 'Close Browser Session',
+        readOnlyHint: false,
+        destructiveHint: true, // Session state is lost
+        idempotentHint: true,
+        openWorldHint: false,
+    },
+};
+
+// Resources definitions
+const RESOURCES: Resource[] = [];
 
 // Handle tool listing
 server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -272,26 +1736,375 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             SCREENCAST_TOOL,
             CAPTURE_SELECTOR_TOOL,
             CONSOLE_CAPTURE_TOOL,
+            CAPTURE_NETWORK_TOOL,
+            DIAGNOSE_PAGE_TOOL,
+            CAPTURE_ACCESSIBILITY_TOOL,
+            COMPARE_SCREENSHOTS_TOOL,
+            SAVE_BASELINE_TOOL,
+            CHECK_BASELINE_TOOL,
+            OPEN_SESSION_TOOL,
+            LIST_SESSIONS_TOOL,
+            CLOSE_SESSION_TOOL,
         ],
     };
     logger.debug(
         'Returning tools:',
         response.tools.map(t => t.name)
     );
-    return response;
-});
+    return response;
+});
+
+// Helper function to generate unique filename
+function generateFilename(
+    url: string,
+    index?: number,
+    prefix: string = 'screenshot',
+    extension: string = 'png'
+): string {
+    const urlObj = new URL(url);
+    const hostname = urlObj.hostname.replace(/[^a-z0-9]/gi, '_');
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const suffix = index !== undefined ? `_frame${index + 1}` : '';
+    return `${prefix}_${hostname}_${timestamp}${suffix}.${extension}`;
+}
+
+function formatTokenEstimate(result: any): string {
+    const perTile =
+        'tiles' in result && result.tiles.length > 1
+            ? ` (${result.tiles.map((tile: any) => tile.estimatedTokens).join(' + ')})`
+            : '';
+    return `Estimated image tokens (${result.targetModel}): ${result.estimatedTokens}${perTile}`;
+}
+
+function formatCropNote(result: any): string {
+    return result.pageWidth > result.fullWidth
+        ? `\n⚠️  Page is ${result.pageWidth}px wide, only the first ${result.fullWidth}px were captured (raise maxWidth for more)`
+        : '';
+}
+
+function formatConsoleMessage(msg: any): string {
+    const timestamp = msg.timestamp.toISOString();
+    const count = msg.count > 1 ? ` (x${msg.count})` : '';
+    const location = msg.location
+        ? ` (${msg.location.url}${msg.location.line !== undefined ? `:${msg.location.line}` : ''})`
+        : '';
+    const stack = msg.stack ? `\n${msg.stack}` : '';
+    return `[${timestamp}] [${msg.type.toUpperCase()}]${count} ${msg.text}${location}${stack}`;
+}
+
+function formatAccessibilityIssues(issues?: any[]): string {
+    if (!issues) {
+        return '';
+    }
+    if (issues.length === 0) {
+        return '\n\nAudit: no issues found';
+    }
+    return `\n\nAudit: ${issues.length} issues\n${issues.map(issue => `  [${issue.rule}] ${issue.message}: ${issue.selector} ${issue.element}`).join('\n')}`;
+}
+
+// Fonts and media are aborted by default, which explains fallback fonts and empty embeds
+function formatBlockedNote(result: any): string {
+    const blocked: any[] = result.blockedRequests ?? [];
+    if (blocked.length === 0) {
+        return '';
+    }
+    const byType = new Map<string, number>();
+    for (const request of blocked) {
+        byType.set(
+            request.resourceType,
+            (byType.get(request.resourceType) ?? 0) + 1
+        );
+    }
+    return `\n🚫 Blocked ${blocked.length} requests (${[...byType].map(([type, count]) => `${count} ${type}`).join(', ')}), see blockedRequests; set blockedResourceTypes or allowFonts to load them`;
+}
+
+function formatOverlayNote(result: any): string {
+    return result.dismissedOverlays?.length
+        ? `\nDismissed overlays: ${result.dismissedOverlays.map((overlay: any) => `${overlay.name} (${overlay.action})`).join(', ')}`
+        : '';
+}
+
+function formatAutoScrollNote(result: any): string {
+    if (!result.autoScroll) {
+        return '';
+    }
+    const { steps, height, limitReached } = result.autoScroll;
+    return limitReached
+        ? `\n⚠️  Auto-scroll stopped after ${steps} steps at ${height}px before reaching the bottom (raise autoScrollMaxHeight or autoScrollMaxSteps for more)`
+        : `\nAuto-scrolled ${steps} steps to load lazy content`;
+}
+
+const MAX_NETWORK_PROBLEMS = 20; // Failed, blocked and error requests listed in summaries
+
+function formatBytes(bytes: number): string {
+    return bytes >= 1024 * 1024
+        ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+        : `${Math.round(bytes / 1024)} KB`;
+}
+
+// One line per failed, blocked or 4xx/5xx request, the ones behind blank pages
+function formatNetworkProblems(requests: any[]): string {
+    const problems = requests.filter(
+        request => request.failure || request.blocked || request.status >= 400
+    );
+    const lines = problems.slice(0, MAX_NETWORK_PROBLEMS).map(request => {
+        const reason = request.blocked
+            ? `blocked (${request.blocked})`
+            : request.failure
+              ? request.failure
+              : `${request.status} ${request.statusText ?? ''}`.trim();
+        return `  ${reason}: ${request.method} ${request.url} [${request.resourceType}]`;
+    });
+    if (problems.length > MAX_NETWORK_PROBLEMS) {
+        lines.push(`  ... and ${problems.length - MAX_NETWORK_PROBLEMS} more`);
+    }
+    return lines.join('\n');
+}
+
+function formatNetworkSummary(summary: any): string {
+    return `${summary.requests} requests, ${formatBytes(summary.totalBytes)}, ${summary.errorResponses} error responses, ${summary.failed} failed, ${summary.blocked} blocked`;
+}
+
+function formatNetworkNote(result: any, har?: HarLocation): string {
+    if (!result.network) {
+        return '';
+    }
+    const problems = formatNetworkProblems(result.network);
+    const location = har?.path ?? har?.uri;
+    return `\n🌐 Network: ${formatNetworkSummary(summarizeNetwork(result.network))}${location ? `\nHAR: ${location}` : ''}${problems ? `\n${problems}` : ''}`;
+}
+
+// Save a HAR of the recorded requests to directory, or keep it as a resource.
+// The values of the caller's own headers are redacted in it.
+async function saveHar(
+    url: string,
+    requests: any[],
+    directory?: string,
+    headers?: Record<string, string>
+): Promise<HarLocation> {
+    const har = Buffer.from(
+        JSON.stringify(
+            buildHar(
+                { url, startedAt: requests[0]?.startedAt ?? new Date() },
+                requests,
+                SERVER_INFO,
+                headers ? Object.keys(headers) : undefined
+            ),
+            null,
+            2
+        )
+    );
+    if (directory) {
+        await mkdir(directory, { recursive: true });
+        const path = join(
+            directory,
+            generateFilename(url, undefined, 'network', 'har')
+        );
+        await writeFile(path, har);
+        return { path };
+    }
+    return {
+        uri: registerResource(
+            `network://${newCaptureId()}/har`,
+            har,
+            'application/json',
+            `HAR of ${url}`
+        ),
+    };
+}
+
+function newCaptureId(): string {
+    return randomUUID().slice(0, 8);
+}
+
+// Keep an image readable through resources/read; undefined when too large to keep
+function registerResource(
+    uri: string,
+    data: Buffer,
+    mimeType: string,
+    name: string
+): string | undefined {
+    return resourceStore.add({ uri, name, mimeType, data })?.uri;
+}
+
+// A resource link when the caller asked for links and the image was kept, the image itself otherwise
+function imageContent(
+    image: { data: Buffer; mimeType: string; uri?: string; name: string },
+    asLink: boolean
+) {
+    if (asLink && image.uri) {
+        return {
+            type: 'resource_link',
+            uri: image.uri,
+            name: image.name,
+            mimeType: image.mimeType,
+        };
+    }
+    return {
+        type: 'image',
+        data: image.data.toString('base64'),
+        mimeType: image.mimeType,
+    };
+}
+
+// Captures in a session may omit the URL to shoot the session's current page
+function resolveCaptureUrl(args: any): string {
+    if (args.url) {
+        return args.url;
+    }
+    if (args.sessionId) {
+        const session = screenshotModule.getSession(args.sessionId);
+        if (!session.url || session.url === 'about:blank') {
+            throw new Error(
+                `Session "${session.id}" has no page open yet, pass a "url" to navigate it`
+            );
+        }
+        return session.url;
+    }
+    throw new Error(
+        'The "url" parameter is required unless "sessionId" is given'
+    );
+}
+
+// Options shared by save_baseline and check_baseline
+function toWaitConditions(args: any): WaitConditions {
+    return {
+        waitForSelector: args.waitForSelector,
+        waitForSelectorHidden: args.waitForSelectorHidden,
+        waitForFunction: args.waitForFunction,
+        waitForNetworkIdle: args.waitForNetworkIdle,
+        waitForAssets: args.waitForAssets,
+        waitForStable: args.waitForStable,
+        waitTimeout: args.waitTimeout,
+    };
+}
+
+// Sizes are capped at 1072. Session captures that set no size keep the
+// device and viewport the session was opened with.
+function toViewport(args: any): { width: number; height: number } | undefined {
+    if (
+        args.sessionId &&
+        args.width === undefined &&
+        args.height === undefined
+    ) {
+        return undefined;
+    }
+    return {
+        width: Math.min(args.width ?? 1072, 1072),
+        height: Math.min(args.height ?? 1072, 1072),
+    };
+}
+
+function toBaselineOptions(args: any, url: string) {
+    return {
+        url: url,
+        selector: args.selector,
+        selectorTimeoutMS: args.selectorTimeoutMS,
+        baselineDir: args.baselineDir,
+        viewport: toViewport(args),
+        fullPage: args.fullPage ?? true,
+        waitUntil: args.waitUntil ?? 'domcontentloaded',
+        waitFor: args.waitForMS,
+        sessionId: args.sessionId,
+        actions: args.actions,
+        cookies: args.cookies,
+        headers: args.headers,
+        httpCredentials: args.httpCredentials,
+        userAgent: args.userAgent,
+        blockedResourceTypes: args.blockedResourceTypes,
+        allowFonts: args.allowFonts,
+        device: args.device,
+        dismissOverlays: args.dismissOverlays,
+        overlaySelectors: args.overlaySelectors,
+        ...toWaitConditions(args),
+    };
+}
+
+// Diff images of the changed tiles, inline or saved to a directory
+async function diffResponse(
+    result: any,
+    url: string,
+    summary: string,
+    directory?: string,
+    resourceLinks = false
+) {
+    const changedTiles = result.tiles.filter(
+        (tile: any) => tile.mismatchedPixels > 0
+    );
+
+    // Diff images stay readable as diff://<id>/tile/<n>
+    const captureId = newCaptureId();
+    const urisByIndex = new Map<number, string>();
+    for (const tile of changedTiles) {
+        const uri = registerResource(
+            `diff://${captureId}/tile/${tile.index}`,
+            tile.diff,
+            'image/png',
+            `Diff of tile ${tile.index} for ${url}`
+        );
+        if (uri) {
+            urisByIndex.set(tile.index, uri);
+        }
+    }
+
+    if (directory) {
+        if (!existsSync(directory)) {
+            await mkdir(directory, { recursive: true });
+        }
+
+        const pathsByIndex = new Map<number, string>();
+        for (const tile of changedTiles) {
+            const filepath = join(
+                directory,
+                generateFilename(url, tile.index, 'diff')
+            );
+            await writeFile(filepath, tile.diff);
+            pathsByIndex.set(tile.index, filepath);
+        }
+        const savedPaths = [...pathsByIndex.values()];
+
+        return {
+            structuredContent: compareOutput(result, {
+                paths: pathsByIndex,
+                uris: urisByIndex,
+            }),
+            content: [
+                {
+                    type: 'text',
+                    text: savedPaths.length
+                        ? `${summary}\n\nDiff images saved to:\n${savedPaths.join('\n')}`
+                        : summary,
+                },
+            ],
+        };
+    }
+
+    const content: any[] = changedTiles.map((tile: any) =>
+        imageContent(
+            {
+                data: tile.diff,
+                mimeType: 'image/png',
+                uri: urisByIndex.get(tile.index),
+                name: `Diff of tile ${tile.index} for ${url}`,
+            },
+            resourceLinks
+        )
+    );
+    content.push({ type: 'text', text: summary + formatBlockedNote(result) });
 
-// Helper function to generate unique filename
-function generateFilename(
-    url: string,
-    index?: number,
-    prefix: string = 'screenshot'
-): string {
-    const urlObj = new URL(url);
-    const hostname = urlObj.hostname.replace(/[^a-z0-9]/gi, '_');
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const suffix = index !== undefined ? `_frame${index + 1}` : '';
-    return `${prefix}_${hostname}_${timestamp}${suffix}.png`;
+    return {
+        content,
+        structuredContent: compareOutput(result, { uris: urisByIndex }),
+    };
+}
+
+function formatRegions(regions: any[]): string {
+    return regions
+        .map(
+            region =>
+                `- ${region.width}x${region.height} at ${region.x},${region.y}`
+        )
+        .join('\n');
 }
 
 // Helper function to create animated WebP using img2webp CLI
@@ -391,7 +2204,10 @@ async function createAnimatedWebP(
 // Handle tool execution
 server.setRequestHandler(CallToolRequestSchema, async request => {
     logger.info('Received CallTool request:', request.params.name);
-    logger.debug('Request params:', JSON.stringify(request.params, null, 2));
+    logger.debug(
+        'Request params:',
+        JSON.stringify(redactSecrets(request.params), null, 2)
+    );
 
     try {
         if (request.params.name === 'take_screenshot') {
@@ -404,9 +2220,10 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
             }
 
             const args = request.params.arguments as any;
-            logger.info(`Processing screenshot request for URL: ${args.url}`);
+            const url = resolveCaptureUrl(args);
+            logger.info(`Processing screenshot request for URL: ${url}`);
             logger.debug('Screenshot parameters:', {
-                url: args.url,
+                url: url,
                 viewport: { width: args.width },
                 fullPage: args.fullPage,
                 waitUntil: args.waitUntil,
@@ -416,14 +2233,50 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
 
             logger.debug('Calling captureScreenshot...');
             const result = await screenshotModule.captureScreenshot({
-                url: args.url,
-                viewport: {
-                    width: Math.min(args.width ?? 1072, 1072),
-                },
+                url: url,
+                viewport: toViewport(args),
                 fullPage: args.fullPage ?? true,
+                maxWidth: args.maxWidth,
+                tileHeight: args.tileHeight,
+                tileOverlap: args.tileOverlap,
+                fixedElements: args.fixedElements,
+                stitch: args.stitch,
+                stitchMaxHeight: args.stitchMaxHeight,
+                stitchDownscale: args.stitchDownscale,
+                smartTiling: args.smartTiling,
+                smartTilingTolerance: args.smartTilingTolerance,
+                autoScroll: args.autoScroll,
+                autoScrollMaxHeight: args.autoScrollMaxHeight,
+                autoScrollMaxSteps: args.autoScrollMaxSteps,
                 waitUntil: args.waitUntil ?? 'domcontentloaded',
                 waitFor: args.waitForMS,
+                sessionId: args.sessionId,
+                actions: args.actions,
+                cookies: args.cookies,
+                headers: args.headers,
+                httpCredentials: args.httpCredentials,
+                userAgent: args.userAgent,
+                blockedResourceTypes: args.blockedResourceTypes,
+                allowFonts: args.allowFonts,
+                device: args.device,
+                dismissOverlays: args.dismissOverlays,
+                overlaySelectors: args.overlaySelectors,
+                ...toWaitConditions(args),
+                recordNetwork: args.har,
+                format: args.format,
+                quality: args.quality,
+                maxBytes: args.maxBytes,
+                targetModel: args.targetModel,
+                maxImageTokens: args.maxImageTokens,
             });
+            const har = args.har
+                ? await saveHar(
+                      url,
+                      result.network ?? [],
+                      args.directory,
+                      args.headers
+                  )
+                : undefined;
 
             logger.info('Screenshot captured successfully');
             logger.debug(
@@ -431,6 +2284,20 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
                 'tiles' in result ? 'TiledScreenshot' : 'RegularScreenshot'
             );
 
+            const mimeType = `image/${result.format}`;
+
+            // Every tile stays readable as screenshot://<id>/tile/<n>
+            const captureId = newCaptureId();
+            const images = 'tiles' in result ? result.tiles : [result];
+            const tileUris = images.map((image: any, i: number) =>
+                registerResource(
+                    `screenshot://${captureId}/tile/${i}`,
+                    image.screenshot,
+                    mimeType,
+                    `Screenshot tile ${i} of ${url}`
+                )
+            );
+
             // If directory is specified, save to disk
             if (args.directory) {
                 logger.debug(
@@ -453,32 +2320,54 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
                     // Save each tile
                     for (let i = 0; i < tiledResult.tiles.length; i++) {
                         const tile = tiledResult.tiles[i];
-                        const filename = generateFilename(args.url, i);
+                        const filename = generateFilename(
+                            url,
+                            i,
+                            'screenshot',
+                            result.format
+                        );
                         const filepath = join(args.directory, filename);
                         await writeFile(filepath, tile.screenshot);
                         savedPaths.push(filepath);
                     }
 
                     return {
+                        structuredContent: screenshotOutput(result, {
+                            har,
+                            paths: savedPaths,
+                            uris: tileUris,
+                        }),
                         content: [
                             {
                                 type: 'text',
-                                text: `✅ Saved ${tiledResult.tiles.length} screenshot tiles to:\n${savedPaths.join('\n')}\n\nPage size: ${tiledResult.fullWidth}x${tiledResult.fullHeight} pixels\nTile size: ${tiledResult.tileSize}x${tiledResult.tileSize} pixels`,
+                                text: tiledResult.stitched
+                                    ? `✅ Saved stitched full-page screenshot to: ${savedPaths[0]}\n\nPage size: ${tiledResult.fullWidth}x${tiledResult.fullHeight} pixels\n${formatTokenEstimate(result)}${formatCropNote(result)}${formatAutoScrollNote(result)}${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`
+                                    : `✅ Saved ${tiledResult.tiles.length} screenshot tiles to:\n${savedPaths.join('\n')}\n\nPage size: ${tiledResult.fullWidth}x${tiledResult.fullHeight} pixels\nTile size: ${tiledResult.tileSize}x${tiledResult.tileHeight} pixels${tiledResult.tileOverlap ? ` (${tiledResult.tileOverlap}px overlap)` : ''}\n${formatTokenEstimate(result)}${formatCropNote(result)}${formatAutoScrollNote(result)}${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`,
                             },
                         ],
                     };
                 } else {
                     // Handle regular screenshot
-                    const filename = generateFilename(args.url);
+                    const filename = generateFilename(
+                        url,
+                        undefined,
+                        'screenshot',
+                        result.format
+                    );
                     const filepath = join(args.directory, filename);
                     await writeFile(filepath, result.screenshot);
                     savedPaths.push(filepath);
 
                     return {
+                        structuredContent: screenshotOutput(result, {
+                            har,
+                            paths: savedPaths,
+                            uris: tileUris,
+                        }),
                         content: [
                             {
                                 type: 'text',
-                                text: `✅ Screenshot saved to: ${filepath}\n\nDimensions: ${result.viewport.width}x${result.viewport.height} pixels`,
+                                text: `✅ Screenshot saved to: ${filepath}\n\nDimensions: ${result.viewport.width}x${result.viewport.height} pixels\n${formatTokenEstimate(result)}${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`,
                             },
                         ],
                     };
@@ -491,36 +2380,55 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
                     const content = [];
 
                     // Add each tile as an image
-                    for (const tile of tiledResult.tiles) {
-                        content.push({
-                            type: 'image',
-                            data: tile.screenshot.toString('base64'),
-                            mimeType: 'image/png',
-                        });
+                    for (const [i, tile] of tiledResult.tiles.entries()) {
+                        content.push(
+                            imageContent(
+                                {
+                                    data: tile.screenshot,
+                                    mimeType,
+                                    uri: tileUris[i],
+                                    name: `Screenshot tile ${i} of ${url}`,
+                                },
+                                !!args.resourceLinks
+                            )
+                        );
                     }
 
                     // Add summary text
                     content.push({
                         type: 'text',
-                        text: `✅ Captured ${tiledResult.tiles.length} tiles (${tiledResult.tileSize}x${tiledResult.tileSize} each) from page measuring ${tiledResult.fullWidth}x${tiledResult.fullHeight} pixels`,
+                        text: tiledResult.stitched
+                            ? `✅ Captured stitched full-page screenshot of ${tiledResult.fullWidth}x${tiledResult.fullHeight} pixels\n${formatTokenEstimate(result)}${formatCropNote(result)}${formatAutoScrollNote(result)}${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`
+                            : `✅ Captured ${tiledResult.tiles.length} tiles (${tiledResult.tileSize}x${tiledResult.tileHeight} each${tiledResult.tileOverlap ? `, ${tiledResult.tileOverlap}px overlap` : ''}) from page measuring ${tiledResult.fullWidth}x${tiledResult.fullHeight} pixels\n${formatTokenEstimate(result)}${formatCropNote(result)}${formatAutoScrollNote(result)}${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`,
                     });
 
-                    return { content };
+                    return {
+                        content,
+                        structuredContent: screenshotOutput(result, {
+                            har,
+                            uris: tileUris,
+                        }),
+                    };
                 } else {
                     // Handle regular screenshot
-                    const base64Screenshot =
-                        result.screenshot.toString('base64');
-
                     return {
+                        structuredContent: screenshotOutput(result, {
+                            har,
+                            uris: tileUris,
+                        }),
                         content: [
-                            {
-                                type: 'image',
-                                data: base64Screenshot,
-                                mimeType: 'image/png',
-                            },
+                            imageContent(
+                                {
+                                    data: result.screenshot,
+                                    mimeType,
+                                    uri: tileUris[0],
+                                    name: `Screenshot of ${url}`,
+                                },
+                                !!args.resourceLinks
+                            ),
                             {
                                 type: 'text',
-                                text: `✅ Screenshot captured: ${result.viewport.width}x${result.viewport.height} pixels`,
+                                text: `✅ Screenshot captured: ${result.viewport.width}x${result.viewport.height} pixels\n${formatTokenEstimate(result)}${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`,
                             },
                         ],
                     };
@@ -535,11 +2443,10 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
             }
 
             const args = request.params.arguments as any;
-            logger.info(
-                `Processing selector capture request for URL: ${args.url}`
-            );
+            const url = resolveCaptureUrl(args);
+            logger.info(`Processing selector capture request for URL: ${url}`);
             logger.debug('Selector capture parameters:', {
-                url: args.url,
+                url: url,
                 selector: args.selector,
                 width: args.width,
                 height: args.height,
@@ -549,27 +2456,69 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
             });
 
             const result = await screenshotModule.captureSelectorScreenshot({
-                url: args.url,
+                url: url,
                 selector: args.selector,
-                viewport: {
-                    width: Math.min(args.width ?? 1072, 1072),
-                    height: Math.min(args.height ?? 1072, 1072),
-                },
+                viewport: toViewport(args),
                 waitUntil: args.waitUntil ?? 'domcontentloaded',
                 waitFor: args.waitForMS,
                 selectorTimeoutMS: args.selectorTimeoutMS,
+                sessionId: args.sessionId,
+                actions: args.actions,
+                cookies: args.cookies,
+                headers: args.headers,
+                httpCredentials: args.httpCredentials,
+                userAgent: args.userAgent,
+                blockedResourceTypes: args.blockedResourceTypes,
+                allowFonts: args.allowFonts,
+                device: args.device,
+                dismissOverlays: args.dismissOverlays,
+                overlaySelectors: args.overlaySelectors,
+                ...toWaitConditions(args),
+                recordNetwork: args.har,
+                format: args.format,
+                quality: args.quality,
+                maxBytes: args.maxBytes,
+                targetModel: args.targetModel,
+                maxImageTokens: args.maxImageTokens,
             });
+            const har = args.har
+                ? await saveHar(
+                      url,
+                      result.network ?? [],
+                      args.directory,
+                      args.headers
+                  )
+                : undefined;
+
+            const mimeType = `image/${result.format}`;
+            const name = `Element ${args.selector} of ${url}`;
+            const uri = registerResource(
+                `screenshot://${newCaptureId()}/element`,
+                result.screenshot,
+                mimeType,
+                name
+            );
 
             return {
+                structuredContent: selectorOutput(
+                    result,
+                    args.selector,
+                    uri,
+                    har
+                ),
                 content: [
-                    {
-                        type: 'image',
-                        data: result.screenshot.toString('base64'),
-                        mimeType: 'image/png',
-                    },
+                    imageContent(
+                        {
+                            data: result.screenshot,
+                            mimeType,
+                            uri,
+                            name,
+                        },
+                        !!args.resourceLinks
+                    ),
                     {
                         type: 'text',
-                        text: `✅ Captured selector ${args.selector} from ${args.url}`,
+                        text: `✅ Captured selector ${args.selector} from ${url}${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`,
                     },
                 ],
             };
@@ -583,7 +2532,8 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
             }
 
             const args = request.params.arguments as any;
-            logger.info(`Processing screencast request for URL: ${args.url}`);
+            const url = resolveCaptureUrl(args);
+            logger.info(`Processing screencast request for URL: ${url}`);
 
             // Validate format parameter usage
             if (args.format && !args.directory) {
@@ -614,7 +2564,7 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
             }
 
             logger.debug('Screencast parameters:', {
-                url: args.url,
+                url: url,
                 duration,
                 interval,
                 width,
@@ -632,21 +2582,49 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
 
             logger.debug('Calling captureScreencast...');
             const result = await screenshotModule.captureScreencast({
-                url: args.url,
+                url: url,
                 duration,
                 interval,
-                viewport: {
-                    width: width,
-                    height: height,
-                },
+                viewport: toViewport(args),
                 waitUntil: args.waitUntil ?? 'domcontentloaded',
                 waitFor: undefined, // Removed waitForMS
                 jsEvaluate: args.jsEvaluate,
+                sessionId: args.sessionId,
+                cookies: args.cookies,
+                headers: args.headers,
+                httpCredentials: args.httpCredentials,
+                userAgent: args.userAgent,
+                blockedResourceTypes: args.blockedResourceTypes,
+                allowFonts: args.allowFonts,
+                device: args.device,
+                dismissOverlays: args.dismissOverlays,
+                overlaySelectors: args.overlaySelectors,
+                ...toWaitConditions(args),
+                recordNetwork: args.har,
             });
+            const har = args.har
+                ? await saveHar(
+                      url,
+                      result.network ?? [],
+                      args.directory,
+                      args.headers
+                  )
+                : undefined;
 
             logger.info('Screencast captured successfully');
             logger.debug(`Captured ${result.frames.length} frames`);
 
+            // Frames stay readable as screencast://<id>/frame/<n>
+            const captureId = newCaptureId();
+            const frameUris = result.frames.map((frame: any, i: number) =>
+                registerResource(
+                    `screencast://${captureId}/frame/${i}`,
+                    frame.screenshot,
+                    'image/png',
+                    `Screencast frame ${i} of ${url}`
+                )
+            );
+
             // If directory is specified, save based on format
             if (args.directory) {
                 logger.debug(
@@ -666,11 +2644,7 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
                     // Save individual PNG frames only
                     const framePaths: string[] = [];
                     for (let i = 0; i < result.frames.length; i++) {
-                        const frameFilename = generateFilename(
-                            args.url,
-                            i,
-                            'frame'
-                        );
+                        const frameFilename = generateFilename(url, i, 'frame');
                         const frameFilepath = join(
                             args.directory,
                             frameFilename
@@ -683,10 +2657,16 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
                     }
 
                     return {
+                        structuredContent: screencastOutput(result, {
+                            har,
+                            savedAs: 'png',
+                            paths: framePaths,
+                            uris: frameUris,
+                        }),
                         content: [
                             {
                                 type: 'text',
-                                text: `✅ Screencast saved as PNG frames:\n${framePaths.join('\n')}\n\nDuration: ${result.duration}s\nFrames: ${result.frames.length}\nInterval: ${interval}s`,
+                                text: `✅ Screencast saved as PNG frames:\n${framePaths.join('\n')}\n\nDuration: ${result.duration}s\nFrames: ${result.frames.length}\nInterval: ${interval}s${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`,
                             },
                         ],
                     };
@@ -711,18 +2691,31 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
 
                     if (webpBuffer) {
                         const filename = generateFilename(
-                            args.url,
+                            url,
                             undefined,
                             'screencast'
                         ).replace('.png', '.webp');
                         const filepath = join(args.directory, filename);
                         await writeFile(filepath, webpBuffer);
+                        const webpUri = registerResource(
+                            `screencast://${captureId}/webp`,
+                            webpBuffer,
+                            'image/webp',
+                            `Animated screencast of ${url}`
+                        );
 
                         return {
+                            structuredContent: screencastOutput(result, {
+                                har,
+                                savedAs: 'webp',
+                                paths: [filepath],
+                                uris: frameUris,
+                                webpUri,
+                            }),
                             content: [
                                 {
                                     type: 'text',
-                                    text: `✅ Screencast saved as animated WebP: ${filepath}\n\nDuration: ${result.duration}s\nFrames: ${result.frames.length}\nCapture Interval: ${interval * 1000}ms (4s pause at end)\nQuality: ${quality}\nMethod: img2webp (optimized with frame deduplication)`,
+                                    text: `✅ Screencast saved as animated WebP: ${filepath}\n\nDuration: ${result.duration}s\nFrames: ${result.frames.length}\nCapture Interval: ${interval * 1000}ms (4s pause at end)\nQuality: ${quality}\nMethod: img2webp (optimized with frame deduplication)${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`,
                                 },
                             ],
                         };
@@ -731,7 +2724,7 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
                         const framePaths: string[] = [];
                         for (let i = 0; i < result.frames.length; i++) {
                             const frameFilename = generateFilename(
-                                args.url,
+                                url,
                                 i,
                                 'frame'
                             );
@@ -747,10 +2740,16 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
                         }
 
                         return {
+                            structuredContent: screencastOutput(result, {
+                                har,
+                                savedAs: 'png',
+                                paths: framePaths,
+                                uris: frameUris,
+                            }),
                             content: [
                                 {
                                     type: 'text',
-                                    text: `⚠️  WebP creation failed, saved as PNG frames:\n${framePaths.join('\n')}\n\nDuration: ${result.duration}s\nFrames: ${result.frames.length}\nInterval: ${interval}s`,
+                                    text: `⚠️  WebP creation failed, saved as PNG frames:\n${framePaths.join('\n')}\n\nDuration: ${result.duration}s\nFrames: ${result.frames.length}\nInterval: ${interval}s${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`,
                                 },
                             ],
                         };
@@ -762,20 +2761,33 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
 
                 // Add each frame as an image
                 for (let i = 0; i < result.frames.length; i++) {
-                    content.push({
-                        type: 'image',
-                        data: result.frames[i].screenshot.toString('base64'),
-                        mimeType: 'image/png',
-                    });
+                    content.push(
+                        imageContent(
+                            {
+                                data: result.frames[i].screenshot,
+                                mimeType: 'image/png',
+                                uri: frameUris[i],
+                                name: `Screencast frame ${i} of ${url}`,
+                            },
+                            !!args.resourceLinks
+                        )
+                    );
                 }
 
                 // Add summary text
                 content.push({
                     type: 'text',
-                    text: `✅ Captured ${result.frames.length} frames over ${result.duration} seconds (${result.interval}s interval)`,
+                    text: `✅ Captured ${result.frames.length} frames over ${result.duration} seconds (${result.interval}s interval)${formatOverlayNote(result)}${formatBlockedNote(result)}${formatNetworkNote(result, har)}`,
                 });
 
-                return { content };
+                return {
+                    content,
+                    structuredContent: screencastOutput(result, {
+                        har,
+                        savedAs: 'inline',
+                        uris: frameUris,
+                    }),
+                };
             }
         } else if (request.params.name === 'capture_console') {
             // Lazy load the module on first use
@@ -787,22 +2799,39 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
             }
 
             const args = request.params.arguments as any;
-            logger.info(
-                `Processing console capture request for URL: ${args.url}`
-            );
+            const url = resolveCaptureUrl(args);
+            logger.info(`Processing console capture request for URL: ${url}`);
             logger.debug('Console capture parameters:', {
-                url: args.url,
+                url: url,
                 jsCommand: args.jsCommand,
                 duration: args.duration,
                 waitUntil: args.waitUntil,
+                levels: args.levels,
+                pattern: args.pattern,
+                dedupe: args.dedupe,
             });
 
             logger.debug('Calling captureConsole...');
             const result = await screenshotModule.captureConsole({
-                url: args.url,
+                url: url,
                 jsCommand: args.jsCommand,
                 duration: args.duration,
                 waitUntil: args.waitUntil,
+                levels: args.levels,
+                pattern: args.pattern,
+                excludePattern: args.excludePattern,
+                dedupe: args.dedupe,
+                dismissOverlays: args.dismissOverlays,
+                overlaySelectors: args.overlaySelectors,
+                ...toWaitConditions(args),
+                sessionId: args.sessionId,
+                cookies: args.cookies,
+                headers: args.headers,
+                httpCredentials: args.httpCredentials,
+                userAgent: args.userAgent,
+                blockedResourceTypes: args.blockedResourceTypes,
+                allowFonts: args.allowFonts,
+                device: args.device,
             });
 
             logger.info('Console capture completed successfully');
@@ -810,27 +2839,436 @@ server.setRequestHandler(CallToolRequestSchema, async request => {
 
             // Format the console messages for output
             const formattedMessages = result.messages
-                .map((msg: any) => {
-                    const timestamp = msg.timestamp.toISOString();
-                    return `[${timestamp}] [${msg.type.toUpperCase()}] ${msg.text}`;
-                })
+                .map(formatConsoleMessage)
                 .join('\n');
 
             return {
+                structuredContent: consoleOutput(result),
                 content: [
                     {
                         type: 'text',
                         text: `✅ Console capture completed for ${result.url}
 
 Duration: ${result.duration} seconds
-Messages captured: ${result.messages.length}
-${result.executedCommand ? `JS Command executed: ${result.executedCommand}` : 'No JS command executed'}
+Messages captured: ${result.messages.length}${result.totalMessages !== result.messages.length ? ` (${result.totalMessages} before filtering${args.dedupe ? ' and deduplication' : ''})` : ''}
+${result.executedCommand ? `JS Command executed: ${result.executedCommand}` : 'No JS command executed'}${formatOverlayNote(result)}${formatBlockedNote(result)}
 
 Console Output:
 ${formattedMessages || '(No console messages captured)'}`,
                     },
                 ],
             };
+        } else if (request.params.name === 'capture_network') {
+            if (!screenshotModule) {
+                logger.debug('Loading screenshot module...');
+                screenshotModule =
+                    await import('./internal/screenshotCapture.js');
+                logger.info('Screenshot module loaded successfully');
+            }
+
+            const args = request.params.arguments as any;
+            const url = resolveCaptureUrl(args);
+            logger.info(`Processing network capture request for URL: ${url}`);
+
+            const result = await screenshotModule.captureNetwork({
+                url: url,
+                duration: args.duration,
+                waitUntil: args.waitUntil,
+                actions: args.actions,
+                sessionId: args.sessionId,
+                cookies: args.cookies,
+                headers: args.headers,
+                httpCredentials: args.httpCredentials,
+                userAgent: args.userAgent,
+                blockedResourceTypes: args.blockedResourceTypes,
+                allowFonts: args.allowFonts,
+                device: args.device,
+                dismissOverlays: args.dismissOverlays,
+                overlaySelectors: args.overlaySelectors,
+                ...toWaitConditions(args),
+            });
+            const har = await saveHar(
+                url,
+                result.requests,
+                args.directory,
+                args.headers
+            );
+            const problems = formatNetworkProblems(result.requests);
+
+            return {
+                structuredContent: networkOutput(result, har),
+                content: [
+                    {
+                        type: 'text',
+                        text: `${result.status !== undefined && result.status >= 400 ? '⚠️ ' : '✅'} Network capture completed for ${result.url}${result.finalUrl !== result.url ? ` (now at ${result.finalUrl})` : ''}
+
+Document status: ${result.status ?? 'not navigated'}
+Requests: ${formatNetworkSummary(result.summary)}
+HAR: ${har.path ?? har.uri ?? '(too large to keep, pass "directory" to save it)'}${formatOverlayNote(result)}
+
+${problems ? `Failed, blocked and error requests:\n${problems}` : 'No failed, blocked or error requests'}`,
+                    },
+                ],
+            };
+        } else if (request.params.name === 'diagnose_page') {
+            if (!screenshotModule) {
+                logger.debug('Loading screenshot module...');
+                screenshotModule =
+                    await import('./internal/screenshotCapture.js');
+                logger.info('Screenshot module loaded successfully');
+            }
+
+            const args = request.params.arguments as any;
+            const url = resolveCaptureUrl(args);
+            logger.info(`Processing diagnose request for URL: ${url}`);
+
+            const result = await screenshotModule.diagnosePage({
+                url: url,
+                viewport: toViewport(args),
+                waitUntil: args.waitUntil ?? 'domcontentloaded',
+                waitFor: args.waitForMS,
+                sessionId: args.sessionId,
+                actions: args.actions,
+                cookies: args.cookies,
+                headers: args.headers,
+                httpCredentials: args.httpCredentials,
+                userAgent: args.userAgent,
+                blockedResourceTypes: args.blockedResourceTypes,
+                allowFonts: args.allowFonts,
+                device: args.device,
+                dismissOverlays: args.dismissOverlays,
+                overlaySelectors: args.overlaySelectors,
+                ...toWaitConditions(args),
+                format: args.format,
+                quality: args.quality,
+                maxBytes: args.maxBytes,
+                targetModel: args.targetModel,
+                maxImageTokens: args.maxImageTokens,
+            });
+
+            const mimeType = `image/${result.format}`;
+            const name = `Diagnosis of ${url}`;
+            const uri = registerResource(
+                `screenshot://${newCaptureId()}/diagnosis`,
+                result.screenshot,
+                mimeType,
+                name
+            );
+            const levelCount = (level: string) =>
+                result.consoleMessages.filter(
+                    (message: any) => message.level === level
+                ).length;
+            const healthy =
+                (result.status === undefined || result.status < 400) &&
+                result.exceptions.length === 0 &&
+                result.failedRequests.length === 0 &&
+                levelCount('error') === 0;
+            const problems = formatNetworkProblems(result.failedRequests);
+
+            return {
+                structuredContent: diagnoseOutput(result, uri),
+                content: [
+                    imageContent(
+                        { data: result.screenshot, mimeType, uri, name },
+                        !!args.resourceLinks
+                    ),
+                    {
+                        type: 'text',
+                        text: `${healthy ? '✅ No problems found' : '⚠️ Problems found'} on ${url}${result.finalUrl !== url ? ` (redirected to ${result.finalUrl})` : ''}
+
+Title: ${result.title || '(no title)'}
+HTTP status: ${result.status ?? 'unknown'}
+Console: ${result.consoleMessages.length} messages (${levelCount('error')} errors, ${levelCount('warning')} warnings)
+Uncaught exceptions: ${result.exceptions.length}
+Failed requests: ${result.failedRequests.length}${formatOverlayNote(result)}${formatBlockedNote(result)}
+${result.exceptions.length ? `\nUncaught exceptions:\n${result.exceptions.map(formatConsoleMessage).join('\n')}\n` : ''}${problems ? `\nFailed requests:\n${problems}\n` : ''}${result.consoleMessages.length ? `\nConsole Output:\n${result.consoleMessages.map(formatConsoleMessage).join('\n')}` : ''}`,
+                    },
+                ],
+            };
+        } else if (request.params.name === 'capture_accessibility') {
+            if (!screenshotModule) {
+                logger.debug('Loading screenshot module...');
+                screenshotModule =
+                    await import('./internal/screenshotCapture.js');
+                logger.info('Screenshot module loaded successfully');
+            }
+
+            const args = request.params.arguments as any;
+            const url = resolveCaptureUrl(args);
+            logger.info(
+                `Processing accessibility capture request for URL: ${url}`
+            );
+
+            const result = await screenshotModule.captureAccessibility({
+                url: url,
+                selector: args.selector,
+                selectorTimeoutMS: args.selectorTimeoutMS,
+                audit: args.audit,
+                interestingOnly: args.interestingOnly,
+                viewport: toViewport(args),
+                waitUntil: args.waitUntil ?? 'domcontentloaded',
+                waitFor: args.waitForMS,
+                sessionId: args.sessionId,
+                actions: args.actions,
+                cookies: args.cookies,
+                headers: args.headers,
+                httpCredentials: args.httpCredentials,
+                userAgent: args.userAgent,
+                blockedResourceTypes: args.blockedResourceTypes,
+                allowFonts: args.allowFonts,
+                device: args.device,
+                dismissOverlays: args.dismissOverlays,
+                overlaySelectors: args.overlaySelectors,
+                ...toWaitConditions(args),
+            });
+            const outline = formatAccessibilityOutline(result.tree);
+
+            return {
+                structuredContent: accessibilityOutput(result),
+                content: [
+                    {
+                        type: 'text',
+                        text: `✅ Captured accessibility tree of ${args.selector ? `${args.selector} on ` : ''}${url} (${result.nodeCount} nodes)${formatOverlayNote(result)}${formatBlockedNote(result)}${formatAccessibilityIssues(result.issues)}
+
+${outline || '(The accessibility tree is empty)'}`,
+                    },
+                ],
+            };
+        } else if (request.params.name === 'compare_screenshots') {
+            if (!screenshotModule) {
+                logger.debug('Loading screenshot module...');
+                screenshotModule =
+                    await import('./internal/screenshotCapture.js');
+                logger.info('Screenshot module loaded successfully');
+            }
+            if (!compareModule) {
+                logger.debug('Loading compare module...');
+                compareModule = await import('./internal/screenshotCompare.js');
+                logger.info('Compare module loaded successfully');
+            }
+
+            const args = request.params.arguments as any;
+            const url = resolveCaptureUrl(args);
+            logger.info(`Processing compare request for URL: ${url}`);
+            logger.debug('Compare parameters:', {
+                url: url,
+                baselineUrl: args.baselineUrl,
+                baselinePath: args.baselinePath,
+                width: args.width,
+                fullPage: args.fullPage,
+                threshold: args.threshold,
+                directory: args.directory,
+            });
+
+            if (!args.baselineUrl === !args.baselinePath) {
+                throw new Error(
+                    'Provide exactly one of "baselineUrl" or "baselinePath"'
+                );
+            }
+
+            const result = await compareModule.compareScreenshots({
+                url: url,
+                baselineUrl: args.baselineUrl,
+                baselineImage: args.baselinePath
+                    ? await readFile(args.baselinePath)
+                    : undefined,
+                threshold: args.threshold,
+                viewport: toViewport(args),
+                fullPage: args.fullPage ?? true,
+                waitUntil: args.waitUntil ?? 'domcontentloaded',
+                waitFor: args.waitForMS,
+                sessionId: args.sessionId,
+                actions: args.actions,
+                cookies: args.cookies,
+                headers: args.headers,
+                httpCredentials: args.httpCredentials,
+                userAgent: args.userAgent,
+                blockedResourceTypes: args.blockedResourceTypes,
+                allowFonts: args.allowFonts,
+                device: args.device,
+                dismissOverlays: args.dismissOverlays,
+                overlaySelectors: args.overlaySelectors,
+                ...toWaitConditions(args),
+            });
+
+            const changedTiles = result.tiles.filter(
+                (tile: any) => tile.mismatchedPixels > 0
+            );
+            const baselineLabel = args.baselinePath ?? result.baseline;
+            const summary = changedTiles.length
+                ? `⚠️ ${result.mismatchPercentage.toFixed(2)}% of pixels differ between ${baselineLabel} and ${result.url} (${result.mismatchedPixels} pixels in ${changedTiles.length}/${result.tiles.length} tiles)\n\nChanged regions (page coordinates):\n${formatRegions(result.regions)}`
+                : `✅ No visual differences between ${baselineLabel} and ${result.url} (${result.tiles.length} tiles compared)`;
+
+            return diffResponse(
+                result,
+                url,
+                summary,
+                args.directory,
+                !!args.resourceLinks
+            );
+        } else if (
+            request.params.name === 'save_baseline' ||
+            request.params.name === 'check_baseline'
+        ) {
+            if (!screenshotModule) {
+                logger.debug('Loading screenshot module...');
+                screenshotModule =
+                    await import('./internal/screenshotCapture.js');
+                logger.info('Screenshot module loaded successfully');
+            }
+            if (!compareModule) {
+                logger.debug('Loading compare module...');
+                compareModule = await import('./internal/screenshotCompare.js');
+                logger.info('Compare module loaded successfully');
+            }
+
+            const args = request.params.arguments as any;
+            const url = resolveCaptureUrl(args);
+            logger.info(
+                `Processing ${request.params.name} request for URL: ${url}`
+            );
+            logger.debug('Baseline parameters:', {
+                url: url,
+                selector: args.selector,
+                width: args.width,
+                height: args.height,
+                fullPage: args.fullPage,
+                baselineDir: args.baselineDir,
+                threshold: args.threshold,
+                maxMismatchPercentage: args.maxMismatchPercentage,
+            });
+
+            if (request.params.name === 'save_baseline') {
+                const entry = await compareModule.saveBaseline(
+                    toBaselineOptions(args, url)
+                );
+
+                return {
+                    structuredContent: baselineOutput(entry),
+                    content: [
+                        {
+                            type: 'text',
+                            text: `✅ Saved baseline "${entry.key}" (${entry.tiles.length} image${entry.tiles.length === 1 ? '' : 's'}, ${entry.fullWidth}x${entry.fullHeight} pixels)${formatBlockedNote(entry)}`,
+                        },
+                    ],
+                };
+            }
+
+            const result = await compareModule.checkBaseline({
+                ...toBaselineOptions(args, url),
+                threshold: args.threshold,
+                maxMismatchPercentage: args.maxMismatchPercentage,
+            });
+
+            const summary = result.passed
+                ? `✅ Baseline check passed for "${result.key}": ${result.mismatchPercentage.toFixed(2)}% of pixels differ (max ${result.maxMismatchPercentage}%)`
+                : `⚠️ Baseline check failed for "${result.key}": ${result.mismatchPercentage.toFixed(2)}% of pixels differ (max ${result.maxMismatchPercentage}%)\n\nChanged regions (${args.selector ? 'element' : 'page'} coordinates):\n${formatRegions(result.regions)}`;
+
+            return diffResponse(
+                result,
+                url,
+                summary,
+                args.directory,
+                !!args.resourceLinks
+            );
+        } else if (request.params.name === 'open_session') {
+            if (!screenshotModule) {
+                logger.debug('Loading screenshot module...');
+                screenshotModule =
+                    await import('./internal/screenshotCapture.js');
+                logger.info('Screenshot module loaded successfully');
+            }
+
+            const args = (request.params.arguments ?? {}) as any;
+            logger.info('Processing open session request');
+            logger.debug('Open session parameters:', {
+                sessionId: args.sessionId,
+                url: args.url,
+                width: args.width,
+                height: args.height,
+                waitUntil: args.waitUntil,
+                waitForMS: args.waitForMS,
+            });
+
+            const session = await screenshotModule.openSession({
+                sessionId: args.sessionId,
+                url: args.url,
+                viewport: toViewport(args),
+                waitUntil: args.waitUntil ?? 'domcontentloaded',
+                waitFor: args.waitForMS,
+                actions: args.actions,
+                cookies: args.cookies,
+                headers: args.headers,
+                httpCredentials: args.httpCredentials,
+                userAgent: args.userAgent,
+                blockedResourceTypes: args.blockedResourceTypes,
+                allowFonts: args.allowFonts,
+                device: args.device,
+                ...toWaitConditions(args),
+            });
+
+            return {
+                structuredContent: sessionOutput(session),
+                content: [
+                    {
+                        type: 'text',
+                        text: `✅ Session ${session.id} opened${session.url && session.url !== 'about:blank' ? ` at ${session.url}` : ''}
+
+Pass sessionId="${session.id}" to take_screenshot, capture_selector, take_screencast or capture_console to reuse it.
+Expires after inactivity at: ${session.expiresAt.toISOString()}`,
+                    },
+                ],
+            };
+        } else if (request.params.name === 'list_sessions') {
+            if (!screenshotModule) {
+                logger.debug('Loading screenshot module...');
+                screenshotModule =
+                    await import('./internal/screenshotCapture.js');
+                logger.info('Screenshot module loaded successfully');
+            }
+
+            const sessions = screenshotModule.listSessions();
+            const formattedSessions = sessions
+                .map(
+                    (session: any) =>
+                        `- ${session.id}: ${session.url || '(no page)'}${session.busy ? ' [busy]' : ''} (last used ${session.lastUsedAt.toISOString()}, expires ${session.expiresAt.toISOString()})`
+                )
+                .join('\n');
+
+            return {
+                structuredContent: { sessions: sessions.map(sessionOutput) },
+                content: [
+                    {
+                        type: 'text',
+                        text: `Open sessions: ${sessions.length}
+${formattedSessions}`.trim(),
+                    },
+                ],
+            };
+        } else if (request.params.name === 'close_session') {
+            if (!screenshotModule) {
+                logger.debug('Loading screenshot module...');
+                screenshotModule =
+                    await import('./internal/screenshotCapture.js');
+                logger.info('Screenshot module loaded successfully');
+            }
+
+            const args = request.params.arguments as any;
+            logger.info(`Processing close session request: ${args.sessionId}`);
+
+            const closed = await screenshotModule.closeSession(args.sessionId);
+
+            return {
+                structuredContent: { sessionId: args.sessionId, closed },
+                content: [
+                    {
+                        type: 'text',
+                        text: closed
+                            ? `✅ Session ${args.sessionId} closed`
+                            : `⚠️  No open session named ${args.sessionId}`,
+                    },
+                ],
+            };
         } else {
             const error = `Unknown tool: ${request.params.name}`;
             logger.error(error);
@@ -852,14 +3290,37 @@ ${formattedMessages || '(No console messages captured)'}`,
 server.setRequestHandler(ListResourcesRequestSchema, async () => {
     logger.debug('Received ListResources request');
     return {
-        resources: RESOURCES,
+        resources: [
+            ...RESOURCES,
+            ...resourceStore.list().map(resource => ({
+                uri: resource.uri,
+                name: resource.name,
+                mimeType: resource.mimeType,
+                description: resource.description,
+            })),
+        ],
     };
 });
 
 // Handle resource reading
 server.setRequestHandler(ReadResourceRequestSchema, async request => {
     logger.debug('Received ReadResource request:', request.params);
-    throw new Error(`No resources available`);
+    const { uri } = request.params;
+    const resource = resourceStore.get(uri);
+    if (!resource) {
+        throw new Error(
+            `Resource ${uri} not found, it may have been evicted from the capture cache`
+        );
+    }
+    return {
+        contents: [
+            {
+                uri: resource.uri,
+                mimeType: resource.mimeType,
+                blob: resource.data.toString('base64'),
+            },
+        ],
+    };
 });
 
 // Start the server
@@ -890,8 +3351,7 @@ async function runServer() {
 
         logger.info('Ready to receive requests');
         logger.debug('Server details:', {
-            name: 'screenshot-website-fast',
-            version: '0.1.25',
+            ...SERVER_INFO,
             pid: process.pid,
         });
 
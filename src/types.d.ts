@@ -1,12 +1,140 @@
-export interface ScreenshotOptions {
+interface PageActionBase {
+    timeout?: number; // Per-step timeout in milliseconds, default 5000
+}
+
+export type PageAction = PageActionBase &
+    (
+        | { type: 'click'; selector: string }
+        | { type: 'type'; selector: string; text: string; delay?: number }
+        | { type: 'press'; key: string; selector?: string }
+        | { type: 'hover'; selector: string }
+        | { type: 'scroll'; selector?: string; x?: number; y?: number }
+        | { type: 'select'; selector: string; values: string | string[] }
+        | { type: 'waitForSelector'; selector: string; hidden?: boolean }
+        | {
+              type: 'waitForNavigation';
+              waitUntil?:
+                  | 'load'
+                  | 'domcontentloaded'
+                  | 'networkidle0'
+                  | 'networkidle2';
+          }
+    );
+
+export interface CaptureCookie {
+    name: string;
+    value: string;
+    url?: string; // Used to derive the domain; defaults to the capture URL
+    domain?: string;
+    path?: string;
+    expires?: number; // Unix time in seconds, session cookie if not set
+    httpOnly?: boolean;
+    secure?: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+// Identity and auth settings applied to the page before navigation
+export interface RequestOptions {
+    cookies?: CaptureCookie[];
+    headers?: Record<string, string>; // Extra HTTP headers sent with every request
+    httpCredentials?: {
+        username: string;
+        password: string;
+    };
+    userAgent?: string;
+    blockedResourceTypes?: string[]; // Resource types aborted instead of loaded, default font and media
+    allowFonts?: boolean; // Load web fonts even when blockedResourceTypes lists them
+}
+
+// A request the capture aborted instead of loading
+export interface BlockedRequest {
+    url: string;
+    resourceType: string;
+    reason: string; // Blocked resource type, or why the URL is unsafe
+}
+
+// Explicit emulation parameters, as an alternative to a named device preset
+export interface DeviceEmulation {
+    width: number;
+    height: number;
+    deviceScaleFactor?: number;
+    isMobile?: boolean;
+    hasTouch?: boolean;
+    isLandscape?: boolean;
+    userAgent?: string;
+}
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export type VisionModel = 'claude' | 'gpt-4o' | 'gemini';
+
+export interface ImageEncodingOptions {
+    format?: ImageFormat; // Default png
+    quality?: number; // 1-100, for jpeg/webp/avif (png quantizes to a palette)
+    maxBytes?: number; // Per-image budget, lowers quality then size until it fits
+    targetModel?: VisionModel; // Downscale to what this model looks at, and estimate tokens for it (default claude)
+    maxImageTokens?: number; // Per-image token budget, downscales until the estimate fits
+}
+
+export interface DismissedOverlay {
+    name: string; // Consent manager, "modal dialog", "overlay" or "custom"
+    selector: string;
+    action: 'clicked' | 'hidden';
+}
+
+export interface OverlayOptions {
+    dismissOverlays?: boolean; // Click away or hide consent banners and modal overlays before capture
+    overlaySelectors?: string[]; // Extra selectors hidden along with the built-in list
+}
+
+// Readiness conditions checked after navigation, each failing after waitTimeout
+export interface WaitConditions {
+    waitForSelector?: string; // Wait for this element to become visible
+    waitForSelectorHidden?: boolean; // Wait for waitForSelector to disappear instead
+    waitForFunction?: string; // JavaScript expression polled until truthy
+    waitForNetworkIdle?: number; // Milliseconds without network requests
+    waitForAssets?: boolean; // Web fonts and (non-lazy) images finished loading
+    waitForStable?: boolean; // Two consecutive frames identical
+    waitTimeout?: number; // Per condition, default 10000
+}
+
+export interface AutoScrollResult {
+    steps: number;
+    initialHeight: number; // Page height before scrolling
+    height: number; // Page height after scrolling
+    limitReached: boolean; // Stopped by the height or step cap before the bottom
+}
+
+export interface ScreenshotOptions
+    extends
+        RequestOptions,
+        ImageEncodingOptions,
+        OverlayOptions,
+        WaitConditions {
     url: string;
     viewport?: {
         width: number;
         height: number;
     };
     fullPage?: boolean;
+    maxWidth?: number; // Widest part of the page tiled, default 4 viewport widths
+    tileHeight?: number; // Height of full-page tiles, default the viewport width
+    tileOverlap?: number; // Pixels each tile repeats from the previous one, default 0
+    smartTiling?: boolean; // Move tile cuts into gaps between elements, giving rows variable heights
+    smartTilingTolerance?: number; // How far up a cut may move, default a quarter of the tile height
+    fixedElements?: 'keep' | 'hide-after-first' | 'hide'; // Fixed/sticky elements in tiles, default keep
+    recordNetwork?: boolean; // Return the page's requests as network, e.g. for a HAR
+    autoScroll?: boolean; // Scroll through the page first so lazy content loads, full-page only
+    autoScrollMaxHeight?: number; // Stop scrolling (and cap the capture) once the page grew this tall, default 20000
+    autoScrollMaxSteps?: number; // Stop after this many viewport-sized steps, default 50
+    stitch?: boolean; // Return the full page as one image instead of tiles
+    stitchMaxHeight?: number; // Tallest page stitched, in page pixels
+    stitchDownscale?: boolean; // Shrink pages over stitchMaxHeight instead of failing
+    device?: string | DeviceEmulation; // Preset name (e.g. "iPhone 15 Pro") or explicit parameters, overrides viewport
     waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
     waitFor?: number;
+    sessionId?: string; // Capture in a named session opened with openSession
+    actions?: PageAction[]; // Interaction steps run after navigation, before the shot
 }
 
 export interface SelectorScreenshotOptions extends ScreenshotOptions {
@@ -14,7 +142,8 @@ export interface SelectorScreenshotOptions extends ScreenshotOptions {
     selectorTimeoutMS?: number;
 }
 
-export interface ScreencastOptions {
+export interface ScreencastOptions
+    extends RequestOptions, OverlayOptions, WaitConditions {
     url: string;
     duration: number; // Duration in seconds
     interval: number; // Interval between screenshots in seconds
@@ -22,9 +151,12 @@ export interface ScreencastOptions {
         width: number;
         height: number;
     };
+    device?: string | DeviceEmulation;
     waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
     waitFor?: number;
     jsEvaluate?: string | string[]; // JavaScript code to execute - string or array of instructions
+    sessionId?: string;
+    recordNetwork?: boolean;
 }
 
 export interface ScreenshotResult {
@@ -35,7 +167,12 @@ export interface ScreenshotResult {
         width: number;
         height: number;
     };
-    format: 'png';
+    format: ImageFormat;
+    estimatedTokens: number; // Image tokens for the target model
+    targetModel: VisionModel;
+    dismissedOverlays: DismissedOverlay[];
+    blockedRequests: BlockedRequest[];
+    network?: NetworkRequest[]; // Set when recordNetwork was requested
 }
 
 export interface TiledScreenshotResult {
@@ -49,12 +186,126 @@ export interface TiledScreenshotResult {
         y: number;
         width: number;
         height: number;
+        estimatedTokens: number;
     }[];
     timestamp: Date;
+    fullWidth: number; // Captured width, at most maxWidth
+    fullHeight: number;
+    pageWidth: number; // Measured document width, more than fullWidth when cropped
+    tileSize: number; // Tile width
+    tileHeight: number;
+    tileOverlap: number;
+    stitched: boolean; // A single tile holding the whole page
+    fixedElementsHidden: number; // Fixed/sticky elements hidden for some or all tiles
+    format: ImageFormat;
+    estimatedTokens: number; // Sum over all tiles
+    targetModel: VisionModel;
+    dismissedOverlays: DismissedOverlay[];
+    blockedRequests: BlockedRequest[];
+    network?: NetworkRequest[]; // Set when recordNetwork was requested
+    autoScroll?: AutoScrollResult; // Set when autoScroll was requested
+}
+
+export interface DiffRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Diffs need lossless captures on the default tile grid, so the encoding
+// and tile layout options are not accepted
+type DiffCaptureOptions = Omit<
+    ScreenshotOptions,
+    | keyof ImageEncodingOptions
+    | 'tileHeight'
+    | 'tileOverlap'
+    | 'smartTiling'
+    | 'smartTilingTolerance'
+    | 'stitch'
+    | 'stitchMaxHeight'
+    | 'stitchDownscale'
+>;
+
+export interface CompareOptions extends DiffCaptureOptions {
+    baselineUrl?: string; // Page to compare against
+    baselineImage?: Buffer; // PNG to compare against instead of a second page
+    threshold?: number; // Per-channel color difference (0-1) ignored before a pixel counts as changed, default 0.1
+}
+
+export interface CompareResult {
+    url: string;
+    baseline: string; // Baseline URL, or "image" for a baseline PNG
+    timestamp: Date;
     fullWidth: number;
     fullHeight: number;
     tileSize: number;
+    mismatchedPixels: number;
+    totalPixels: number;
+    mismatchPercentage: number;
+    regions: DiffRegion[]; // Changed areas in page coordinates
+    tiles: {
+        index: number;
+        row: number;
+        col: number;
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+        mismatchedPixels: number;
+        mismatchPercentage: number;
+        regions: DiffRegion[];
+        diff: Buffer; // Current tile faded with changed pixels in red
+    }[];
     format: 'png';
+    blockedRequests: BlockedRequest[]; // Of both captures when comparing two pages
+}
+
+export interface BaselineOptions extends DiffCaptureOptions {
+    selector?: string; // Store an element shot instead of page tiles
+    selectorTimeoutMS?: number;
+    baselineDir?: string; // Where baselines and manifest.json live
+    threshold?: number; // Per-channel color tolerance, as in CompareOptions
+    maxMismatchPercentage?: number; // check fails above this, default 0.1
+}
+
+export interface BaselineTile {
+    row: number;
+    col: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    file: string; // Relative to the baseline directory
+}
+
+export interface BaselineEntry {
+    key: string; // URL + viewport + selector
+    url: string;
+    viewport: {
+        width: number;
+        height: number;
+    };
+    fullPage: boolean;
+    selector?: string;
+    device?: string | DeviceEmulation;
+    tiles: BaselineTile[];
+    fullWidth: number;
+    fullHeight: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface SavedBaseline extends BaselineEntry {
+    directory: string; // Baseline directory the tile files are relative to
+    blockedRequests: BlockedRequest[];
+}
+
+export interface BaselineCheckResult extends CompareResult {
+    key: string;
+    passed: boolean;
+    maxMismatchPercentage: number;
+    savedAt: string; // When the baseline was last saved
 }
 
 export interface ScreencastResult {
@@ -73,27 +324,237 @@ export interface ScreencastResult {
         height: number;
     };
     format: 'png';
+    dismissedOverlays: DismissedOverlay[];
+    blockedRequests: BlockedRequest[];
+    network?: NetworkRequest[]; // Set when recordNetwork was requested
 }
 
+// Puppeteer's console types, plus uncaught exceptions reported as 'pageerror'
+export type ConsoleMessageType =
+    | 'log'
+    | 'debug'
+    | 'info'
+    | 'error'
+    | 'warn'
+    | 'dir'
+    | 'dirxml'
+    | 'table'
+    | 'trace'
+    | 'clear'
+    | 'startGroup'
+    | 'startGroupCollapsed'
+    | 'endGroup'
+    | 'assert'
+    | 'profile'
+    | 'profileEnd'
+    | 'count'
+    | 'timeEnd'
+    | 'verbose'
+    | 'pageerror';
+
+export type ConsoleLevel = 'error' | 'warning' | 'info' | 'debug';
+
 export interface ConsoleMessage {
-    type: 'log' | 'error' | 'warn' | 'info' | 'debug';
+    type: ConsoleMessageType;
+    level: ConsoleLevel;
     text: string;
-    timestamp: Date;
-    args?: any[];
+    timestamp: Date; // First occurrence when deduplicated
+    args?: unknown[]; // Arguments serialized to JSON
+    location?: {
+        url: string;
+        line?: number; // 1-based
+        column?: number; // 1-based
+    };
+    stack?: string;
+    count?: number; // Occurrences, set when deduplicated
 }
 
-export interface ConsoleCaptureOptions {
+export interface ConsoleCaptureOptions
+    extends RequestOptions, OverlayOptions, WaitConditions {
     url: string;
     jsCommand?: string;
     duration?: number; // Duration in seconds, default 4
+    device?: string | DeviceEmulation;
     waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+    sessionId?: string;
+    levels?: ConsoleLevel[]; // Only keep messages of these levels
+    pattern?: string; // Only keep messages whose text matches this regex
+    excludePattern?: string; // Drop messages whose text matches this regex
+    dedupe?: boolean; // Collapse repeated messages into one with a count
 }
 
 export interface ConsoleCaptureResult {
     url: string;
     messages: ConsoleMessage[];
+    totalMessages: number; // Messages logged before filtering and deduplication
     startTime: Date;
     endTime: Date;
     duration: number;
     executedCommand?: string;
+    dismissedOverlays: DismissedOverlay[];
+    blockedRequests: BlockedRequest[];
+}
+
+export interface NetworkRequest {
+    url: string;
+    method: string;
+    resourceType: string;
+    startedAt: Date;
+    duration?: number; // Milliseconds until finished or failed
+    status?: number;
+    statusText?: string;
+    mimeType?: string;
+    size?: number; // Response body bytes, from Content-Length
+    fromCache?: boolean;
+    failure?: string; // Chrome's net::ERR_* reason for failed loads
+    blocked?: string; // Why the capture aborted the request
+    requestHeaders: Record<string, string>;
+    responseHeaders?: Record<string, string>;
+    timing?: {
+        dns: number; // -1 when not applicable
+        connect: number;
+        ssl: number;
+        send: number;
+        wait: number;
+        receive: number;
+    };
+}
+
+export interface NetworkSummary {
+    requests: number;
+    failed: number; // Failed loads, not counting blocked requests
+    blocked: number;
+    errorResponses: number; // HTTP 4xx and 5xx
+    totalBytes: number; // Sum of known response sizes
+    byType: Record<string, number>; // Requests per resource type
+}
+
+export interface NetworkCaptureOptions
+    extends RequestOptions, OverlayOptions, WaitConditions {
+    url: string;
+    duration?: number; // Seconds to keep recording after load, default 2
+    device?: string | DeviceEmulation;
+    waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+    sessionId?: string;
+    actions?: PageAction[]; // Steps run after load, their requests are recorded too
+}
+
+export interface NetworkCaptureResult {
+    url: string;
+    finalUrl: string; // After redirects
+    status?: number; // Status of the main document
+    startTime: Date;
+    endTime: Date;
+    requests: NetworkRequest[];
+    summary: NetworkSummary;
+    dismissedOverlays: DismissedOverlay[];
+    blockedRequests: BlockedRequest[];
+}
+
+export interface DiagnoseOptions
+    extends
+        RequestOptions,
+        ImageEncodingOptions,
+        OverlayOptions,
+        WaitConditions {
+    url: string;
+    viewport?: {
+        width: number;
+        height: number;
+    };
+    device?: string | DeviceEmulation;
+    waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+    waitFor?: number; // Extra milliseconds to keep listening after load
+    sessionId?: string;
+    actions?: PageAction[]; // Steps run after load, their errors are reported too
+}
+
+export interface DiagnoseResult {
+    url: string;
+    finalUrl: string; // After redirects
+    status?: number; // Status of the main document
+    title: string;
+    screenshot: Buffer; // Viewport only
+    timestamp: Date;
+    viewport: {
+        width: number;
+        height: number;
+    };
+    format: ImageFormat;
+    estimatedTokens: number;
+    targetModel: VisionModel;
+    consoleMessages: ConsoleMessage[];
+    exceptions: ConsoleMessage[]; // Uncaught exceptions, type 'pageerror'
+    failedRequests: NetworkRequest[]; // Failed loads and 4xx/5xx responses, not blocked ones
+    dismissedOverlays: DismissedOverlay[];
+    blockedRequests: BlockedRequest[];
+}
+
+export interface AccessibilityOptions
+    extends RequestOptions, OverlayOptions, WaitConditions {
+    url: string;
+    selector?: string; // Only snapshot (and audit) this element's subtree
+    selectorTimeoutMS?: number;
+    interestingOnly?: boolean; // Skip nodes assistive technology ignores, default true
+    audit?: boolean; // Also check for common accessibility problems
+    viewport?: {
+        width: number;
+        height: number;
+    };
+    device?: string | DeviceEmulation;
+    waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+    waitFor?: number;
+    sessionId?: string;
+    actions?: PageAction[];
+}
+
+export interface AccessibilityNode {
+    role: string;
+    name?: string;
+    value?: string | number;
+    description?: string;
+    url?: string; // Link targets
+    states?: string[]; // e.g. "focused", "expanded=false", "level=2"
+    children?: AccessibilityNode[];
+}
+
+export interface AccessibilityIssue {
+    rule: 'image-alt' | 'label' | 'button-name' | 'color-contrast';
+    selector: string; // CSS path of the element
+    element: string; // Its opening tag
+    message: string;
+    contrastRatio?: number; // color-contrast only
+}
+
+export interface AccessibilityResult {
+    url: string;
+    selector?: string;
+    timestamp: Date;
+    tree: AccessibilityNode[]; // Pruned snapshot, see pruneAccessibilityTree
+    nodeCount: number;
+    issues?: AccessibilityIssue[]; // Set when audit was requested
+    dismissedOverlays: DismissedOverlay[];
+    blockedRequests: BlockedRequest[];
+}
+
+export interface SessionOptions extends RequestOptions, WaitConditions {
+    sessionId?: string; // Generated when omitted
+    url?: string; // Initial page to open
+    viewport?: {
+        width: number;
+        height: number;
+    };
+    device?: string | DeviceEmulation;
+    waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+    waitFor?: number;
+    actions?: PageAction[]; // Steps run after opening url, e.g. to log in
+}
+
+export interface SessionInfo {
+    id: string;
+    url: string; // Current URL of the session page
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    busy: boolean;
 }
@@ -0,0 +1,75 @@
+const REDACTED = '[REDACTED]';
+
+// Headers that carry credentials on any request, whoever set them
+const CREDENTIAL_HEADERS = [
+    'authorization',
+    'proxy-authorization',
+    'cookie',
+    'set-cookie',
+];
+
+function redactRecordValues(value: unknown): unknown {
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(
+        Object.keys(value as object).map(key => [key, REDACTED])
+    );
+}
+
+/**
+ * Deep copy of tool call params with credentials masked, safe to log.
+ * Covers passwords, header values, cookie values and text typed by actions.
+ */
+export function redactSecrets(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(item => redactSecrets(item));
+    }
+    if (!value || typeof value !== 'object') {
+        return value;
+    }
+
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        if (key === 'password') {
+            redacted[key] = REDACTED;
+        } else if (key === 'headers') {
+            redacted[key] = redactRecordValues(item);
+        } else if (key === 'cookies' && Array.isArray(item)) {
+            redacted[key] = item.map(cookie =>
+                cookie && typeof cookie === 'object'
+                    ? { ...cookie, value: REDACTED }
+                    : REDACTED
+            );
+        } else if (key === 'actions' && Array.isArray(item)) {
+            redacted[key] = item.map(action =>
+                action && typeof action === 'object' && 'text' in action
+                    ? { ...action, text: REDACTED }
+                    : action
+            );
+        } else {
+            redacted[key] = redactSecrets(item);
+        }
+    }
+    return redacted;
+}
+
+/**
+ * Copy of recorded request or response headers with credential values
+ * masked: the standard auth and cookie headers, plus `secretHeaders`, the
+ * names of headers the caller supplied. Names match case-insensitively.
+ */
+export function redactHeaders(
+    headers: Record<string, string>,
+    secretHeaders: string[] = []
+): Record<string, string> {
+    const secret = new Set(
+        [...CREDENTIAL_HEADERS, ...secretHeaders].map(name =>
+            name.toLowerCase()
+        )
+    );
+    return Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [
+            name,
+            secret.has(name.toLowerCase()) ? REDACTED : value,
+        ])
+    );
+}
@@ -0,0 +1,361 @@
+import { join } from 'path';
+import type {
+    AccessibilityResult,
+    BaselineCheckResult,
+    CompareResult,
+    ConsoleCaptureResult,
+    ConsoleMessage,
+    DiagnoseResult,
+    NetworkCaptureResult,
+    NetworkRequest,
+    ScreencastResult,
+    ScreenshotResult,
+    SavedBaseline,
+    SessionInfo,
+    TiledScreenshotResult,
+} from '../types.js';
+import { summarizeNetwork } from '../internal/networkRecorder.js';
+
+// Builders for the `structuredContent` of tool results: the typed fields of
+// each capture result as plain JSON, without image buffers and with dates as
+// ISO strings. `paths` line up with tiles/frames when they were saved to disk,
+// `uris` when they were registered as MCP resources.
+
+function withLocation<T extends object>(
+    item: T,
+    path: string | undefined,
+    uri: string | undefined
+): T & { path?: string; uri?: string } {
+    return {
+        ...item,
+        ...(path ? { path } : {}),
+        ...(uri ? { uri } : {}),
+    };
+}
+
+// Where a HAR of the recorded requests was saved or registered
+export interface HarLocation {
+    path?: string;
+    uri?: string;
+}
+
+function withHarLocation<T extends object>(item: T, har?: HarLocation) {
+    return {
+        ...item,
+        ...(har?.path ? { harPath: har.path } : {}),
+        ...(har?.uri ? { harUri: har.uri } : {}),
+    };
+}
+
+// Summary of the requests recorded during a capture, when they were recorded
+function networkSection(requests?: NetworkRequest[], har?: HarLocation) {
+    return requests
+        ? { network: withHarLocation(summarizeNetwork(requests), har) }
+        : {};
+}
+
+export function screenshotOutput(
+    result: ScreenshotResult | TiledScreenshotResult,
+    locations: {
+        paths?: string[];
+        uris?: (string | undefined)[];
+        har?: HarLocation;
+    } = {}
+) {
+    const paths = locations.paths ?? [];
+    const uris = locations.uris ?? [];
+
+    if ('tiles' in result) {
+        return {
+            url: result.url,
+            timestamp: result.timestamp.toISOString(),
+            format: result.format,
+            fullPage: true,
+            fullWidth: result.fullWidth,
+            fullHeight: result.fullHeight,
+            pageWidth: result.pageWidth,
+            tileSize: result.tileSize,
+            tileHeight: result.tileHeight,
+            tileOverlap: result.tileOverlap,
+            stitched: result.stitched,
+            fixedElementsHidden: result.fixedElementsHidden,
+            targetModel: result.targetModel,
+            estimatedTokens: result.estimatedTokens,
+            dismissedOverlays: result.dismissedOverlays,
+            blockedRequests: result.blockedRequests,
+            ...(result.autoScroll ? { autoScroll: result.autoScroll } : {}),
+            ...networkSection(result.network, locations.har),
+            tiles: result.tiles.map((tile, i) =>
+                withLocation(
+                    {
+                        index: tile.index,
+                        row: tile.row,
+                        col: tile.col,
+                        x: tile.x,
+                        y: tile.y,
+                        width: tile.width,
+                        height: tile.height,
+                        estimatedTokens: tile.estimatedTokens,
+                    },
+                    paths[i],
+                    uris[i]
+                )
+            ),
+            savedPaths: paths,
+        };
+    }
+
+    // A viewport shot is reported as a page with a single tile
+    const { width, height } = result.viewport;
+    return {
+        url: result.url,
+        timestamp: result.timestamp.toISOString(),
+        format: result.format,
+        fullPage: false,
+        fullWidth: width,
+        fullHeight: height,
+        targetModel: result.targetModel,
+        estimatedTokens: result.estimatedTokens,
+        dismissedOverlays: result.dismissedOverlays,
+        blockedRequests: result.blockedRequests,
+        ...networkSection(result.network, locations.har),
+        tiles: [
+            withLocation(
+                {
+                    index: 0,
+                    row: 0,
+                    col: 0,
+                    x: 0,
+                    y: 0,
+                    width,
+                    height,
+                    estimatedTokens: result.estimatedTokens,
+                },
+                paths[0],
+                uris[0]
+            ),
+        ],
+        savedPaths: paths,
+    };
+}
+
+export function selectorOutput(
+    result: ScreenshotResult,
+    selector: string,
+    uri?: string,
+    har?: HarLocation
+) {
+    return {
+        url: result.url,
+        selector,
+        ...(uri ? { uri } : {}),
+        timestamp: result.timestamp.toISOString(),
+        format: result.format,
+        targetModel: result.targetModel,
+        estimatedTokens: result.estimatedTokens,
+        viewport: {
+            width: result.viewport.width,
+            height: result.viewport.height,
+        },
+        dismissedOverlays: result.dismissedOverlays,
+        blockedRequests: result.blockedRequests,
+        ...networkSection(result.network, har),
+    };
+}
+
+export function screencastOutput(
+    result: ScreencastResult,
+    output: {
+        savedAs: 'inline' | 'png' | 'webp';
+        paths?: string[];
+        uris?: (string | undefined)[];
+        webpUri?: string;
+        har?: HarLocation;
+    }
+) {
+    const paths = output.paths ?? [];
+    const uris = output.uris ?? [];
+    return {
+        url: result.url,
+        startTime: result.startTime.toISOString(),
+        endTime: result.endTime.toISOString(),
+        duration: result.duration,
+        interval: result.interval,
+        viewport: {
+            width: result.viewport.width,
+            height: result.viewport.height,
+        },
+        format: result.format,
+        savedAs: output.savedAs,
+        ...(output.webpUri ? { webpUri: output.webpUri } : {}),
+        dismissedOverlays: result.dismissedOverlays,
+        blockedRequests: result.blockedRequests,
+        ...networkSection(result.network, output.har),
+        frames: result.frames.map((frame, i) =>
+            withLocation(
+                {
+                    index: frame.index,
+                    timestamp: frame.timestamp.toISOString(),
+                },
+                output.savedAs === 'png' ? paths[i] : undefined,
+                uris[i]
+            )
+        ),
+        savedPaths: paths,
+    };
+}
+
+function messageOutput(message: ConsoleMessage) {
+    return { ...message, timestamp: message.timestamp.toISOString() };
+}
+
+// Headers and timing phases are left to the HAR
+function requestOutput(request: NetworkRequest) {
+    return {
+        url: request.url,
+        method: request.method,
+        resourceType: request.resourceType,
+        startedAt: request.startedAt.toISOString(),
+        ...(request.status !== undefined ? { status: request.status } : {}),
+        ...(request.duration !== undefined
+            ? { duration: request.duration }
+            : {}),
+        ...(request.size !== undefined ? { size: request.size } : {}),
+        ...(request.failure ? { failure: request.failure } : {}),
+        ...(request.blocked ? { blocked: request.blocked } : {}),
+    };
+}
+
+export function consoleOutput(result: ConsoleCaptureResult) {
+    return {
+        url: result.url,
+        startTime: result.startTime.toISOString(),
+        endTime: result.endTime.toISOString(),
+        duration: result.duration,
+        executedCommand: result.executedCommand,
+        dismissedOverlays: result.dismissedOverlays,
+        blockedRequests: result.blockedRequests,
+        messageCount: result.messages.length,
+        totalMessages: result.totalMessages,
+        messages: result.messages.map(messageOutput),
+    };
+}
+
+export function networkOutput(result: NetworkCaptureResult, har: HarLocation) {
+    return withHarLocation(
+        {
+            url: result.url,
+            finalUrl: result.finalUrl,
+            ...(result.status !== undefined ? { status: result.status } : {}),
+            startTime: result.startTime.toISOString(),
+            endTime: result.endTime.toISOString(),
+            summary: result.summary,
+            dismissedOverlays: result.dismissedOverlays,
+            blockedRequests: result.blockedRequests,
+            requests: result.requests.map(requestOutput),
+        },
+        har
+    );
+}
+
+export function diagnoseOutput(result: DiagnoseResult, uri?: string) {
+    return {
+        url: result.url,
+        finalUrl: result.finalUrl,
+        ...(result.status !== undefined ? { status: result.status } : {}),
+        title: result.title,
+        ...(uri ? { uri } : {}),
+        timestamp: result.timestamp.toISOString(),
+        format: result.format,
+        targetModel: result.targetModel,
+        estimatedTokens: result.estimatedTokens,
+        viewport: {
+            width: result.viewport.width,
+            height: result.viewport.height,
+        },
+        consoleMessages: result.consoleMessages.map(messageOutput),
+        exceptions: result.exceptions.map(messageOutput),
+        failedRequests: result.failedRequests.map(requestOutput),
+        dismissedOverlays: result.dismissedOverlays,
+        blockedRequests: result.blockedRequests,
+    };
+}
+
+export function accessibilityOutput(result: AccessibilityResult) {
+    return {
+        ...result,
+        timestamp: result.timestamp.toISOString(),
+    };
+}
+
+export function compareOutput(
+    result: CompareResult | BaselineCheckResult,
+    locations: {
+        paths?: Map<number, string>;
+        uris?: Map<number, string>;
+    } = {}
+) {
+    const paths = locations.paths ?? new Map<number, string>();
+    const uris = locations.uris ?? new Map<number, string>();
+    const check =
+        'passed' in result
+            ? {
+                  key: result.key,
+                  passed: result.passed,
+                  maxMismatchPercentage: result.maxMismatchPercentage,
+                  savedAt: result.savedAt,
+              }
+            : {};
+
+    return {
+        url: result.url,
+        baseline: result.baseline,
+        timestamp: result.timestamp.toISOString(),
+        ...check,
+        fullWidth: result.fullWidth,
+        fullHeight: result.fullHeight,
+        tileSize: result.tileSize,
+        mismatchedPixels: result.mismatchedPixels,
+        totalPixels: result.totalPixels,
+        mismatchPercentage: result.mismatchPercentage,
+        regions: result.regions,
+        blockedRequests: result.blockedRequests,
+        tiles: result.tiles.map(tile =>
+            withLocation(
+                {
+                    index: tile.index,
+                    row: tile.row,
+                    col: tile.col,
+                    x: tile.x,
+                    y: tile.y,
+                    width: tile.width,
+                    height: tile.height,
+                    mismatchedPixels: tile.mismatchedPixels,
+                    mismatchPercentage: tile.mismatchPercentage,
+                    regions: tile.regions,
+                },
+                paths.get(tile.index),
+                uris.get(tile.index)
+            )
+        ),
+        savedPaths: [...paths.values()],
+    };
+}
+
+export function baselineOutput(baseline: SavedBaseline) {
+    return {
+        ...baseline,
+        savedPaths: baseline.tiles.map(tile =>
+            join(baseline.directory, tile.file)
+        ),
+    };
+}
+
+export function sessionOutput(session: SessionInfo) {
+    return {
+        ...session,
+        createdAt: session.createdAt.toISOString(),
+        lastUsedAt: session.lastUsedAt.toISOString(),
+        expiresAt: session.expiresAt.toISOString(),
+    };
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import type { SerializedAXNode } from 'puppeteer';
+import {
+    contrastRatio,
+    countAccessibilityNodes,
+    findAccessibilityIssues,
+    formatAccessibilityOutline,
+    parseCssColor,
+    pruneAccessibilityTree,
+} from '../src/internal/accessibility.js';
+
+function axNode(
+    role: string,
+    properties: Partial<SerializedAXNode> = {},
+    children?: SerializedAXNode[]
+): SerializedAXNode {
+    return { role, ...properties, children } as SerializedAXNode;
+}
+
+describe('pruneAccessibilityTree', () => {
+    const snapshot = axNode('RootWebArea', { name: 'Sign in' }, [
+        axNode('generic', {}, [
+            axNode('heading', { name: 'Welcome back', level: 1 }, [
+                axNode('StaticText', { name: 'Welcome back' }, [
+                    axNode('InlineTextBox', { name: 'Welcome back' }),
+                ]),
+            ]),
+            axNode('textbox', {
+                name: 'Email',
+                value: 'me@example.com',
+                required: true,
+                focused: true,
+            }),
+            axNode('checkbox', { name: 'Remember me', checked: false }),
+            axNode('link', { name: 'Help', url: 'https://example.com/help' }),
+        ]),
+        axNode('StaticText', { name: '' }),
+    ]);
+
+    it('hoists unnamed wrappers and drops repeated text', () => {
+        const tree = pruneAccessibilityTree(snapshot);
+
+        expect(tree).toEqual([
+            {
+                role: 'RootWebArea',
+                name: 'Sign in',
+                children: [
+                    {
+                        role: 'heading',
+                        name: 'Welcome back',
+                        states: ['level=1'],
+                    },
+                    {
+                        role: 'textbox',
+                        name: 'Email',
+                        value: 'me@example.com',
+                        states: ['focused', 'required'],
+                    },
+                    {
+                        role: 'checkbox',
+                        name: 'Remember me',
+                        states: ['checked=false'],
+                    },
+                    {
+                        role: 'link',
+                        name: 'Help',
+                        url: 'https://example.com/help',
+                    },
+                ],
+            },
+        ]);
+        expect(countAccessibilityNodes(tree)).toBe(5);
+    });
+
+    it('renders an indented outline', () => {
+        expect(
+            formatAccessibilityOutline(pruneAccessibilityTree(snapshot))
+        ).toBe(
+            [
+                '- RootWebArea "Sign in"',
+                '  - heading "Welcome back" [level=1]',
+                '  - textbox "Email" [focused, required]: "me@example.com"',
+                '  - checkbox "Remember me" [checked=false]',
+                '  - link "Help" -> https://example.com/help',
+            ].join('\n')
+        );
+    });
+});
+
+describe('contrastRatio', () => {
+    it('parses computed style colors', () => {
+        expect(parseCssColor('rgb(255, 0, 0)')).toEqual([255, 0, 0, 1]);
+        expect(parseCssColor('rgba(0, 0, 0, 0.5)')).toEqual([0, 0, 0, 0.5]);
+        expect(parseCssColor('oklch(0.5 0.1 200)')).toBeNull();
+    });
+
+    it('computes WCAG ratios over blended backgrounds', () => {
+        expect(contrastRatio('rgb(0, 0, 0)', ['rgb(255, 255, 255)'])).toBe(21);
+        expect(
+            contrastRatio('rgb(119, 119, 119)', ['rgba(0, 0, 0, 0)'])
+        ).toBeCloseTo(4.48, 2);
+        // Translucent black over white is mid grey
+        expect(
+            contrastRatio('rgb(255, 255, 255)', [
+                'rgba(0, 0, 0, 0.5)',
+                'rgb(255, 255, 255)',
+            ])
+        ).toBeCloseTo(3.98, 2);
+    });
+});
+
+describe('findAccessibilityIssues', () => {
+    const element = { selector: 'main > p', element: '<p>' };
+    const text = {
+        ...element,
+        color: 'rgb(153, 153, 153)',
+        backgrounds: ['rgba(0, 0, 0, 0)', 'rgb(255, 255, 255)'],
+        backgroundImage: false,
+        fontSize: 16,
+        fontWeight: 400,
+    };
+
+    it('reports each rule and low contrast body text', () => {
+        const issues = findAccessibilityIssues({
+            images: [{ selector: 'img', element: '<img src="logo.png">' }],
+            controls: [{ selector: '#email', element: '<input id="email">' }],
+            buttons: [{ selector: 'button', element: '<button>' }],
+            texts: [text],
+        });
+
+        expect(issues.map(issue => issue.rule)).toEqual([
+            'image-alt',
+            'label',
+            'button-name',
+            'color-contrast',
+        ]);
+        expect(issues[3]).toMatchObject({
+            contrastRatio: 2.85,
+            message:
+                'Text contrast 2.85:1 is below 4.5:1 (rgb(153, 153, 153) on rgb(255, 255, 255))',
+        });
+    });
+
+    it('allows lower contrast for large text and skips background images', () => {
+        expect(
+            findAccessibilityIssues({
+                images: [],
+                controls: [],
+                buttons: [],
+                texts: [
+                    { ...text, color: 'rgb(130, 130, 130)', fontSize: 24 },
+                    { ...text, backgroundImage: true },
+                ],
+            })
+        ).toEqual([]);
+    });
+});
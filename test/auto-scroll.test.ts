@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { Page } from 'puppeteer';
+import { autoScroll } from '../src/internal/autoScroll.js';
+
+// A page whose height grows by `growth` pixels each time the viewport
+// reaches the bottom, like an infinite feed, up to `finalHeight`
+function createFakePage(height: number, growth: number, finalHeight: number) {
+    const state = { scrollY: 0, height, idleWaits: 0 };
+    const viewportHeight = 1000;
+
+    const page = {
+        evaluate: async (fn: () => unknown, distance: number) => {
+            if (!String(fn).includes('scrollBy')) {
+                return undefined; // Image decoding and scrolling back to the top
+            }
+            state.scrollY = Math.min(
+                state.scrollY + distance,
+                state.height - viewportHeight
+            );
+            return {
+                height: state.height,
+                bottom: state.scrollY + viewportHeight,
+                viewportHeight,
+            };
+        },
+        waitForNetworkIdle: async () => {
+            state.idleWaits++;
+            if (state.scrollY + viewportHeight >= state.height) {
+                state.height = Math.min(state.height + growth, finalHeight);
+            }
+        },
+    } as unknown as Page;
+    return { page, state };
+}
+
+describe('autoScroll', () => {
+    it('scrolls until the page stops growing', async () => {
+        const { page, state } = createFakePage(2500, 1000, 4500);
+
+        const result = await autoScroll(page, {
+            maxHeight: 20000,
+            maxSteps: 50,
+        });
+        expect(result).toEqual({
+            steps: 4,
+            initialHeight: 2500,
+            height: 4500,
+            limitReached: false,
+        });
+        expect(state.idleWaits).toBe(4);
+    });
+
+    it('stops infinite feeds at the height cap', async () => {
+        const { page } = createFakePage(2000, 1000, Infinity);
+
+        const result = await autoScroll(page, {
+            maxHeight: 6000,
+            maxSteps: 50,
+        });
+        expect(result.limitReached).toBe(true);
+        expect(result.height).toBe(6000);
+    });
+
+    it('scrolls through static pages taller than the height cap', async () => {
+        const { page } = createFakePage(25000, 0, 25000);
+
+        const result = await autoScroll(page, {
+            maxHeight: 20000,
+            maxSteps: 50,
+        });
+        expect(result).toEqual({
+            steps: 24,
+            initialHeight: 25000,
+            height: 25000,
+            limitReached: false,
+        });
+    });
+
+    it('caps growth of pages taller than the height cap', async () => {
+        const { page } = createFakePage(25000, 1000, Infinity);
+
+        const result = await autoScroll(page, {
+            maxHeight: 20000,
+            maxSteps: 50,
+        });
+        expect(result).toMatchObject({
+            initialHeight: 25000,
+            height: 26000,
+            limitReached: true,
+        });
+    });
+
+    it('stops infinite feeds after the step cap', async () => {
+        const { page } = createFakePage(2000, 1000, Infinity);
+
+        const result = await autoScroll(page, {
+            maxHeight: 100000,
+            maxSteps: 3,
+        });
+        expect(result).toMatchObject({ steps: 3, limitReached: true });
+    });
+
+    it('does not scroll pages that fit in the viewport', async () => {
+        const { page, state } = createFakePage(800, 1000, 800);
+
+        const result = await autoScroll(page, {
+            maxHeight: 20000,
+            maxSteps: 50,
+        });
+        expect(result).toEqual({
+            steps: 0,
+            initialHeight: 800,
+            height: 800,
+            limitReached: false,
+        });
+        expect(state.idleWaits).toBe(0);
+    });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    BaselineStore,
+    baselineKey,
+    type BaselineTarget,
+} from '../src/internal/baselineStore.js';
+
+const target: BaselineTarget = {
+    url: 'https://example.com/',
+    viewport: { width: 1072, height: 1072 },
+    fullPage: true,
+};
+
+function tile(row: number, contents: string) {
+    return {
+        row,
+        col: 0,
+        x: 0,
+        y: row * 1072,
+        width: 1072,
+        height: 1072,
+        screenshot: Buffer.from(contents),
+    };
+}
+
+describe('BaselineStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'baselines-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('keys baselines by URL, viewport, device and selector', () => {
+        expect(baselineKey(target)).toBe('https://example.com/ 1072x1072');
+        expect(baselineKey({ ...target, fullPage: false })).toBe(
+            'https://example.com/ 1072x1072 viewport-only'
+        );
+        expect(
+            baselineKey({ ...target, selector: '#hero', device: 'iphone' })
+        ).toBe('https://example.com/ 1072x1072 device=iphone selector=#hero');
+    });
+
+    it('saves images with a manifest and loads them back', async () => {
+        const store = new BaselineStore(directory);
+        const entry = await store.save(target, [tile(0, 'a'), tile(1, 'b')], {
+            fullWidth: 1072,
+            fullHeight: 2000,
+        });
+
+        const manifest = JSON.parse(
+            await readFile(join(directory, 'manifest.json'), 'utf-8')
+        );
+        expect(manifest.baselines[entry.key].tiles).toHaveLength(2);
+
+        const saved = await new BaselineStore(directory).get(entry.key);
+        const images = await store.loadImages(saved!);
+        expect(images.map(image => image.screenshot.toString())).toEqual([
+            'a',
+            'b',
+        ]);
+        expect(images[1]).toMatchObject({ row: 1, y: 1072 });
+    });
+
+    it('replaces a baseline and removes tiles it no longer has', async () => {
+        const store = new BaselineStore(directory);
+        const first = await store.save(target, [tile(0, 'a'), tile(1, 'b')], {
+            fullWidth: 1072,
+            fullHeight: 2000,
+        });
+        const second = await store.save(target, [tile(0, 'c')], {
+            fullWidth: 1072,
+            fullHeight: 800,
+        });
+
+        expect(await store.list()).toHaveLength(1);
+        expect(second.createdAt).toBe(first.createdAt);
+        expect(existsSync(join(directory, first.tiles[1].file))).toBe(false);
+        expect(
+            (await store.loadImages(second)).map(image =>
+                image.screenshot.toString()
+            )
+        ).toEqual(['c']);
+    });
+
+    it('reports an unreadable manifest', async () => {
+        await writeFile(join(directory, 'manifest.json'), '{ nope');
+        await expect(new BaselineStore(directory).list()).rejects.toThrow(
+            /not valid JSON/
+        );
+    });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import type { ConsoleMessage as PageConsoleMessage, JSHandle } from 'puppeteer';
+import {
+    consoleLevel,
+    createConsoleFilter,
+    dedupeConsoleMessages,
+    fromPageConsoleMessage,
+    fromPageError,
+    serializeConsoleValue,
+} from '../src/internal/consoleMessages.js';
+import type { ConsoleMessage } from '../src/types.js';
+
+const timestamp = new Date('2025-01-01T00:00:00.000Z');
+
+function message(overrides: Partial<ConsoleMessage>): ConsoleMessage {
+    return {
+        type: 'log',
+        level: 'info',
+        text: 'hello',
+        timestamp,
+        ...overrides,
+    };
+}
+
+// Evaluates the serializer in Node, standing in for the page
+function createFakeHandle(value: unknown) {
+    return {
+        evaluate: async (fn: (...args: any[]) => unknown, ...args: any[]) =>
+            fn(value, ...args),
+        toString: () => 'JSHandle@object',
+    } as unknown as JSHandle;
+}
+
+describe('serializeConsoleValue', () => {
+    it('keeps JSON values and describes the rest', () => {
+        const circular: Record<string, unknown> = { name: 'loop' };
+        circular.self = circular;
+        const render = function render() {};
+
+        expect(
+            serializeConsoleValue(
+                {
+                    count: 3,
+                    nested: { list: [1, 'two', null] },
+                    missing: undefined,
+                    render,
+                    circular,
+                    size: NaN,
+                    error: new TypeError('bad'),
+                    tags: new Set(['a']),
+                },
+                4,
+                100
+            )
+        ).toMatchObject({
+            count: 3,
+            nested: { list: [1, 'two', null] },
+            missing: '[undefined]',
+            render: '[Function: render]',
+            circular: { name: 'loop', self: '[Circular]' },
+            size: 'NaN',
+            error: { name: 'TypeError', message: 'bad' },
+            tags: ['a'],
+        });
+    });
+
+    it('summarizes objects nested too deep and long arrays', () => {
+        expect(
+            serializeConsoleValue({ a: { b: { c: [1, 2] } } }, 2, 100)
+        ).toEqual({ a: { b: '[Object]' } });
+        expect(serializeConsoleValue([1, 2, 3], 1, 2)).toEqual([
+            1,
+            2,
+            '... 1 more items',
+        ]);
+    });
+
+    it('describes DOM elements by tag, id and classes', () => {
+        const element = {
+            nodeType: 1,
+            nodeName: 'DIV',
+            id: 'root',
+            className: 'app dark',
+        };
+
+        expect(serializeConsoleValue(element, 4, 100)).toBe(
+            '<div#root.app.dark>'
+        );
+    });
+});
+
+describe('fromPageConsoleMessage', () => {
+    it('serializes args and reports 1-based source locations', async () => {
+        const msg = {
+            type: () => 'trace',
+            text: () => 'state %o',
+            args: () => [
+                createFakeHandle('state'),
+                createFakeHandle({ ready: true }),
+            ],
+            location: () => ({
+                url: 'https://example.com/app.js',
+                lineNumber: 9,
+                columnNumber: 4,
+            }),
+            stackTrace: () => [
+                {
+                    url: 'https://example.com/app.js',
+                    lineNumber: 9,
+                    columnNumber: 4,
+                },
+            ],
+        } as unknown as PageConsoleMessage;
+
+        const { message, serialized } = fromPageConsoleMessage(msg);
+        await serialized;
+
+        expect(message).toMatchObject({
+            type: 'trace',
+            level: 'info',
+            args: ['state', { ready: true }],
+            location: {
+                url: 'https://example.com/app.js',
+                line: 10,
+                column: 5,
+            },
+            stack: '    at https://example.com/app.js:10:5',
+        });
+    });
+
+    it('reports uncaught exceptions with their stack', () => {
+        const error = new Error('boom');
+
+        expect(fromPageError(error)).toMatchObject({
+            type: 'pageerror',
+            level: 'error',
+            text: 'boom',
+            stack: error.stack,
+        });
+    });
+});
+
+describe('console filters', () => {
+    it('groups console types into DevTools levels', () => {
+        expect(consoleLevel('assert')).toBe('error');
+        expect(consoleLevel('warn')).toBe('warning');
+        expect(consoleLevel('table')).toBe('info');
+        expect(consoleLevel('verbose')).toBe('debug');
+    });
+
+    it('filters by level and case-insensitive patterns', () => {
+        const keep = createConsoleFilter({
+            levels: ['error', 'warning'],
+            pattern: 'api',
+            excludePattern: 'retrying',
+        });
+
+        expect(
+            [
+                message({ level: 'error', text: 'API request failed' }),
+                message({ level: 'warning', text: 'api retrying' }),
+                message({ level: 'info', text: 'api ready' }),
+                message({ level: 'error', text: 'render failed' }),
+            ]
+                .filter(keep)
+                .map(kept => kept.text)
+        ).toEqual(['API request failed']);
+    });
+
+    it('rejects unknown levels and invalid patterns', () => {
+        expect(() => createConsoleFilter({ levels: ['fatal' as any] })).toThrow(
+            'Unknown console level "fatal", expected any of error, warning, info, debug'
+        );
+        expect(() => createConsoleFilter({ pattern: '(' })).toThrow(
+            /^Invalid "pattern" regular expression/
+        );
+    });
+
+    it('collapses repeated messages into counts', () => {
+        const location = { url: 'https://example.com/app.js', line: 3 };
+        const deduped = dedupeConsoleMessages([
+            message({ text: 'tick', location }),
+            message({ text: 'tick', location }),
+            message({ text: 'tick' }),
+            message({ text: 'tick', location }),
+        ]);
+
+        expect(
+            deduped.map(({ text, location, count }) => ({
+                text,
+                line: location?.line,
+                count,
+            }))
+        ).toEqual([
+            { text: 'tick', line: 3, count: 3 },
+            { text: 'tick', line: undefined, count: 1 },
+        ]);
+    });
+});
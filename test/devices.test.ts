@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { resolveDevice } from '../src/internal/devices.js';
+
+describe('resolveDevice', () => {
+    it('resolves short aliases to Puppeteer devices', () => {
+        const device = resolveDevice('iphone');
+
+        expect(device.name).toBe('iPhone 15 Pro');
+        expect(device.viewport.isMobile).toBe(true);
+        expect(device.viewport.deviceScaleFactor).toBeGreaterThan(1);
+        expect(device.userAgent).toContain('iPhone');
+    });
+
+    it('matches device names case-insensitively and rotates on a landscape suffix', () => {
+        const portrait = resolveDevice('pixel 5');
+        const landscape = resolveDevice('Pixel-landscape');
+
+        expect(landscape.name).toBe('Pixel 5 landscape');
+        expect(landscape.viewport.isLandscape).toBe(true);
+        expect(landscape.viewport.width).toBe(portrait.viewport.height);
+    });
+
+    it('fills in defaults for explicit parameters', () => {
+        expect(
+            resolveDevice({ width: 800, height: 600, isMobile: true })
+        ).toEqual({
+            viewport: {
+                width: 800,
+                height: 600,
+                deviceScaleFactor: 1,
+                isMobile: true,
+                hasTouch: false,
+                isLandscape: false,
+            },
+            userAgent: undefined,
+        });
+    });
+
+    it('rejects unknown presets and missing dimensions', () => {
+        expect(() => resolveDevice('nokia 3310')).toThrow(
+            /Unknown device "nokia 3310"/
+        );
+        expect(() => resolveDevice({ width: 0, height: 600 })).toThrow(
+            /positive "width" and "height"/
+        );
+    });
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Page } from 'puppeteer';
+import {
+    hideFixedElements,
+    restoreFixedElements,
+    shouldHideFixedElements,
+} from '../src/internal/fixedElements.js';
+import {
+    evaluatingPage,
+    fakeElement,
+    stubDocument,
+} from './helpers/fakeDom.js';
+
+// Elements under the body with the given computed positions
+function stubPositions(positions: string[]) {
+    const elements = positions.map(position =>
+        fakeElement('', { computed: { position } })
+    );
+    return { elements, ...stubDocument({ elements }) };
+}
+
+describe('fixed elements', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('hides fixed elements from the second tile on, in any row', () => {
+        expect(shouldHideFixedElements('keep', 3)).toBe(false);
+        expect(shouldHideFixedElements('hide', 0)).toBe(true);
+        expect(shouldHideFixedElements('hide-after-first', 0)).toBe(false);
+        // Second tile of the first row on a page wider than one tile
+        expect(shouldHideFixedElements('hide-after-first', 1)).toBe(true);
+    });
+
+    it('marks fixed and sticky elements and counts them', async () => {
+        const { elements, styles } = stubPositions([
+            'fixed',
+            'static',
+            'sticky',
+            'relative',
+        ]);
+
+        expect(await hideFixedElements(evaluatingPage)).toBe(2);
+        expect(elements.map(element => element.attributes.size)).toEqual([
+            1, 0, 1, 0,
+        ]);
+        expect([...styles.values()][0].textContent).toContain(
+            'visibility: hidden !important'
+        );
+    });
+
+    it('restores the page it hid elements on', async () => {
+        const { elements, styles } = stubPositions(['fixed', 'sticky']);
+        await hideFixedElements(evaluatingPage);
+
+        await restoreFixedElements(evaluatingPage);
+
+        expect(styles.size).toBe(0);
+        expect(elements.every(element => element.attributes.size === 0)).toBe(
+            true
+        );
+    });
+
+    it('does not throw when the page is gone', async () => {
+        const closed = {
+            evaluate: async () => {
+                throw new Error('Target closed');
+            },
+        } as unknown as Page;
+
+        await expect(restoreFixedElements(closed)).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,118 @@
+import { vi } from 'vitest';
+import type { Page } from 'puppeteer';
+
+export interface FakeElement {
+    id: string;
+    tagName: string;
+    /** What `getComputedStyle` reports before any inline style */
+    computed: Record<string, string>;
+    rect: { left: number; top: number; right: number; bottom: number };
+    attributes: Map<string, string>;
+    /** Properties set through `element.style` */
+    inline: Record<string, string>;
+    clicked: boolean;
+}
+
+export function fakeElement(
+    id: string = '',
+    options: {
+        computed?: Record<string, string>;
+        rect?: FakeElement['rect'];
+        attributes?: Record<string, string>;
+    } = {}
+): FakeElement {
+    return {
+        id,
+        tagName: 'DIV',
+        computed: {
+            display: 'block',
+            visibility: 'visible',
+            position: 'static',
+            ...options.computed,
+        },
+        rect: options.rect ?? { left: 0, top: 0, right: 400, bottom: 100 },
+        attributes: new Map(Object.entries(options.attributes ?? {})),
+        inline: {},
+        clicked: false,
+    };
+}
+
+/**
+ * Stubs the globals in-page functions read with a minimal DOM: a 1000x800
+ * viewport, `elements` under the body and `selectors` answering
+ * `querySelector`. Other `[attribute]` selectors match by attribute, and
+ * `<style>` elements added to the head are returned in `styles` by id.
+ * Undo it with `vi.unstubAllGlobals()`.
+ */
+export function stubDocument(
+    options: {
+        elements?: FakeElement[];
+        selectors?: Record<string, FakeElement[]>;
+        html?: FakeElement;
+        body?: FakeElement;
+    } = {}
+) {
+    const elements = options.elements ?? [];
+    const styles = new Map<string, { id: string; textContent: string }>();
+    const wrap = (fake: FakeElement): any => ({
+        id: fake.id,
+        tagName: fake.tagName,
+        getAttribute: (name: string) => fake.attributes.get(name) ?? null,
+        setAttribute: (name: string, value: string) =>
+            fake.attributes.set(name, value),
+        removeAttribute: (name: string) => fake.attributes.delete(name),
+        getBoundingClientRect: () => ({
+            ...fake.rect,
+            width: fake.rect.right - fake.rect.left,
+            height: fake.rect.bottom - fake.rect.top,
+        }),
+        click: () => {
+            fake.clicked = true;
+        },
+        style: {
+            setProperty: (name: string, value: string) => {
+                fake.inline[name] = value;
+            },
+        },
+        fake,
+    });
+    const querySelectorAll = (selector: string) => {
+        const attribute = /^\[([\w-]+)\]$/.exec(selector)?.[1];
+        const matches =
+            options.selectors?.[selector] ??
+            (attribute
+                ? elements.filter(element => element.attributes.has(attribute))
+                : []);
+        return matches.map(wrap);
+    };
+    vi.stubGlobal('innerWidth', 1000);
+    vi.stubGlobal('innerHeight', 800);
+    vi.stubGlobal('getComputedStyle', (target: any) => ({
+        ...target.fake.computed,
+        ...target.fake.inline,
+    }));
+    vi.stubGlobal('document', {
+        documentElement: wrap(options.html ?? fakeElement('html')),
+        body: {
+            ...wrap(options.body ?? fakeElement('body')),
+            querySelectorAll: () => elements.map(wrap),
+        },
+        head: {
+            appendChild: (style: { id: string; textContent: string }) =>
+                styles.set(style.id, style),
+        },
+        createElement: () => ({ id: '', textContent: '' }),
+        getElementById: (id: string) =>
+            styles.has(id) ? { remove: () => styles.delete(id) } : null,
+        querySelector: (selector: string) =>
+            querySelectorAll(selector)[0] ?? null,
+        querySelectorAll,
+    });
+    return { styles };
+}
+
+// Runs evaluated functions in Node, against the stubbed globals
+export const evaluatingPage = {
+    evaluate: async (fn: (...args: any[]) => unknown, ...args: any[]) =>
+        fn(...args),
+} as unknown as Page;
@@ -0,0 +1,52 @@
+import type { Page } from 'puppeteer';
+
+type Method = (...args: any[]) => unknown;
+
+export interface FakePageOptions {
+    /** What `page.url()` returns */
+    url?: string;
+    /** What `page.browser()` returns */
+    browser?: unknown;
+    /** Further page methods the code under test calls, by name */
+    methods?: Record<string, Method>;
+}
+
+/**
+ * A Puppeteer page without Chrome: it closes, reports its URL and browser
+ * and keeps the handlers registered with `on`, which `emit` fires. Calls to
+ * `methods` are recorded in `calls`, in order.
+ */
+export function createFakePage(options: FakePageOptions = {}) {
+    let closed = false;
+    const handlers = new Map<string, Method[]>();
+    const calls: [string, unknown[]][] = [];
+    const page: Record<string, unknown> = {
+        isClosed: () => closed,
+        close: async () => {
+            closed = true;
+        },
+        url: () => options.url ?? 'https://example.com/',
+        browser: () => options.browser,
+        on: (event: string, handler: Method) => {
+            handlers.set(event, [...(handlers.get(event) ?? []), handler]);
+            return page;
+        },
+        once: () => page,
+        off: () => page,
+    };
+    for (const [name, method] of Object.entries(options.methods ?? {})) {
+        page[name] = (...args: unknown[]) => {
+            calls.push([name, args]);
+            return method(...args);
+        };
+    }
+    return {
+        page: page as unknown as Page,
+        calls,
+        emit: (event: string, ...args: unknown[]) => {
+            for (const handler of handlers.get(event) ?? []) {
+                handler(...args);
+            }
+        },
+    };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { diffImages } from '../src/internal/imageDiff.js';
+
+function solidImage(
+    width: number,
+    height: number,
+    color: { r: number; g: number; b: number } = { r: 255, g: 255, b: 255 }
+) {
+    return sharp({
+        create: {
+            width,
+            height,
+            channels: 4,
+            background: { ...color, alpha: 1 },
+        },
+    })
+        .png()
+        .toBuffer();
+}
+
+async function withSquare(
+    base: Buffer,
+    left: number,
+    top: number,
+    size: number
+): Promise<Buffer> {
+    const square = await solidImage(size, size, { r: 0, g: 0, b: 0 });
+    return sharp(base)
+        .composite([{ input: square, left, top }])
+        .png()
+        .toBuffer();
+}
+
+describe('diffImages', () => {
+    it('reports no differences for identical images', async () => {
+        const image = await solidImage(64, 64);
+        const diff = await diffImages(image, image);
+
+        expect(diff.mismatchedPixels).toBe(0);
+        expect(diff.mismatchPercentage).toBe(0);
+        expect(diff.regions).toEqual([]);
+    });
+
+    it('finds separate changed areas with tight bounding boxes', async () => {
+        const baseline = await solidImage(100, 100);
+        const current = await withSquare(
+            await withSquare(baseline, 5, 5, 10),
+            70,
+            60,
+            20
+        );
+        const diff = await diffImages(baseline, current);
+
+        expect(diff.mismatchedPixels).toBe(10 * 10 + 20 * 20);
+        expect(diff.mismatchPercentage).toBeCloseTo(5);
+        expect(diff.regions).toEqual([
+            { x: 5, y: 5, width: 10, height: 10 },
+            { x: 70, y: 60, width: 20, height: 20 },
+        ]);
+
+        const metadata = await sharp(diff.diff).metadata();
+        expect(metadata.width).toBe(100);
+        expect(metadata.height).toBe(100);
+    });
+
+    it('ignores color differences below the threshold', async () => {
+        const baseline = await solidImage(32, 32, { r: 200, g: 200, b: 200 });
+        const current = await solidImage(32, 32, { r: 210, g: 200, b: 200 });
+
+        expect((await diffImages(baseline, current)).mismatchedPixels).toBe(0);
+        expect(
+            (await diffImages(baseline, current, { threshold: 0.01 }))
+                .mismatchedPixels
+        ).toBe(32 * 32);
+    });
+
+    it('counts area covered by only one image as changed', async () => {
+        const baseline = await solidImage(50, 40);
+        const current = await solidImage(50, 50);
+        const diff = await diffImages(baseline, current);
+
+        expect(diff.mismatchedPixels).toBe(50 * 10);
+        expect(diff.regions).toEqual([{ x: 0, y: 40, width: 50, height: 10 }]);
+
+        const missing = await diffImages(null, current);
+        expect(missing.mismatchPercentage).toBe(100);
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { encodeImage } from '../src/internal/imageEncoding.js';
+
+// Noise compresses badly, so budgets actually have to be worked for
+async function noise(width: number, height: number): Promise<Buffer> {
+    const data = Buffer.alloc(width * height * 3);
+    for (let i = 0; i < data.length; i++) {
+        data[i] = (i * 7919) % 251;
+    }
+    return sharp(data, { raw: { width, height, channels: 3 } })
+        .png()
+        .toBuffer();
+}
+
+describe('encodeImage', () => {
+    it('returns PNG captures untouched by default', async () => {
+        const png = await noise(32, 32);
+        expect(await encodeImage(png)).toBe(png);
+    });
+
+    it('re-encodes in the requested format', async () => {
+        const png = await noise(64, 64);
+        const jpeg = await encodeImage(png, { format: 'jpeg', quality: 60 });
+        const webp = await encodeImage(png, { format: 'webp' });
+
+        expect((await sharp(jpeg).metadata()).format).toBe('jpeg');
+        expect((await sharp(webp).metadata()).format).toBe('webp');
+    });
+
+    it('lowers quality and then size until the image fits the budget', async () => {
+        const png = await noise(400, 400);
+        const maxBytes = 8000;
+        const jpeg = await encodeImage(png, { format: 'jpeg', maxBytes });
+        const metadata = await sharp(jpeg).metadata();
+
+        expect(jpeg.length).toBeLessThanOrEqual(maxBytes);
+        expect(metadata.width).toBeLessThan(400);
+    });
+
+    it('fails clearly when the budget cannot be met', async () => {
+        const png = await noise(200, 200);
+        await expect(
+            encodeImage(png, { format: 'png', maxBytes: 10 })
+        ).rejects.toThrow(/in 10 bytes/);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import {
+    estimateImageTokens,
+    fitTokenBudget,
+    tokenBudgetSize,
+} from '../src/internal/imageTokens.js';
+
+describe('image token estimates', () => {
+    it('follows the sizing rules of each model', () => {
+        expect(estimateImageTokens(1072, 1072)).toBe(1533);
+        expect(estimateImageTokens(1024, 1024, 'gpt-4o')).toBe(765);
+        expect(estimateImageTokens(300, 300, 'gemini')).toBe(258);
+        expect(estimateImageTokens(1072, 1072, 'gemini')).toBe(1032);
+    });
+
+    it('shrinks to what the target model would look at', () => {
+        expect(tokenBudgetSize(2144, 2144, { targetModel: 'claude' })).toEqual({
+            width: 1072,
+            height: 1072,
+        });
+        expect(tokenBudgetSize(1072, 1072, { targetModel: 'gpt-4o' })).toEqual({
+            width: 768,
+            height: 768,
+        });
+        expect(tokenBudgetSize(1072, 1072, {})).toEqual({
+            width: 1072,
+            height: 1072,
+        });
+    });
+
+    it('downscales until the estimate fits the budget', () => {
+        const size = tokenBudgetSize(1072, 1072, { maxImageTokens: 500 });
+        expect(
+            estimateImageTokens(size.width, size.height)
+        ).toBeLessThanOrEqual(500);
+        expect(size.width).toBeGreaterThan(500);
+    });
+
+    it('rejects budgets below the model minimum', () => {
+        expect(() =>
+            tokenBudgetSize(1072, 1072, {
+                targetModel: 'gpt-4o',
+                maxImageTokens: 100,
+            })
+        ).toThrow(/raise "maxImageTokens"/);
+    });
+
+    it('resizes images over budget and leaves the rest alone', async () => {
+        const png = await sharp({
+            create: {
+                width: 400,
+                height: 400,
+                channels: 3,
+                background: '#fff',
+            },
+        })
+            .png()
+            .toBuffer();
+
+        expect(await fitTokenBudget(png, { maxImageTokens: 1000 })).toBe(png);
+        const resized = await fitTokenBudget(png, { maxImageTokens: 100 });
+        const { width = 0, height = 0 } = await sharp(resized).metadata();
+        expect(estimateImageTokens(width, height)).toBeLessThanOrEqual(100);
+    });
+});
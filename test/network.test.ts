@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import type { HTTPRequest } from 'puppeteer';
+import { buildHar } from '../src/internal/har.js';
+import {
+    NetworkRecorder,
+    summarizeNetwork,
+} from '../src/internal/networkRecorder.js';
+import type { NetworkRequest } from '../src/types.js';
+import { createFakePage } from './helpers/fakePage.js';
+
+function createFakeRequest(
+    url: string,
+    resourceType: string,
+    response?: { status: number; headers: Record<string, string> },
+    errorText?: string
+) {
+    return {
+        url: () => url,
+        method: () => 'GET',
+        resourceType: () => resourceType,
+        headers: () => ({ accept: '*/*' }),
+        failure: () => (errorText ? { errorText } : null),
+        response: () =>
+            response
+                ? {
+                      status: () => response.status,
+                      statusText: () =>
+                          response.status === 404 ? 'Not Found' : 'OK',
+                      headers: () => response.headers,
+                      fromCache: () => false,
+                      timing: () => null,
+                  }
+                : null,
+    } as unknown as HTTPRequest;
+}
+
+describe('NetworkRecorder', () => {
+    it('records statuses, sizes, failures and blocked requests', () => {
+        const { page, emit } = createFakePage();
+        const recorder = new NetworkRecorder();
+        recorder.attach(page);
+
+        const html = createFakeRequest('https://example.com/', 'document', {
+            status: 200,
+            headers: {
+                'content-type': 'text/html; charset=utf-8',
+                'content-length': '1200',
+            },
+        });
+        const bundle = createFakeRequest(
+            'https://example.com/main.js',
+            'script',
+            { status: 404, headers: { 'content-length': '20' } }
+        );
+        const font = createFakeRequest(
+            'https://example.com/font.woff2',
+            'font',
+            undefined,
+            'net::ERR_FAILED'
+        );
+        for (const request of [html, bundle, font]) {
+            emit('request', request);
+        }
+        recorder.markBlocked(font, 'font requests are not loaded');
+        emit('requestfinished', html);
+        emit('requestfinished', bundle);
+        emit('requestfailed', font);
+
+        const requests = recorder.list();
+        expect(requests[0]).toMatchObject({
+            status: 200,
+            mimeType: 'text/html',
+            size: 1200,
+        });
+        expect(requests[1]).toMatchObject({ status: 404, size: 20 });
+        expect(requests[2]).toMatchObject({
+            failure: 'net::ERR_FAILED',
+            blocked: 'font requests are not loaded',
+        });
+        expect(summarizeNetwork(requests)).toEqual({
+            requests: 3,
+            failed: 0,
+            blocked: 1,
+            errorResponses: 1,
+            totalBytes: 1220,
+            byType: { document: 1, script: 1, font: 1 },
+        });
+    });
+
+    it('keeps only the latest requests', () => {
+        const { page, emit } = createFakePage();
+        const recorder = new NetworkRecorder({ maxEntries: 2 });
+        recorder.attach(page);
+
+        for (const name of ['a', 'b', 'c']) {
+            emit('request', createFakeRequest(`https://x.test/${name}`, 'xhr'));
+        }
+        expect(recorder.list().map(request => request.url)).toEqual([
+            'https://x.test/b',
+            'https://x.test/c',
+        ]);
+    });
+});
+
+describe('buildHar', () => {
+    const startedAt = new Date('2025-01-01T00:00:00.000Z');
+    const page = { url: 'https://example.com/', startedAt };
+    const creator = { name: 'test', version: '1.0.0' };
+    const requests: NetworkRequest[] = [
+        {
+            url: 'https://example.com/search?q=cats',
+            method: 'GET',
+            resourceType: 'document',
+            startedAt,
+            duration: 120,
+            status: 200,
+            statusText: 'OK',
+            mimeType: 'text/html',
+            size: 5000,
+            requestHeaders: { accept: 'text/html' },
+            responseHeaders: { 'content-type': 'text/html' },
+            timing: {
+                dns: 5,
+                connect: 10,
+                ssl: 8,
+                send: 1,
+                wait: 80,
+                receive: 24,
+            },
+        },
+        {
+            url: 'https://example.com/font.woff2',
+            method: 'GET',
+            resourceType: 'font',
+            startedAt,
+            duration: 2,
+            failure: 'net::ERR_FAILED',
+            blocked: 'font requests are not loaded',
+            requestHeaders: {},
+        },
+    ];
+
+    it('writes a HAR 1.2 log with one entry per request', () => {
+        const har = buildHar(page, requests, creator);
+
+        expect(har.log.version).toBe('1.2');
+        expect(har.log.pages[0].startedDateTime).toBe(
+            '2025-01-01T00:00:00.000Z'
+        );
+        expect(har.log.entries[0]).toMatchObject({
+            pageref: har.log.pages[0].id,
+            time: 120,
+            request: {
+                queryString: [{ name: 'q', value: 'cats' }],
+                headers: [{ name: 'accept', value: 'text/html' }],
+            },
+            response: {
+                status: 200,
+                content: { size: 5000, mimeType: 'text/html' },
+            },
+            timings: { blocked: -1, dns: 5, wait: 80 },
+        });
+    });
+
+    it('reports failed and blocked requests with status 0', () => {
+        const har = buildHar(page, requests, creator);
+
+        expect(har.log.entries[1].response).toMatchObject({
+            status: 0,
+            bodySize: -1,
+            _error: 'Blocked: font requests are not loaded',
+        });
+        expect(har.log.entries[1]._blocked).toBe(
+            'font requests are not loaded'
+        );
+    });
+
+    it('never contains credentials or supplied header values', () => {
+        const har = buildHar(
+            page,
+            [
+                {
+                    ...requests[0],
+                    requestHeaders: {
+                        Authorization: 'Bearer secret-token',
+                        cookie: 'sid=secret-cookie',
+                        'X-Api-Key': 'secret-key',
+                        accept: 'text/html',
+                    },
+                    responseHeaders: {
+                        'set-cookie': 'sid=secret-cookie',
+                        'content-type': 'text/html',
+                    },
+                },
+            ],
+            creator,
+            ['x-api-key']
+        );
+
+        expect(JSON.stringify(har)).not.toMatch(/secret/);
+        expect(har.log.entries[0].request.headers).toEqual([
+            { name: 'Authorization', value: '[REDACTED]' },
+            { name: 'cookie', value: '[REDACTED]' },
+            { name: 'X-Api-Key', value: '[REDACTED]' },
+            { name: 'accept', value: 'text/html' },
+        ]);
+        expect(har.log.entries[0].response.headers).toEqual([
+            { name: 'set-cookie', value: '[REDACTED]' },
+            { name: 'content-type', value: 'text/html' },
+        ]);
+    });
+});
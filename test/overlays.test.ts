@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { dismissOverlays } from '../src/internal/overlays.js';
+import {
+    evaluatingPage,
+    fakeElement,
+    stubDocument,
+} from './helpers/fakeDom.js';
+
+describe('dismissOverlays', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('clicks the accept button of a known consent manager', async () => {
+        const button = fakeElement('onetrust-accept-btn-handler');
+        const banner = fakeElement('onetrust-consent-sdk');
+        stubDocument({
+            selectors: {
+                '#onetrust-accept-btn-handler': [button],
+                '#onetrust-consent-sdk': [banner],
+            },
+        });
+
+        const dismissed = await dismissOverlays(evaluatingPage);
+
+        expect(dismissed).toEqual([
+            {
+                name: 'OneTrust',
+                selector: '#onetrust-accept-btn-handler',
+                action: 'clicked',
+            },
+        ]);
+        expect(button.clicked).toBe(true);
+        expect(banner.inline.display).toBeUndefined();
+    });
+
+    it('hides containers without a button, and custom selectors', async () => {
+        const usercentrics = fakeElement('usercentrics-root');
+        const promo = fakeElement('promo');
+        const hiddenPromo = fakeElement('promo-2', {
+            computed: { display: 'none' },
+        });
+        stubDocument({
+            selectors: {
+                '#usercentrics-root': [usercentrics],
+                '.promo': [promo, hiddenPromo],
+            },
+        });
+
+        const dismissed = await dismissOverlays(evaluatingPage, ['.promo']);
+
+        expect(dismissed).toEqual([
+            {
+                name: 'Usercentrics',
+                selector: '#usercentrics-root',
+                action: 'hidden',
+            },
+            { name: 'custom', selector: '.promo', action: 'hidden' },
+        ]);
+        expect(usercentrics.inline.display).toBe('none');
+        expect(hiddenPromo.inline.display).toBeUndefined();
+    });
+
+    it('hides aria-modal dialogs', async () => {
+        const dialog = fakeElement('', { attributes: { role: 'dialog' } });
+        stubDocument({ selectors: { '[aria-modal="true"]': [dialog] } });
+
+        expect(await dismissOverlays(evaluatingPage)).toEqual([
+            {
+                name: 'modal dialog',
+                selector: 'div[role="dialog"]',
+                action: 'hidden',
+            },
+        ]);
+        expect(dialog.inline.display).toBe('none');
+    });
+
+    it('hides only fixed layers with a high z-index covering the viewport', async () => {
+        const fullscreen = { left: 0, top: 0, right: 1000, bottom: 800 };
+        const backdrop = fakeElement('backdrop', {
+            computed: { position: 'fixed', zIndex: '9999' },
+            rect: fullscreen,
+        });
+        const header = fakeElement('header', {
+            computed: { position: 'fixed', zIndex: '9999' },
+            rect: { left: 0, top: 0, right: 1000, bottom: 60 },
+        });
+        const lowLayer = fakeElement('low', {
+            computed: { position: 'fixed', zIndex: '10' },
+            rect: fullscreen,
+        });
+        const staticLayer = fakeElement('static', {
+            computed: { position: 'static', zIndex: 'auto' },
+            rect: fullscreen,
+        });
+        stubDocument({
+            elements: [backdrop, header, lowLayer, staticLayer],
+        });
+
+        expect(await dismissOverlays(evaluatingPage)).toEqual([
+            { name: 'overlay', selector: '#backdrop', action: 'hidden' },
+        ]);
+        expect(header.inline.display).toBeUndefined();
+        expect(lowLayer.inline.display).toBeUndefined();
+    });
+
+    it('unlocks scrolling once something was dismissed', async () => {
+        const html = fakeElement('html', { computed: { overflow: 'hidden' } });
+        const body = fakeElement('body', { computed: { overflow: 'hidden' } });
+        stubDocument({
+            selectors: { '.cc-window': [fakeElement('cookie')] },
+            html,
+            body,
+        });
+
+        await dismissOverlays(evaluatingPage);
+
+        expect(html.inline.overflow).toBe('visible');
+        expect(body.inline.overflow).toBe('visible');
+    });
+
+    it('leaves scrolling alone when nothing was dismissed', async () => {
+        const body = fakeElement('body', { computed: { overflow: 'hidden' } });
+        stubDocument({ body });
+
+        expect(await dismissOverlays(evaluatingPage)).toEqual([]);
+        expect(body.inline.overflow).toBeUndefined();
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { Page } from 'puppeteer';
+import { runActions } from '../src/internal/pageActions.js';
+
+function createFakePage(log: string[]) {
+    const element = (selector: string) => ({
+        click: async () => log.push(`click ${selector}`),
+        type: async (text: string) => log.push(`type ${selector} ${text}`),
+        hover: async () => log.push(`hover ${selector}`),
+    });
+
+    return {
+        waitForSelector: async (selector: string) => {
+            if (selector === '#missing') {
+                throw new Error('Waiting for selector `#missing` failed');
+            }
+            return element(selector);
+        },
+        waitForNavigation: async () => log.push('navigated'),
+        keyboard: {
+            press: async (key: string) => log.push(`press ${key}`),
+        },
+    } as unknown as Page;
+}
+
+describe('runActions', () => {
+    it('runs steps in order', async () => {
+        const log: string[] = [];
+
+        await runActions(createFakePage(log), [
+            { type: 'type', selector: '#user', text: 'alice' },
+            { type: 'press', key: 'Tab' },
+            { type: 'hover', selector: '#menu' },
+            { type: 'click', selector: '#submit' },
+            { type: 'waitForNavigation' },
+        ]);
+
+        expect(log).toEqual([
+            'type #user alice',
+            'press Tab',
+            'hover #menu',
+            'navigated',
+            'click #submit',
+        ]);
+    });
+
+    it('names the failing step in the error', async () => {
+        await expect(
+            runActions(createFakePage([]), [
+                { type: 'click', selector: '#ok' },
+                { type: 'click', selector: '#missing' },
+            ])
+        ).rejects.toThrow(/^Action 2\/2 \(click "#missing"\) failed: /);
+    });
+});
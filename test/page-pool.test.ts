@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { Browser, Page } from 'puppeteer';
+import { PagePool } from '../src/internal/pagePool.js';
+import { createFakePage } from './helpers/fakePage.js';
+
+function createFakeBrowser() {
+    const browser = {
+        isConnected: () => true,
+    } as unknown as Browser;
+    return browser;
+}
+
+function createPool(maxPages: number) {
+    const created: Page[] = [];
+    const recycled: Page[] = [];
+    const pool = new PagePool({
+        maxPages,
+        createPage: async browser => {
+            const { page } = createFakePage({ browser });
+            created.push(page);
+            return page;
+        },
+        recyclePage: async page => {
+            recycled.push(page);
+            return page;
+        },
+    });
+    return { pool, created, recycled };
+}
+
+describe('PagePool', () => {
+    it('reuses released pages after recycling them', async () => {
+        const browser = createFakeBrowser();
+        const { pool, created, recycled } = createPool(2);
+
+        const first = await pool.acquire(browser);
+        await pool.release(first);
+        const second = await pool.acquire(browser);
+
+        expect(second).toBe(first);
+        expect(created).toHaveLength(1);
+        expect(recycled).toEqual([first]);
+    });
+
+    it('closes discarded pages instead of reusing them', async () => {
+        const browser = createFakeBrowser();
+        const { pool, created } = createPool(1);
+
+        const first = await pool.acquire(browser);
+        await pool.release(first, { discard: true });
+        const second = await pool.acquire(browser);
+
+        expect(first.isClosed()).toBe(true);
+        expect(second).not.toBe(first);
+        expect(created).toHaveLength(2);
+    });
+
+    it('queues requests past the limit in FIFO order', async () => {
+        const browser = createFakeBrowser();
+        const { pool } = createPool(1);
+        const order: string[] = [];
+
+        const held = await pool.acquire(browser);
+        const waitingA = pool.acquire(browser).then(page => {
+            order.push('a');
+            return page;
+        });
+        const waitingB = pool.acquire(browser).then(page => {
+            order.push('b');
+            return page;
+        });
+
+        expect(pool.stats()).toMatchObject({ leased: 1, queued: 2 });
+
+        await pool.release(held);
+        await pool.release(await waitingA);
+        await pool.release(await waitingB);
+
+        expect(order).toEqual(['a', 'b']);
+        expect(pool.stats()).toMatchObject({ leased: 0, queued: 0, idle: 1 });
+    });
+
+    it('only reports pages it owns', async () => {
+        const browser = createFakeBrowser();
+        const { pool } = createPool(1);
+
+        const page = await pool.acquire(browser);
+        expect(pool.owns(page)).toBe(true);
+        expect(pool.owns(createFakePage({ browser }).page)).toBe(false);
+
+        await pool.release(page);
+        expect(pool.owns(page)).toBe(true);
+
+        await pool.drain();
+        expect(pool.owns(page)).toBe(false);
+        expect(page.isClosed()).toBe(true);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { redactSecrets } from '../src/utils/redact.js';
+
+describe('redactSecrets', () => {
+    it('masks credentials, header values, cookie values and typed text', () => {
+        const params = {
+            name: 'take_screenshot',
+            arguments: {
+                url: 'https://staging.example.com',
+                httpCredentials: { username: 'qa', password: 'hunter2' },
+                headers: { Authorization: 'Bearer abc123' },
+                cookies: [{ name: 'sid', value: 's3cr3t', domain: 'x.com' }],
+                actions: [
+                    { type: 'type', selector: '#password', text: 'hunter2' },
+                    { type: 'click', selector: '#submit' },
+                ],
+            },
+        };
+
+        const redacted = JSON.stringify(redactSecrets(params));
+
+        expect(redacted).not.toMatch(/hunter2|abc123|s3cr3t/);
+        expect(redactSecrets(params)).toMatchObject({
+            arguments: {
+                url: 'https://staging.example.com',
+                httpCredentials: { username: 'qa', password: '[REDACTED]' },
+                headers: { Authorization: '[REDACTED]' },
+                cookies: [{ name: 'sid', value: '[REDACTED]' }],
+                actions: [
+                    { selector: '#password', text: '[REDACTED]' },
+                    { type: 'click', selector: '#submit' },
+                ],
+            },
+        });
+    });
+
+    it('does not modify the original params', () => {
+        const params = { arguments: { httpCredentials: { password: 'x' } } };
+        redactSecrets(params);
+        expect(params.arguments.httpCredentials.password).toBe('x');
+    });
+});
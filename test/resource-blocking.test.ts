@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { HTTPRequest, Page } from 'puppeteer';
+import {
+    resolveBlockedResourceTypes,
+    toBlockedRequests,
+} from '../src/internal/resourceBlocking.js';
+import { NetworkRecorder } from '../src/internal/networkRecorder.js';
+
+describe('resolveBlockedResourceTypes', () => {
+    it('blocks fonts and media by default', () => {
+        expect(resolveBlockedResourceTypes({})).toEqual(['font', 'media']);
+    });
+
+    it('loads fonts with allowFonts', () => {
+        expect(resolveBlockedResourceTypes({ allowFonts: true })).toEqual([
+            'media',
+        ]);
+        expect(
+            resolveBlockedResourceTypes({
+                blockedResourceTypes: ['font', 'image'],
+                allowFonts: true,
+            })
+        ).toEqual(['image']);
+    });
+
+    it('uses a custom list, including an empty one', () => {
+        expect(
+            resolveBlockedResourceTypes({
+                blockedResourceTypes: ['image', 'stylesheet'],
+            })
+        ).toEqual(['image', 'stylesheet']);
+        expect(
+            resolveBlockedResourceTypes({ blockedResourceTypes: [] })
+        ).toEqual([]);
+    });
+
+    it('rejects resource types Puppeteer does not report', () => {
+        expect(() =>
+            resolveBlockedResourceTypes({
+                blockedResourceTypes: ['document', 'videos'],
+            })
+        ).toThrow(
+            /^Cannot block resource types "document", "videos", expected any of stylesheet, image, /
+        );
+    });
+});
+
+describe('toBlockedRequests', () => {
+    it('lists the requests the recorder saw aborted', () => {
+        const handlers: Record<string, (request: HTTPRequest) => void> = {};
+        const page = {
+            on(event: string, handler: (request: HTTPRequest) => void) {
+                handlers[event] = handler;
+                return page;
+            },
+        };
+        const request = (url: string, resourceType: string) =>
+            ({
+                url: () => url,
+                method: () => 'GET',
+                resourceType: () => resourceType,
+                headers: () => ({}),
+                failure: () => ({ errorText: 'net::ERR_FAILED' }),
+                response: () => null,
+            }) as unknown as HTTPRequest;
+        const recorder = new NetworkRecorder();
+        recorder.attach(page as unknown as Page);
+
+        const font = request('https://example.com/font.woff2', 'font');
+        const script = request('https://example.com/app.js', 'script');
+        const tracker = request('http://169.254.169.254/', 'xhr');
+        for (const sent of [font, script, tracker]) {
+            handlers.request(sent);
+        }
+        recorder.markBlocked(font, 'font requests are not loaded');
+        recorder.markBlocked(tracker, 'Private network address');
+        handlers.requestfailed(script);
+
+        expect(toBlockedRequests(recorder.list())).toEqual([
+            {
+                url: 'https://example.com/font.woff2',
+                resourceType: 'font',
+                reason: 'font requests are not loaded',
+            },
+            {
+                url: 'http://169.254.169.254/',
+                resourceType: 'xhr',
+                reason: 'Private network address',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ResourceStore } from '../src/internal/resourceStore.js';
+
+function resource(uri: string, size: number) {
+    return {
+        uri,
+        name: uri,
+        mimeType: 'image/png',
+        data: Buffer.alloc(size),
+    };
+}
+
+describe('ResourceStore', () => {
+    it('evicts the least recently used resources past the size cap', () => {
+        const store = new ResourceStore({ maxBytes: 100 });
+        store.add(resource('screenshot://a/tile/0', 40));
+        store.add(resource('screenshot://b/tile/0', 40));
+
+        // Reading a makes b the least recently used
+        expect(store.get('screenshot://a/tile/0')).toBeDefined();
+        store.add(resource('screenshot://c/tile/0', 40));
+
+        expect(store.get('screenshot://b/tile/0')).toBeUndefined();
+        expect(store.list().map(item => item.uri)).toEqual([
+            'screenshot://c/tile/0',
+            'screenshot://a/tile/0',
+        ]);
+        expect(store.stats()).toEqual({ count: 2, bytes: 80, maxBytes: 100 });
+    });
+
+    it('replaces a resource stored under the same URI', () => {
+        const store = new ResourceStore({ maxBytes: 100 });
+        store.add(resource('screencast://a/webp', 60));
+        store.add(resource('screencast://a/webp', 30));
+
+        expect(store.stats().bytes).toBe(30);
+    });
+
+    it('refuses resources larger than the whole cache', () => {
+        const store = new ResourceStore({ maxBytes: 100 });
+        store.add(resource('screenshot://a/tile/0', 50));
+
+        expect(store.add(resource('screenshot://b/tile/0', 101))).toBeNull();
+        expect(store.get('screenshot://a/tile/0')).toBeDefined();
+    });
+});
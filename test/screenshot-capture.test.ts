@@ -0,0 +1,181 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import sharp from 'sharp';
+
+// A browser that never launches Chrome: pages load instantly, the next
+// `failScreenshots` screenshots throw like a crashed renderer would and the
+// next `failSetups` pages fail to enable request interception
+const fake = await vi.hoisted(async () => {
+    const { createFakePage } = await import('./helpers/fakePage.js');
+    const state = {
+        launches: 0,
+        failScreenshots: 0,
+        failSetups: 0,
+        png: Buffer.alloc(0),
+        pages: [] as ReturnType<typeof createFakePage>[],
+    };
+
+    function createContextPage(browser: any, context: any) {
+        let url = 'about:blank';
+        const fakePage = createFakePage({
+            browser,
+            methods: {
+                browserContext: () => context,
+                url: () => url,
+                goto: async (target: string) => {
+                    url = target;
+                    return null;
+                },
+                evaluate: async () => undefined,
+                screenshot: async () => {
+                    if (state.failScreenshots > 0) {
+                        state.failScreenshots--;
+                        throw new Error('Target crashed');
+                    }
+                    return state.png;
+                },
+                setRequestInterception: async () => {
+                    if (state.failSetups > 0) {
+                        state.failSetups--;
+                        throw new Error('Protocol error (Fetch.enable)');
+                    }
+                },
+                ...Object.fromEntries(
+                    [
+                        'setViewport',
+                        'setDefaultNavigationTimeout',
+                        'setDefaultTimeout',
+                        'setJavaScriptEnabled',
+                        'setOfflineMode',
+                        'setUserAgent',
+                        'setExtraHTTPHeaders',
+                        'authenticate',
+                    ].map(method => [method, async () => {}])
+                ),
+            },
+        });
+        state.pages.push(fakePage);
+        return fakePage.page;
+    }
+
+    function createFakeBrowser() {
+        state.launches++;
+        let connected = true;
+        const browser: any = {
+            isConnected: () => connected,
+            get connected() {
+                return connected;
+            },
+            close: async () => {
+                connected = false;
+            },
+            on: () => browser,
+            process: () => null,
+            pages: async () => [],
+            userAgent: async () => 'HeadlessChrome',
+            createBrowserContext: async () => {
+                const context: any = {
+                    newPage: async () => createContextPage(browser, context),
+                    close: async () => {
+                        for (const { page } of state.pages) {
+                            if ((page as any).browserContext() === context) {
+                                await page.close();
+                            }
+                        }
+                    },
+                };
+                return context;
+            },
+        };
+        return browser;
+    }
+
+    return { state, createFakeBrowser };
+});
+
+vi.mock('puppeteer', async importOriginal => ({
+    ...(await importOriginal<typeof import('puppeteer')>()),
+    default: {
+        launch: async () => fake.createFakeBrowser(),
+        executablePath: () => '/fake/chrome',
+    },
+}));
+
+const {
+    captureScreenshot,
+    closeBrowser,
+    getSession,
+    openSession,
+    listSessions,
+} = await import('../src/internal/screenshotCapture.js');
+
+describe('captures on a shared browser', () => {
+    beforeAll(async () => {
+        fake.state.png = await sharp({
+            create: {
+                width: 4,
+                height: 4,
+                channels: 3,
+                background: { r: 255, g: 255, b: 255 },
+            },
+        })
+            .png()
+            .toBuffer();
+    });
+
+    afterAll(async () => {
+        await closeBrowser();
+    });
+
+    it('retries on a fresh page and leaves open sessions alive', async () => {
+        await openSession({ sessionId: 'login' });
+        const sessionPage = fake.state.pages[0].page;
+        fake.state.failScreenshots = 1;
+
+        const result = await captureScreenshot({
+            url: 'https://93.184.216.34/',
+            fullPage: false,
+        });
+
+        expect(result.url).toBe('https://93.184.216.34/');
+        expect(fake.state.launches).toBe(1);
+        expect(sessionPage.isClosed()).toBe(false);
+        expect(getSession('login').id).toBe('login');
+        expect(listSessions()).toHaveLength(1);
+    }, 10000);
+
+    it("keeps the session's device unless the capture sets its own", async () => {
+        await openSession({ sessionId: 'phone', device: 'iphone' });
+        const { calls } = fake.state.pages.at(-1)!;
+
+        const result = await captureScreenshot({
+            url: 'https://93.184.216.34/',
+            fullPage: false,
+            sessionId: 'phone',
+        });
+        expect(result).toMatchObject({
+            viewport: { isMobile: true, hasTouch: true },
+        });
+        expect(calls.filter(([name]) => name === 'setViewport').at(-1)).toEqual(
+            ['setViewport', [expect.objectContaining({ isMobile: true })]]
+        );
+
+        const desktop = await captureScreenshot({
+            url: 'https://93.184.216.34/',
+            fullPage: false,
+            sessionId: 'phone',
+            viewport: { width: 800, height: 600 },
+        });
+        expect(desktop).toMatchObject({
+            viewport: { width: 800, height: 600 },
+        });
+    });
+
+    it('closes pages whose setup fails', async () => {
+        fake.state.failSetups = 1;
+
+        await expect(openSession({ sessionId: 'broken' })).rejects.toThrow(
+            'Protocol error'
+        );
+        expect(fake.state.pages.at(-1)!.page.isClosed()).toBe(true);
+    });
+});
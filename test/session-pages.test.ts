@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { Page } from 'puppeteer';
+import {
+    restoreSessionIdentity,
+    shouldNavigate,
+} from '../src/internal/sessionPages.js';
+import { createFakePage } from './helpers/fakePage.js';
+
+// The page calls restoring a session identity makes
+const restoreMethods = {
+    setExtraHTTPHeaders: async () => {},
+    authenticate: async () => {},
+    setUserAgent: async () => {},
+};
+
+describe('shouldNavigate', () => {
+    it('always navigates without a session', () => {
+        const { page } = createFakePage();
+
+        expect(shouldNavigate(page, { url: 'https://example.com/' })).toBe(
+            true
+        );
+    });
+
+    it('keeps session pages on equivalent URLs', () => {
+        const { page } = createFakePage({ url: 'https://example.com/' });
+
+        for (const url of [
+            'https://example.com',
+            'https://EXAMPLE.com:443/',
+            'https://example.com/',
+        ]) {
+            expect(shouldNavigate(page, { url, sessionId: 'app' })).toBe(false);
+        }
+        expect(
+            shouldNavigate(page, {
+                url: 'https://example.com/settings',
+                sessionId: 'app',
+            })
+        ).toBe(true);
+    });
+
+    it('ignores trailing slashes on deeper paths', () => {
+        const { page } = createFakePage({ url: 'https://example.com/app/' });
+
+        expect(
+            shouldNavigate(page, {
+                url: 'https://example.com/app',
+                sessionId: 'app',
+            })
+        ).toBe(false);
+        expect(
+            shouldNavigate(page, {
+                url: 'https://example.com/app/?tab=2',
+                sessionId: 'app',
+            })
+        ).toBe(true);
+    });
+});
+
+describe('restoreSessionIdentity', () => {
+    it('returns to the headers and user agent the session was opened with', async () => {
+        const { page, calls } = createFakePage({
+            browser: { userAgent: async () => 'HeadlessChrome/130' },
+            methods: restoreMethods,
+        });
+
+        await restoreSessionIdentity(page, {
+            headers: { Authorization: 'Bearer abc' },
+            userAgent: 'SessionAgent/1.0',
+        });
+
+        expect(calls).toEqual([
+            ['setExtraHTTPHeaders', [{ Authorization: 'Bearer abc' }]],
+            ['authenticate', [null]],
+            ['setUserAgent', [{ userAgent: 'SessionAgent/1.0' }]],
+        ]);
+    });
+
+    it('clears per-call settings of sessions opened without any', async () => {
+        const { page, calls } = createFakePage({
+            browser: { userAgent: async () => 'HeadlessChrome/130' },
+            methods: restoreMethods,
+        });
+
+        await restoreSessionIdentity(page, {});
+
+        expect(calls).toEqual([
+            ['setExtraHTTPHeaders', [{}]],
+            ['authenticate', [null]],
+            ['setUserAgent', [{ userAgent: 'HeadlessChrome/130' }]],
+        ]);
+    });
+
+    it('does not throw when the page is gone', async () => {
+        const page = {
+            setExtraHTTPHeaders: async () => {
+                throw new Error('Target closed');
+            },
+        } as unknown as Page;
+
+        await expect(restoreSessionIdentity(page, {})).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SessionStore } from '../src/internal/sessionStore.js';
+import { createFakePage } from './helpers/fakePage.js';
+
+function createStore(idleTimeoutMs: number = 60000) {
+    return new SessionStore({
+        idleTimeoutMs,
+        maxSessions: 2,
+        closePage: page => page.close(),
+    });
+}
+
+describe('SessionStore', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('leases the same live page on every acquire', async () => {
+        const store = createStore();
+        const { page } = createFakePage();
+        store.add('login', page);
+
+        expect(await store.acquire('login')).toBe(page);
+        store.release(page);
+        expect(await store.acquire('login')).toBe(page);
+        expect(store.info('login').url).toBe('https://example.com/');
+    });
+
+    it('runs captures on the same session one at a time', async () => {
+        const store = createStore();
+        const { page } = createFakePage();
+        store.add('login', page);
+
+        await store.acquire('login');
+        let secondAcquired = false;
+        const second = store.acquire('login').then(() => {
+            secondAcquired = true;
+        });
+
+        await Promise.resolve();
+        expect(secondAcquired).toBe(false);
+        expect(store.info('login').busy).toBe(true);
+
+        store.release(page);
+        await second;
+        expect(secondAcquired).toBe(true);
+    });
+
+    it('rejects duplicate IDs, unknown IDs and sessions past the limit', async () => {
+        const store = createStore();
+        store.add('a', createFakePage().page);
+        store.add('b', createFakePage().page);
+
+        expect(() => store.add('a', createFakePage().page)).toThrow(
+            /already exists/
+        );
+        expect(() => store.add('c', createFakePage().page)).toThrow(
+            /Too many open sessions/
+        );
+        await expect(store.acquire('missing')).rejects.toThrow(
+            /Unknown session "missing"/
+        );
+    });
+
+    it('expires idle sessions and closes their page', async () => {
+        vi.useFakeTimers();
+        const store = createStore(1000);
+        const { page } = createFakePage();
+        store.add('login', page);
+
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(store.has('login')).toBe(false);
+        expect(page.isClosed()).toBe(true);
+    });
+
+    it('does not expire a session while a capture holds it', async () => {
+        vi.useFakeTimers();
+        const store = createStore(1000);
+        const { page } = createFakePage();
+        store.add('login', page);
+
+        await store.acquire('login');
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(store.has('login')).toBe(true);
+
+        store.release(page);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(store.has('login')).toBe(false);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { assertStitchable, stitchTiles } from '../src/internal/stitch.js';
+
+async function solid(width: number, height: number, r: number) {
+    return sharp({
+        create: { width, height, channels: 3, background: { r, g: 0, b: 0 } },
+    })
+        .png()
+        .toBuffer();
+}
+
+async function tile(y: number, height: number, r: number) {
+    return {
+        row: y / 100,
+        col: 0,
+        x: 0,
+        y,
+        width: 50,
+        height,
+        screenshot: await solid(50, height, r),
+    };
+}
+
+describe('stitchTiles', () => {
+    it('places tiles at their page offsets', async () => {
+        const stitched = await stitchTiles(
+            [await tile(0, 100, 10), await tile(100, 60, 200)],
+            50,
+            160
+        );
+        const { data, info } = await sharp(stitched)
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+
+        expect([info.width, info.height]).toEqual([50, 160]);
+        expect(data[0]).toBe(10);
+        expect(data[150 * 50 * info.channels]).toBe(200);
+    });
+
+    it('fails or downscales pages over the height limit', async () => {
+        const tiles = [await tile(0, 100, 10), await tile(100, 100, 20)];
+
+        await expect(
+            stitchTiles(tiles, 50, 200, { maxHeight: 150 })
+        ).rejects.toThrow(/more than the 150px stitch limit/);
+
+        const shrunk = await stitchTiles(tiles, 50, 200, {
+            maxHeight: 100,
+            downscale: true,
+        });
+        expect((await sharp(shrunk).metadata()).height).toBe(100);
+    });
+
+    it('caps webp, avif and jpeg pages at the format height limit', () => {
+        expect(() =>
+            assertStitchable(9000, { format: 'webp', deviceScaleFactor: 2 })
+        ).toThrow(
+            'Page is 9000px tall, more than the 8191px webp images can hold at device scale 2. Allow downscaling, save as png or jpeg or capture tiles instead'
+        );
+        expect(() =>
+            assertStitchable(17000, { format: 'avif', maxHeight: 30000 })
+        ).toThrow(/more than the 16383px avif images can hold\./);
+        expect(() =>
+            assertStitchable(17000, { format: 'avif', downscale: true })
+        ).not.toThrow();
+        expect(() =>
+            assertStitchable(17000, { format: 'png', maxHeight: 20000 })
+        ).not.toThrow();
+        expect(() =>
+            assertStitchable(12000, { format: 'webp', maxHeight: 10000 })
+        ).toThrow(/more than the 10000px stitch limit/);
+        expect(() =>
+            assertStitchable(40000, { format: 'jpeg', deviceScaleFactor: 2 })
+        ).toThrow(
+            'Page is 40000px tall, more than the 32767px jpeg images can hold at device scale 2. Allow downscaling, save as png or capture tiles instead'
+        );
+        expect(() => assertStitchable(40000, { format: 'jpeg' })).not.toThrow();
+    });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+    layoutTiles,
+    validateSmartCutTolerance,
+} from '../src/internal/tiling.js';
+
+describe('layoutTiles', () => {
+    it('cuts square tiles without overlap by default', () => {
+        const tiles = layoutTiles(1072, 2500, {
+            tileWidth: 1072,
+            tileHeight: 1072,
+            overlap: 0,
+        });
+
+        expect(tiles.map(tile => [tile.y, tile.height])).toEqual([
+            [0, 1072],
+            [1072, 1072],
+            [2144, 356],
+        ]);
+    });
+
+    it('tiles wide pages in rows and columns', () => {
+        const tiles = layoutTiles(2500, 1500, {
+            tileWidth: 1072,
+            tileHeight: 1072,
+            overlap: 0,
+        });
+
+        expect(
+            tiles.map(tile => [tile.row, tile.col, tile.x, tile.width])
+        ).toEqual([
+            [0, 0, 0, 1072],
+            [0, 1, 1072, 1072],
+            [0, 2, 2144, 356],
+            [1, 0, 0, 1072],
+            [1, 1, 1072, 1072],
+            [1, 2, 2144, 356],
+        ]);
+    });
+
+    it('starts every tile overlap pixels before the previous one ended', () => {
+        const tiles = layoutTiles(1000, 2000, {
+            tileWidth: 1000,
+            tileHeight: 800,
+            overlap: 100,
+        });
+
+        expect(tiles).toEqual([
+            { row: 0, col: 0, x: 0, y: 0, width: 1000, height: 800 },
+            { row: 1, col: 0, x: 0, y: 700, width: 1000, height: 800 },
+            { row: 2, col: 0, x: 0, y: 1400, width: 1000, height: 600 },
+        ]);
+    });
+
+    it('returns a single tile for pages shorter than a tile', () => {
+        expect(
+            layoutTiles(800, 300, {
+                tileWidth: 800,
+                tileHeight: 800,
+                overlap: 50,
+            })
+        ).toHaveLength(1);
+    });
+
+    it('moves cuts into the nearest gap between elements', () => {
+        const layout = { tileWidth: 1000, tileHeight: 1000, overlap: 0 };
+        const elements = [
+            { top: 0, bottom: 5000 }, // Page wrapper, too tall to avoid
+            { top: 850, bottom: 940 },
+            { top: 960, bottom: 1100 }, // Card across the regular cut
+        ];
+
+        const tiles = layoutTiles(1000, 2500, layout, {
+            elements,
+            tolerance: 250,
+        });
+        expect(tiles.map(tile => [tile.y, tile.height])).toEqual([
+            [0, 960],
+            [960, 1000],
+            [1960, 540],
+        ]);
+    });
+
+    it('keeps the regular cut when no gap is within the tolerance', () => {
+        const tiles = layoutTiles(
+            1000,
+            1500,
+            { tileWidth: 1000, tileHeight: 1000, overlap: 0 },
+            { elements: [{ top: 700, bottom: 1200 }], tolerance: 100 }
+        );
+        expect(tiles[0].height).toBe(1000);
+    });
+
+    it('rejects overlaps that would never advance', () => {
+        expect(() =>
+            layoutTiles(800, 3000, {
+                tileWidth: 800,
+                tileHeight: 400,
+                overlap: 400,
+            })
+        ).toThrow(/tileOverlap/);
+    });
+
+    it('bounds the smart cut tolerance to half a tile', () => {
+        const layout = { tileWidth: 1000, tileHeight: 1000, overlap: 0 };
+        const elements = [{ top: 700, bottom: 1200 }];
+
+        expect(
+            layoutTiles(1000, 3000, layout, { elements, tolerance: 500 })[0]
+                .height
+        ).toBe(700);
+        expect(() =>
+            layoutTiles(1000, 3000, layout, { elements, tolerance: 501 })
+        ).toThrow(/smartTilingTolerance/);
+        expect(() =>
+            layoutTiles(1000, 3000, layout, { elements, tolerance: -1 })
+        ).toThrow(/smartTilingTolerance/);
+        expect(() => validateSmartCutTolerance(NaN, 1000)).toThrow(
+            'between 0 and half the tile height (500px), got NaN'
+        );
+    });
+});
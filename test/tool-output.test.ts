@@ -0,0 +1,339 @@
+import { describe, expect, it } from 'vitest';
+import {
+    baselineOutput,
+    compareOutput,
+    consoleOutput,
+    diagnoseOutput,
+    screencastOutput,
+    screenshotOutput,
+} from '../src/utils/toolOutput.js';
+
+const timestamp = new Date('2025-01-01T00:00:00.000Z');
+
+describe('tool output builders', () => {
+    it('reports tile coordinates and saved paths without image data', () => {
+        const output = screenshotOutput(
+            {
+                url: 'https://example.com/',
+                timestamp,
+                fullWidth: 1072,
+                fullHeight: 1500,
+                pageWidth: 1072,
+                tileSize: 1072,
+                tileHeight: 1072,
+                tileOverlap: 0,
+                stitched: false,
+                fixedElementsHidden: 0,
+                format: 'png',
+                estimatedTokens: 2145,
+                targetModel: 'claude',
+                dismissedOverlays: [
+                    {
+                        name: 'OneTrust',
+                        selector: '#onetrust-accept-btn-handler',
+                        action: 'clicked',
+                    },
+                ],
+                blockedRequests: [
+                    {
+                        url: 'https://example.com/font.woff2',
+                        resourceType: 'font',
+                        reason: 'font requests are not loaded',
+                    },
+                ],
+                tiles: [
+                    {
+                        screenshot: Buffer.from('a'),
+                        index: 0,
+                        row: 0,
+                        col: 0,
+                        x: 0,
+                        y: 0,
+                        width: 1072,
+                        height: 1072,
+                        estimatedTokens: 1533,
+                    },
+                    {
+                        screenshot: Buffer.from('b'),
+                        index: 1,
+                        row: 1,
+                        col: 0,
+                        x: 0,
+                        y: 1072,
+                        width: 1072,
+                        height: 428,
+                        estimatedTokens: 612,
+                    },
+                ],
+            },
+            {
+                paths: ['/tmp/a.png', '/tmp/b.png'],
+                uris: ['screenshot://abc/tile/0', 'screenshot://abc/tile/1'],
+            }
+        );
+
+        expect(output).toMatchObject({
+            timestamp: '2025-01-01T00:00:00.000Z',
+            fullPage: true,
+            fullHeight: 1500,
+            estimatedTokens: 2145,
+            dismissedOverlays: [
+                {
+                    name: 'OneTrust',
+                    selector: '#onetrust-accept-btn-handler',
+                    action: 'clicked',
+                },
+            ],
+            blockedRequests: [
+                {
+                    url: 'https://example.com/font.woff2',
+                    resourceType: 'font',
+                },
+            ],
+            savedPaths: ['/tmp/a.png', '/tmp/b.png'],
+        });
+        expect(output.tiles[1]).toEqual({
+            index: 1,
+            row: 1,
+            col: 0,
+            x: 0,
+            y: 1072,
+            width: 1072,
+            height: 428,
+            estimatedTokens: 612,
+            path: '/tmp/b.png',
+            uri: 'screenshot://abc/tile/1',
+        });
+        expect(JSON.stringify(output)).not.toContain('Buffer');
+    });
+
+    it('reports a viewport shot as a single tile', () => {
+        const output = screenshotOutput({
+            url: 'https://example.com/',
+            screenshot: Buffer.from('a'),
+            timestamp,
+            viewport: { width: 800, height: 600 },
+            format: 'png',
+            estimatedTokens: 640,
+            targetModel: 'claude',
+            dismissedOverlays: [],
+            blockedRequests: [],
+        });
+
+        expect(output.fullPage).toBe(false);
+        expect(output.blockedRequests).toEqual([]);
+        expect(output.tiles).toEqual([
+            {
+                index: 0,
+                row: 0,
+                col: 0,
+                x: 0,
+                y: 0,
+                width: 800,
+                height: 600,
+                estimatedTokens: 640,
+            },
+        ]);
+    });
+
+    it('serializes frame and console message timestamps', () => {
+        const screencast = screencastOutput(
+            {
+                url: 'https://example.com/',
+                frames: [{ screenshot: Buffer.from('a'), timestamp, index: 0 }],
+                startTime: timestamp,
+                endTime: timestamp,
+                duration: 1,
+                interval: 1,
+                viewport: { width: 1072, height: 1072 },
+                format: 'png',
+                dismissedOverlays: [],
+                blockedRequests: [],
+            },
+            { savedAs: 'webp', paths: ['/tmp/cast.webp'] }
+        );
+        expect(screencast.frames).toEqual([
+            { index: 0, timestamp: '2025-01-01T00:00:00.000Z' },
+        ]);
+        expect(screencast.savedPaths).toEqual(['/tmp/cast.webp']);
+        expect(screencast.blockedRequests).toEqual([]);
+
+        const consoleResult = consoleOutput({
+            url: 'https://example.com/',
+            messages: [
+                {
+                    type: 'warn',
+                    level: 'warning',
+                    text: 'careful',
+                    timestamp,
+                    location: { url: 'https://example.com/app.js', line: 3 },
+                    count: 2,
+                },
+            ],
+            totalMessages: 5,
+            startTime: timestamp,
+            endTime: timestamp,
+            duration: 4,
+            dismissedOverlays: [],
+            blockedRequests: [],
+        });
+        expect(consoleResult.totalMessages).toBe(5);
+        expect(consoleResult.messages).toEqual([
+            {
+                type: 'warn',
+                level: 'warning',
+                text: 'careful',
+                timestamp: '2025-01-01T00:00:00.000Z',
+                location: { url: 'https://example.com/app.js', line: 3 },
+                count: 2,
+            },
+        ]);
+    });
+
+    it('reports diagnosis findings without the screenshot', () => {
+        const output = diagnoseOutput(
+            {
+                url: 'http://example.com/',
+                finalUrl: 'https://example.com/',
+                status: 200,
+                title: 'Example',
+                screenshot: Buffer.from('png'),
+                timestamp,
+                viewport: { width: 1072, height: 1072 },
+                format: 'png',
+                estimatedTokens: 1533,
+                targetModel: 'claude',
+                consoleMessages: [],
+                exceptions: [
+                    {
+                        type: 'pageerror',
+                        level: 'error',
+                        text: 'x is not defined',
+                        timestamp,
+                        stack: 'ReferenceError: x is not defined',
+                    },
+                ],
+                failedRequests: [
+                    {
+                        url: 'https://example.com/main.js',
+                        method: 'GET',
+                        resourceType: 'script',
+                        startedAt: timestamp,
+                        status: 404,
+                        requestHeaders: { accept: '*/*' },
+                    },
+                ],
+                dismissedOverlays: [],
+                blockedRequests: [],
+            },
+            'screenshot://abc/diagnosis'
+        );
+
+        expect(output).not.toHaveProperty('screenshot');
+        expect(output).toMatchObject({
+            finalUrl: 'https://example.com/',
+            status: 200,
+            uri: 'screenshot://abc/diagnosis',
+            exceptions: [
+                {
+                    type: 'pageerror',
+                    timestamp: '2025-01-01T00:00:00.000Z',
+                },
+            ],
+            failedRequests: [
+                {
+                    url: 'https://example.com/main.js',
+                    status: 404,
+                    startedAt: '2025-01-01T00:00:00.000Z',
+                },
+            ],
+        });
+        expect(output.failedRequests[0]).not.toHaveProperty('requestHeaders');
+    });
+
+    it('includes pass/fail fields for baseline checks and drops diff images', () => {
+        const output = compareOutput(
+            {
+                url: 'https://example.com/',
+                baseline: 'https://example.com/ 1072x1072',
+                key: 'https://example.com/ 1072x1072',
+                passed: false,
+                maxMismatchPercentage: 0.1,
+                savedAt: '2025-01-01T00:00:00.000Z',
+                timestamp,
+                fullWidth: 1072,
+                fullHeight: 1072,
+                tileSize: 1072,
+                mismatchedPixels: 10,
+                totalPixels: 100,
+                mismatchPercentage: 10,
+                regions: [{ x: 1, y: 2, width: 3, height: 4 }],
+                tiles: [
+                    {
+                        index: 0,
+                        row: 0,
+                        col: 0,
+                        x: 0,
+                        y: 0,
+                        width: 10,
+                        height: 10,
+                        mismatchedPixels: 10,
+                        mismatchPercentage: 10,
+                        regions: [{ x: 1, y: 2, width: 3, height: 4 }],
+                        diff: Buffer.from('diff'),
+                    },
+                ],
+                format: 'png',
+                blockedRequests: [
+                    {
+                        url: 'https://example.com/intro.mp4',
+                        resourceType: 'media',
+                        reason: 'media requests are not loaded',
+                    },
+                ],
+            },
+            { paths: new Map([[0, '/tmp/diff.png']]) }
+        );
+
+        expect(output).toMatchObject({
+            passed: false,
+            key: expect.any(String),
+            blockedRequests: [
+                {
+                    url: 'https://example.com/intro.mp4',
+                    resourceType: 'media',
+                },
+            ],
+        });
+        expect(output.tiles[0]).not.toHaveProperty('diff');
+        expect(output.tiles[0].path).toBe('/tmp/diff.png');
+        expect(output.savedPaths).toEqual(['/tmp/diff.png']);
+    });
+
+    it('resolves saved baseline files against the baseline directory', () => {
+        const output = baselineOutput({
+            key: 'https://example.com/ 1072x1072',
+            url: 'https://example.com/',
+            viewport: { width: 1072, height: 1072 },
+            fullPage: true,
+            tiles: [
+                {
+                    row: 0,
+                    col: 0,
+                    x: 0,
+                    y: 0,
+                    width: 1072,
+                    height: 1072,
+                    file: 'abc-0-0.png',
+                },
+            ],
+            fullWidth: 1072,
+            fullHeight: 1072,
+            createdAt: '2025-01-01T00:00:00.000Z',
+            updatedAt: '2025-01-01T00:00:00.000Z',
+            directory: '/baselines',
+        });
+
+        expect(output.savedPaths).toEqual(['/baselines/abc-0-0.png']);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { waitForConditions } from '../src/internal/waitConditions.js';
+import { createFakePage } from './helpers/fakePage.js';
+
+// Waits resolve at once except for "#never"; screenshots replay `frames`
+function createWaitingPage(frames: string[] = []) {
+    let frameIndex = 0;
+    return createFakePage({
+        methods: {
+            waitForSelector: async (selector: string) => {
+                if (selector === '#never') {
+                    throw new Error('Waiting failed: 50ms exceeded');
+                }
+            },
+            waitForFunction: async () => {},
+            waitForNetworkIdle: async () => {},
+            screenshot: async () =>
+                Buffer.from(frames[Math.min(frameIndex++, frames.length - 1)]),
+        },
+    });
+}
+
+describe('waitForConditions', () => {
+    it('waits for each condition in a fixed order', async () => {
+        const { page, calls } = createWaitingPage();
+
+        await waitForConditions(page, {
+            waitForAssets: true,
+            waitForNetworkIdle: 500,
+            waitForFunction: 'window.ready',
+            waitForSelector: '.spinner',
+            waitForSelectorHidden: true,
+        });
+
+        expect(calls).toEqual([
+            [
+                'waitForSelector',
+                ['.spinner', expect.objectContaining({ hidden: true })],
+            ],
+            ['waitForFunction', ['window.ready', expect.anything()]],
+            [
+                'waitForNetworkIdle',
+                [expect.objectContaining({ idleTime: 500 })],
+            ],
+            ['waitForFunction', [expect.any(Function), expect.anything()]],
+        ]);
+    });
+
+    it('names the condition that was not met', async () => {
+        await expect(
+            waitForConditions(createWaitingPage().page, {
+                waitForSelector: '#never',
+                waitTimeout: 50,
+            })
+        ).rejects.toThrow(
+            /^Waiting for "#never" to become visible failed \(timeout 50ms\): /
+        );
+    });
+
+    it('waits until two consecutive frames are identical', async () => {
+        const { page } = createWaitingPage(['a', 'b', 'c', 'c']);
+
+        await expect(
+            waitForConditions(page, { waitForStable: true })
+        ).resolves.toBeUndefined();
+    });
+
+    it('fails when the page keeps changing', async () => {
+        const frames = Array.from({ length: 20 }, (_, i) => `frame ${i}`);
+
+        await expect(
+            waitForConditions(createWaitingPage(frames).page, {
+                waitForStable: true,
+                waitTimeout: 300,
+            })
+        ).rejects.toThrow(/two identical consecutive frames/);
+    });
+
+    it('rejects invalid timeouts', async () => {
+        await expect(
+            waitForConditions(createWaitingPage().page, { waitTimeout: 0 })
+        ).rejects.toThrow(/waitTimeout/);
+    });
+});